@@ -0,0 +1,17 @@
+import { TaskApiSolver, TaskTypeMap } from './TaskApiSolver';
+
+/**
+ * Anti-Captcha solver (https://anti-captcha.com/apidoc)
+ */
+export class AntiCaptchaSolver extends TaskApiSolver {
+	readonly name = 'anti-captcha';
+	protected readonly defaultBaseUrl = 'https://api.anti-captcha.com';
+	protected readonly taskTypes: TaskTypeMap = {
+		'recaptcha-v2': 'RecaptchaV2TaskProxyless',
+		'recaptcha-v2-enterprise': 'RecaptchaV2EnterpriseTaskProxyless',
+		'recaptcha-v3': 'RecaptchaV3TaskProxyless',
+		'hcaptcha': 'HCaptchaTaskProxyless',
+		'turnstile': 'TurnstileTaskProxyless',
+		'image': 'ImageToTextTask',
+	};
+}
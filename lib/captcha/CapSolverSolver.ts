@@ -0,0 +1,17 @@
+import { TaskApiSolver, TaskTypeMap } from './TaskApiSolver';
+
+/**
+ * CapSolver solver (https://docs.capsolver.com). Image tasks are answered synchronously.
+ */
+export class CapSolverSolver extends TaskApiSolver {
+	readonly name = 'capsolver';
+	protected readonly defaultBaseUrl = 'https://api.capsolver.com';
+	protected readonly taskTypes: TaskTypeMap = {
+		'recaptcha-v2': 'ReCaptchaV2TaskProxyLess',
+		'recaptcha-v2-enterprise': 'ReCaptchaV2EnterpriseTaskProxyLess',
+		'recaptcha-v3': 'ReCaptchaV3TaskProxyLess',
+		'hcaptcha': 'HCaptchaTaskProxyLess',
+		'turnstile': 'AntiTurnstileTaskProxyLess',
+		'image': 'ImageToTextTask',
+	};
+}
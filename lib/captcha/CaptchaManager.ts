@@ -0,0 +1,295 @@
+import { randomUUID } from 'crypto';
+import { Frame, Page } from 'puppeteer';
+import { CaptchaError, FelintoError } from '../utils/custom-errors';
+import {
+	CaptchaChallenge,
+	CaptchaResult,
+	CaptchaSolution,
+	CaptchaSolver,
+	CaptchaType,
+	SolveCaptchasOptions,
+	SolveCaptchasResult,
+} from './CaptchaSolver';
+
+interface DetectedCaptcha {
+	type: Exclude<CaptchaType, 'image'>;
+	sitekey: string;
+	action?: string;
+	invisible?: boolean;
+	enterprise?: boolean;
+}
+
+interface PageChallenge {
+	challenge: CaptchaChallenge;
+	frame: Frame;
+	/** Input receiving the text of image captchas */
+	input?: string;
+}
+
+declare global {
+	interface Window {
+		/** reCAPTCHA widget state, holds the callbacks given to grecaptcha.render() */
+		___grecaptcha_cfg?: { clients?: Record<string, unknown> };
+	}
+}
+
+// Frames served by the captcha vendors are the widgets themselves, their host page is scanned instead
+const WIDGET_FRAME_URL = /google\.com\/recaptcha|recaptcha\.net\/recaptcha|hcaptcha\.com\/captcha|challenges\.cloudflare\.com/;
+
+/**
+ * Runs in the frame. Avoids async/await so it survives the TypeScript downlevel emit.
+ */
+const detectCaptchas = (): DetectedCaptcha[] => {
+	const found: DetectedCaptcha[] = [];
+	const add = (captcha: DetectedCaptcha) => {
+		if (captcha.sitekey && !found.some(item => item.type === captcha.type && item.sitekey === captcha.sitekey)) {
+			found.push(captcha);
+		}
+	};
+	const param = (src: string, name: string) => {
+		try {
+			const url = new URL(src, location.href);
+			return url.searchParams.get(name) || new URLSearchParams(url.hash.slice(1)).get(name) || '';
+		} catch (e) {
+			return '';
+		}
+	};
+
+	document.querySelectorAll('.g-recaptcha[data-sitekey]').forEach(element => {
+		add({
+			type: 'recaptcha-v2',
+			sitekey: element.getAttribute('data-sitekey') || '',
+			invisible: element.getAttribute('data-size') === 'invisible',
+		});
+	});
+	document.querySelectorAll<HTMLIFrameElement>('iframe[src*="/recaptcha/api2/anchor"], iframe[src*="/recaptcha/enterprise/anchor"]').forEach(frame => {
+		add({
+			type: 'recaptcha-v2',
+			sitekey: param(frame.src, 'k'),
+			invisible: param(frame.src, 'size') === 'invisible',
+			enterprise: frame.src.includes('/enterprise/'),
+		});
+	});
+	document.querySelectorAll<HTMLScriptElement>('script[src*="/recaptcha/api.js"], script[src*="/recaptcha/enterprise.js"]').forEach(script => {
+		const render = param(script.src, 'render');
+		if (render && render !== 'explicit' && render !== 'onload') {
+			add({ type: 'recaptcha-v3', sitekey: render, enterprise: script.src.includes('/enterprise.js') });
+		}
+	});
+
+	document.querySelectorAll('.h-captcha[data-sitekey]').forEach(element => {
+		add({
+			type: 'hcaptcha',
+			sitekey: element.getAttribute('data-sitekey') || '',
+			invisible: element.getAttribute('data-size') === 'invisible',
+		});
+	});
+	document.querySelectorAll<HTMLIFrameElement>('iframe[src*="hcaptcha.com"]').forEach(frame => {
+		add({ type: 'hcaptcha', sitekey: param(frame.src, 'sitekey') });
+	});
+
+	document.querySelectorAll('.cf-turnstile[data-sitekey]').forEach(element => {
+		add({
+			type: 'turnstile',
+			sitekey: element.getAttribute('data-sitekey') || '',
+			action: element.getAttribute('data-action') || undefined,
+		});
+	});
+	document.querySelectorAll<HTMLIFrameElement>('iframe[src*="challenges.cloudflare.com"]').forEach(frame => {
+		// Turnstile frames carry the sitekey as a path segment
+		const match = frame.src.match(/\/(0x[0-9A-Za-z_-]{16,})\//);
+		if (match && match[1]) add({ type: 'turnstile', sitekey: match[1] });
+	});
+
+	return found;
+};
+
+/**
+ * Runs in the frame. Writes the token into the response fields of the widget and calls its callback.
+ */
+const injectToken = (type: Exclude<CaptchaType, 'image'>, sitekey: string, token: string): boolean => {
+	const fields: Record<string, string> = {
+		'recaptcha-v2': 'textarea[name="g-recaptcha-response"]',
+		'recaptcha-v3': 'textarea[name="g-recaptcha-response"]',
+		'hcaptcha': 'textarea[name="h-captcha-response"], textarea[name="g-recaptcha-response"]',
+		'turnstile': 'input[name="cf-turnstile-response"]',
+	};
+	const widgets: Record<string, string> = {
+		'recaptcha-v2': '.g-recaptcha',
+		'recaptcha-v3': '.g-recaptcha',
+		'hcaptcha': '.h-captcha',
+		'turnstile': '.cf-turnstile',
+	};
+
+	let injected = false;
+	document.querySelectorAll<HTMLTextAreaElement | HTMLInputElement>(fields[type] || '').forEach(field => {
+		field.value = token;
+		if (field instanceof HTMLTextAreaElement) field.innerHTML = token;
+		injected = true;
+	});
+
+	const callbacks: Array<(token: string) => void> = [];
+	const resolvePath = (path: string) => path.split('.').reduce<any>((target, key) => (target ? target[key] : undefined), window);
+	document.querySelectorAll(`${widgets[type]}[data-sitekey="${sitekey}"][data-callback]`).forEach(element => {
+		const callback = resolvePath(element.getAttribute('data-callback') || '');
+		if (typeof callback === 'function') callbacks.push(callback);
+	});
+
+	// reCAPTCHA widgets rendered through grecaptcha.render() keep their callback in ___grecaptcha_cfg
+	const config = window.___grecaptcha_cfg;
+	if (type.startsWith('recaptcha') && callbacks.length === 0 && config && config.clients) {
+		const visit = (value: any, depth: number) => {
+			if (!value || typeof value !== 'object' || depth > 4) return;
+			for (const key of Object.keys(value)) {
+				const item = value[key];
+				if (key === 'callback' && value.sitekey === sitekey) {
+					const callback = typeof item === 'function' ? item : resolvePath(String(item));
+					if (typeof callback === 'function') callbacks.push(callback);
+				} else {
+					visit(item, depth + 1);
+				}
+			}
+		};
+		visit(config.clients, 0);
+	}
+
+	callbacks.forEach(callback => {
+		try {
+			callback(token);
+			injected = true;
+		} catch (e) {
+			// The site callback failed, the token is still in the form
+		}
+	});
+	return injected;
+};
+
+/**
+ * CaptchaManager - Finds captchas on a page, solves them with the first solver supporting
+ * each type (falling back to the next on failure) and writes the answers back
+ */
+export class CaptchaManager {
+	private readonly solvers: CaptchaSolver[];
+
+	constructor(solvers: CaptchaSolver | CaptchaSolver[]) {
+		this.solvers = Array.isArray(solvers) ? solvers : [solvers];
+	}
+
+	/**
+	 * Detect every captcha in the page and its frames, including image captchas given by selectors
+	 */
+	async detect(page: Page, options: SolveCaptchasOptions = {}): Promise<PageChallenge[]> {
+		const challenges: PageChallenge[] = [];
+
+		for (const frame of page.frames()) {
+			if (frame.isDetached() || WIDGET_FRAME_URL.test(frame.url())) continue;
+
+			const detected = await frame.evaluate(detectCaptchas).catch((): DetectedCaptcha[] => []);
+			for (const captcha of detected) {
+				if (options.types && !options.types.includes(captcha.type)) continue;
+				challenges.push({ challenge: { id: randomUUID(), url: frame.url(), ...captcha }, frame });
+			}
+		}
+
+		if (!options.types || options.types.includes('image')) {
+			for (const target of options.images || []) {
+				const element = await page.$(target.image);
+				if (!element) continue;
+				const image = await element.screenshot({ encoding: 'base64' });
+				await element.dispose();
+				challenges.push({
+					challenge: { id: randomUUID(), type: 'image', url: page.url(), image },
+					frame: page.mainFrame(),
+					input: target.input,
+				});
+			}
+		}
+
+		return challenges;
+	}
+
+	/**
+	 * Detect, solve and inject all captchas of the page concurrently
+	 */
+	async solve(page: Page, options: SolveCaptchasOptions = {}): Promise<SolveCaptchasResult> {
+		const challenges = await this.detect(page, options);
+		const captchas = await Promise.all(challenges.map(challenge => this.solveChallenge(page, challenge, options)));
+
+		return {
+			captchas,
+			solved: captchas.filter(captcha => captcha.status === 'solved').length,
+			failed: captchas.filter(captcha => captcha.status !== 'solved').length,
+			cost: captchas.reduce((total, captcha) => total + (captcha.cost || 0), 0),
+		};
+	}
+
+	private async solveChallenge(page: Page, target: PageChallenge, options: SolveCaptchasOptions): Promise<CaptchaResult> {
+		const { challenge } = target;
+		const startedAt = Date.now();
+		const result: CaptchaResult = {
+			id: challenge.id,
+			type: challenge.type,
+			sitekey: challenge.sitekey,
+			status: 'unsupported',
+			injected: false,
+			duration: 0,
+		};
+
+		const solvers = this.solvers.filter(solver => solver.supports(challenge.type));
+		const errors: string[] = [];
+		const signal = options.timeout ? AbortSignal.timeout(options.timeout) : undefined;
+
+		let solution: CaptchaSolution | undefined;
+		for (const solver of solvers) {
+			result.solver = solver.name;
+			try {
+				solution = await solver.solve(challenge, { signal });
+				if (!solution.token && !solution.text) {
+					throw new CaptchaError(`${solver.name} returned an empty solution.`, undefined, {
+						context: { provider: solver.name, url: challenge.url },
+					});
+				}
+				break;
+			} catch (error) {
+				solution = undefined;
+				errors.push(`${solver.name}: ${(error as Error).message}`);
+				result.code = error instanceof FelintoError ? error.code : CaptchaError.code;
+				if (signal?.aborted) break;
+			}
+		}
+
+		if (solution) {
+			delete result.code;
+			result.status = 'solved';
+			result.cost = solution.cost;
+			result.token = solution.token;
+			result.text = solution.text;
+			if (options.inject !== false) {
+				result.injected = await this.inject(page, target, solution).catch(() => false);
+			}
+		} else {
+			result.status = solvers.length > 0 ? 'failed' : 'unsupported';
+			if (solvers.length === 0) {
+				errors.push(`No solver supports ${challenge.type} captchas.`);
+				result.code = CaptchaError.code;
+			}
+			result.error = errors.join('; ');
+		}
+		result.duration = Date.now() - startedAt;
+		return result;
+	}
+
+	private async inject(page: Page, { challenge, frame, input: inputSelector }: PageChallenge, solution: CaptchaSolution): Promise<boolean> {
+		if (challenge.type === 'image') {
+			const input = inputSelector ? await page.$(inputSelector) : null;
+			if (!input || !solution.text) return false;
+			await input.click({ clickCount: 3 });
+			await input.type(solution.text);
+			await input.dispose();
+			return true;
+		}
+
+		if (!solution.token || !challenge.sitekey || frame.isDetached()) return false;
+		return frame.evaluate(injectToken, challenge.type, challenge.sitekey, solution.token).catch(() => false);
+	}
+}
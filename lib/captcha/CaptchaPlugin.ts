@@ -0,0 +1,27 @@
+import RecaptchaPlugin from 'puppeteer-extra-plugin-recaptcha';
+import { FelintoPlugin } from '../plugins/FelintoPlugin';
+import { CaptchaManager } from './CaptchaManager';
+import { CaptchaSolver } from './CaptchaSolver';
+
+export interface CaptchaPluginOptions {
+	/** Also adds the page.solveRecaptchas() of puppeteer-extra-plugin-recaptcha, solved with this 2Captcha key */
+	twoCaptchaKey?: string;
+}
+
+/**
+ * Built-in plugin adding page.solveCaptchas() backed by the given solvers, tried in order
+ */
+export const captchaPlugin = (solvers: CaptchaSolver | CaptchaSolver[], options: CaptchaPluginOptions = {}): FelintoPlugin => {
+	const captchaManager = new CaptchaManager(solvers);
+	// One instance per plugin, so each page keeps the key it was created with
+	const recaptcha = options.twoCaptchaKey
+		? RecaptchaPlugin({ provider: { id: '2captcha', token: options.twoCaptchaKey } })
+		: undefined;
+	return {
+		name: 'captcha',
+		pageCreated: async ({ page }) => {
+			page.solveCaptchas = captchaOptions => captchaManager.solve(page, captchaOptions);
+			await recaptcha?.onPageCreated(page);
+		},
+	};
+};
@@ -0,0 +1,86 @@
+export type CaptchaType = 'recaptcha-v2' | 'recaptcha-v3' | 'hcaptcha' | 'turnstile' | 'image';
+
+/**
+ * A captcha found on the page, as sent to a solver
+ */
+export interface CaptchaChallenge {
+	id: string;
+	type: CaptchaType;
+	/** URL of the page (or frame) showing the captcha */
+	url: string;
+	sitekey?: string;
+	/** reCAPTCHA v3 / Turnstile action */
+	action?: string;
+	invisible?: boolean;
+	enterprise?: boolean;
+	/** Base64 PNG of image captchas */
+	image?: string;
+}
+
+export interface CaptchaSolution {
+	/** Response token of reCAPTCHA, hCaptcha and Turnstile */
+	token?: string;
+	/** Text of image captchas */
+	text?: string;
+	/** Price charged by the provider, in USD */
+	cost?: number;
+	/** Provider task id, useful to report incorrect solutions */
+	taskId?: string;
+}
+
+export interface CaptchaSolveOptions {
+	signal?: AbortSignal;
+}
+
+/**
+ * Provider that turns a captcha challenge into a solution
+ */
+export interface CaptchaSolver {
+	readonly name: string;
+	supports(type: CaptchaType): boolean;
+	solve(challenge: CaptchaChallenge, options?: CaptchaSolveOptions): Promise<CaptchaSolution>;
+}
+
+export interface CaptchaResult {
+	id: string;
+	type: CaptchaType;
+	sitekey?: string;
+	status: 'solved' | 'failed' | 'unsupported';
+	/** Solver that produced the solution, or the last one tried */
+	solver?: string;
+	token?: string;
+	text?: string;
+	cost?: number;
+	/** Whether the solution was written back into the page */
+	injected: boolean;
+	duration: number;
+	error?: string;
+	/** FelintoError code of the last failure */
+	code?: string;
+}
+
+export interface SolveCaptchasResult {
+	captchas: CaptchaResult[];
+	solved: number;
+	failed: number;
+	/** Sum of the reported costs, in USD */
+	cost: number;
+}
+
+/**
+ * Image captcha located by selectors, solved text is typed into the input
+ */
+export interface ImageCaptchaTarget {
+	image: string;
+	input: string;
+}
+
+export interface SolveCaptchasOptions {
+	/** Only solve these types, defaults to all */
+	types?: CaptchaType[];
+	images?: ImageCaptchaTarget[];
+	/** Write tokens into the page and call the widget callbacks (default: true) */
+	inject?: boolean;
+	/** Per-captcha timeout in milliseconds */
+	timeout?: number;
+}
@@ -0,0 +1,99 @@
+import { CaptchaError } from '../utils/custom-errors';
+import { CaptchaChallenge, CaptchaSolution, CaptchaSolveOptions, CaptchaSolver, CaptchaType } from './CaptchaSolver';
+
+export interface ManualCaptchaSolverOptions {
+	/**
+	 * Called for every challenge. Return the solution directly, or nothing and
+	 * answer later through resolve() (e.g. from a UI listing pending()).
+	 */
+	onChallenge?: (challenge: CaptchaChallenge) => CaptchaSolution | string | void | Promise<CaptchaSolution | string | void>;
+	/** Types offered to the human, defaults to all */
+	types?: CaptchaType[];
+	/** Give up after this many milliseconds (default: 5 minutes) */
+	timeout?: number;
+}
+
+interface PendingChallenge {
+	challenge: CaptchaChallenge;
+	resolve: (solution: CaptchaSolution) => void;
+	reject: (error: Error) => void;
+}
+
+const toSolution = (solution: CaptchaSolution | string, type: CaptchaType): CaptchaSolution => {
+	if (typeof solution !== 'string') return solution;
+	return type === 'image' ? { text: solution } : { token: solution };
+};
+
+/**
+ * ManualCaptchaSolver - Waits for a human to solve the captcha, through the
+ * onChallenge callback or resolve() calls
+ */
+export class ManualCaptchaSolver implements CaptchaSolver {
+	readonly name = 'manual';
+	private readonly waiting = new Map<string, PendingChallenge>();
+
+	constructor(private readonly options: ManualCaptchaSolverOptions = {}) {}
+
+	supports(type: CaptchaType): boolean {
+		return !this.options.types || this.options.types.includes(type);
+	}
+
+	async solve(challenge: CaptchaChallenge, options: CaptchaSolveOptions = {}): Promise<CaptchaSolution> {
+		const answer = new Promise<CaptchaSolution>((resolve, reject) => {
+			this.waiting.set(challenge.id, { challenge, resolve, reject });
+		});
+
+		const timeout = this.options.timeout ?? 5 * 60 * 1000;
+		const timer = setTimeout(() => {
+			this.reject(challenge.id, new CaptchaError(`Captcha ${challenge.id} was not solved within ${timeout}ms.`, undefined, {
+				context: { provider: this.name, url: challenge.url, captchaType: challenge.type },
+			}));
+		}, timeout);
+		const onAbort = () => this.reject(challenge.id, new CaptchaError(`Captcha ${challenge.id} was cancelled.`, undefined, { retryable: false }));
+		options.signal?.addEventListener('abort', onAbort, { once: true });
+
+		new Promise<CaptchaSolution | string | void>(resolve => resolve(this.options.onChallenge?.(challenge))).then(
+			immediate => {
+				if (immediate) this.resolve(challenge.id, immediate);
+			},
+			error => this.reject(challenge.id, error instanceof Error ? error : new Error(String(error))),
+		);
+
+		try {
+			return await answer;
+		} finally {
+			clearTimeout(timer);
+			options.signal?.removeEventListener('abort', onAbort);
+		}
+	}
+
+	/**
+	 * Challenges waiting for an answer
+	 */
+	pending(): CaptchaChallenge[] {
+		return [...this.waiting.values()].map(({ challenge }) => challenge);
+	}
+
+	/**
+	 * Answer a pending challenge, a string is the token (or the text of image captchas)
+	 * @returns false when the challenge is not pending anymore
+	 */
+	resolve(id: string, solution: CaptchaSolution | string): boolean {
+		const entry = this.waiting.get(id);
+		if (!entry) return false;
+		this.waiting.delete(id);
+		entry.resolve(toSolution(solution, entry.challenge.type));
+		return true;
+	}
+
+	/**
+	 * Give up on a pending challenge
+	 */
+	reject(id: string, error: Error = new CaptchaError(`Captcha ${id} was rejected.`)): boolean {
+		const entry = this.waiting.get(id);
+		if (!entry) return false;
+		this.waiting.delete(id);
+		entry.reject(error);
+		return true;
+	}
+}
@@ -0,0 +1,147 @@
+import { CaptchaError } from '../utils/custom-errors';
+import { CaptchaChallenge, CaptchaSolution, CaptchaSolveOptions, CaptchaSolver, CaptchaType } from './CaptchaSolver';
+
+export interface TaskApiSolverOptions {
+	apiKey: string;
+	/** Override the provider endpoint, e.g. to point at a mock server in tests */
+	baseUrl?: string;
+	/** Delay between getTaskResult calls in milliseconds */
+	pollingInterval?: number;
+	/** Give up after this many milliseconds */
+	timeout?: number;
+}
+
+/**
+ * Task type names of the provider for each captcha type, missing types are unsupported
+ */
+export type TaskTypeMap = Partial<Record<CaptchaType | 'recaptcha-v2-enterprise', string>>;
+
+interface TaskApiResponse {
+	errorId?: number;
+	errorCode?: string;
+	errorDescription?: string;
+	taskId?: string | number;
+	status?: 'idle' | 'processing' | 'ready';
+	solution?: { gRecaptchaResponse?: string; token?: string; text?: string };
+	cost?: string | number;
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+	if (signal?.aborted) return reject(signal.reason);
+	const timer = setTimeout(() => {
+		signal?.removeEventListener('abort', onAbort);
+		resolve();
+	}, ms);
+	const onAbort = () => {
+		clearTimeout(timer);
+		reject(signal!.reason);
+	};
+	signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * TaskApiSolver - Base for providers exposing the createTask / getTaskResult JSON API
+ * (2Captcha, Anti-Captcha, CapSolver)
+ */
+export abstract class TaskApiSolver implements CaptchaSolver {
+	abstract readonly name: string;
+	protected abstract readonly defaultBaseUrl: string;
+	protected abstract readonly taskTypes: TaskTypeMap;
+
+	constructor(protected readonly options: TaskApiSolverOptions) {}
+
+	supports(type: CaptchaType): boolean {
+		return Boolean(this.taskTypes[type]);
+	}
+
+	async solve(challenge: CaptchaChallenge, options: CaptchaSolveOptions = {}): Promise<CaptchaSolution> {
+		const created = await this.call('createTask', { clientKey: this.options.apiKey, task: this.buildTask(challenge) }, options.signal);
+		if (created.status === 'ready') {
+			return this.toSolution(created, created.taskId);
+		}
+		if (created.taskId === undefined) {
+			throw new CaptchaError(`${this.name} did not return a task id.`, undefined, { context: this.errorContext(challenge) });
+		}
+
+		const deadline = Date.now() + (this.options.timeout ?? 180000);
+		while (Date.now() < deadline) {
+			await delay(this.options.pollingInterval ?? 5000, options.signal);
+			const result = await this.call('getTaskResult', { clientKey: this.options.apiKey, taskId: created.taskId }, options.signal);
+			if (result.status === 'ready') {
+				return this.toSolution(result, created.taskId);
+			}
+		}
+
+		throw new CaptchaError(`${this.name} did not solve task ${created.taskId} within ${this.options.timeout ?? 180000}ms.`, undefined, {
+			context: { ...this.errorContext(challenge), taskId: String(created.taskId) },
+		});
+	}
+
+	/**
+	 * Provider task for the challenge, subclasses add provider specific fields
+	 */
+	protected buildTask(challenge: CaptchaChallenge): Record<string, unknown> {
+		const typeKey = challenge.type === 'recaptcha-v2' && challenge.enterprise ? 'recaptcha-v2-enterprise' : challenge.type;
+		const type = this.taskTypes[typeKey] ?? this.taskTypes[challenge.type];
+		if (!type) {
+			throw new CaptchaError(`${this.name} does not support ${challenge.type} captchas.`, undefined, {
+				context: this.errorContext(challenge),
+				retryable: false,
+			});
+		}
+
+		if (challenge.type === 'image') {
+			return { type, body: challenge.image };
+		}
+
+		const task: Record<string, unknown> = { type, websiteURL: challenge.url, websiteKey: challenge.sitekey };
+		if (challenge.type === 'recaptcha-v2' && challenge.invisible) {
+			task.isInvisible = true;
+		}
+		if (challenge.type === 'recaptcha-v3') {
+			task.pageAction = challenge.action || 'verify';
+			task.minScore = 0.7;
+			if (challenge.enterprise) task.isEnterprise = true;
+		}
+		if (challenge.type === 'turnstile' && challenge.action) {
+			task.action = challenge.action;
+		}
+		return task;
+	}
+
+	private errorContext(challenge: CaptchaChallenge) {
+		return { provider: this.name, url: challenge.url, captchaType: challenge.type };
+	}
+
+	private toSolution(response: TaskApiResponse, taskId?: string | number): CaptchaSolution {
+		const solution = response.solution || {};
+		return {
+			token: solution.gRecaptchaResponse ?? solution.token,
+			text: solution.text,
+			cost: response.cost !== undefined ? Number(response.cost) : undefined,
+			taskId: taskId !== undefined ? String(taskId) : undefined,
+		};
+	}
+
+	private async call(method: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<TaskApiResponse> {
+		const response = await fetch(`${this.options.baseUrl ?? this.defaultBaseUrl}/${method}`, {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify(body),
+			signal,
+		});
+		if (!response.ok) {
+			throw new CaptchaError(`${this.name} ${method} failed with HTTP ${response.status}.`, undefined, {
+				context: { provider: this.name, endpoint: this.options.baseUrl ?? this.defaultBaseUrl },
+			});
+		}
+
+		const data = await response.json() as TaskApiResponse;
+		if (data.errorId) {
+			throw new CaptchaError(`${this.name} ${method} failed: ${data.errorCode || data.errorId} ${data.errorDescription || ''}`.trim(), undefined, {
+				context: { provider: this.name, endpoint: this.options.baseUrl ?? this.defaultBaseUrl, errorCode: data.errorCode },
+			});
+		}
+		return data;
+	}
+}
@@ -0,0 +1,17 @@
+import { TaskApiSolver, TaskTypeMap } from './TaskApiSolver';
+
+/**
+ * 2Captcha solver (https://2captcha.com/api-docs)
+ */
+export class TwoCaptchaSolver extends TaskApiSolver {
+	readonly name = '2captcha';
+	protected readonly defaultBaseUrl = 'https://api.2captcha.com';
+	protected readonly taskTypes: TaskTypeMap = {
+		'recaptcha-v2': 'RecaptchaV2TaskProxyless',
+		'recaptcha-v2-enterprise': 'RecaptchaV2EnterpriseTaskProxyless',
+		'recaptcha-v3': 'RecaptchaV3TaskProxyless',
+		'hcaptcha': 'HCaptchaTaskProxyless',
+		'turnstile': 'TurnstileTaskProxyless',
+		'image': 'ImageToTextTask',
+	};
+}
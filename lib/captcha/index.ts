@@ -0,0 +1,8 @@
+export * from './CaptchaSolver';
+export * from './TaskApiSolver';
+export * from './TwoCaptchaSolver';
+export * from './AntiCaptchaSolver';
+export * from './CapSolverSolver';
+export * from './ManualCaptchaSolver';
+export * from './CaptchaManager';
+export * from './CaptchaPlugin';
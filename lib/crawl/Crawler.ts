@@ -0,0 +1,360 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { ExtendedPage, NewPageParams } from '../types';
+import { FelintoError, SerializedError, TargetClosedError } from '../utils/custom-errors';
+import { Logger, childLogger, silentLogger } from '../utils/logger';
+import { PageConfigurator } from '../utils/page-configurator';
+import { RateLimiter, RateLimiterOptions } from './RateLimiter';
+import { rateLimitPlugin } from './RateLimitPlugin';
+import { RobotsOptions, RobotsTxt } from './RobotsTxt';
+
+export interface InfiniteScroll {
+	scroll: true;
+	/** Stop after this many scrolls (default: 50) */
+	maxScrolls?: number;
+	/** Milliseconds to wait for new content after each scroll (default: 5000) */
+	timeout?: number;
+}
+
+/**
+ * How the crawl goes on from a page: a selector of next links (their href is queued),
+ * a function returning the URLs to queue, or infinite scroll (scrolled before extract)
+ */
+export type NextPage = string | InfiniteScroll | ((page: ExtendedPage) => Promise<string | string[] | null | undefined>);
+
+export interface CrawlOptions<T> {
+	start: string | string[];
+	nextPage?: NextPage;
+	/** Read the page, e.g. `page => page.extract!(schema)` */
+	extract: (page: ExtendedPage, url: string) => T | Promise<T>;
+	/** Pages visited, resumed runs included (default: 100) */
+	maxPages?: number;
+	/** Pages crawled at once, each on its own newPage (default: 1) */
+	concurrency?: number;
+	/** newPage params of every crawling page, navigationOptions and retryOptions apply to each visit */
+	page?: NewPageParams;
+	/** Per-domain limit shared by the crawling pages (default: 1 request per second), or false */
+	rateLimit?: RateLimiter | RateLimiterOptions | false;
+	/** Skip the URLs robots.txt disallows and honor its Crawl-delay */
+	robots?: boolean | RobotsOptions;
+	/** JSON file saved after every page, an unfinished crawl resumes from it */
+	checkpoint?: string;
+	onPage?: (page: CrawlPage<T>) => void | Promise<void>;
+	signal?: AbortSignal;
+	logger?: Logger;
+}
+
+export interface CrawlPage<T> {
+	url: string;
+	data?: T;
+	error?: SerializedError;
+	/** Epoch milliseconds */
+	startedAt: number;
+	duration: number;
+	/** URLs queued from this page, before dedupe */
+	next: string[];
+	/** Scrolls made before extract, for infinite scroll */
+	scrolls?: number;
+}
+
+export interface CrawlResult<T> {
+	/** Pages of this run, in completion order */
+	pages: CrawlPage<T>[];
+	/** URLs skipped because robots.txt disallows them */
+	blocked: string[];
+	/** URLs still queued when maxPages was reached or the crawl was aborted */
+	pending: string[];
+	/** Whether the run continued a checkpoint */
+	resumed: boolean;
+}
+
+interface CrawlCheckpoint {
+	version: 1;
+	/** In-flight URLs first, so a crash revisits them */
+	queue: string[];
+	seen: string[];
+	visited: number;
+}
+
+/**
+ * Absolute URL without its fragment, undefined for non-http URLs
+ */
+const normalizeUrl = (url: string, base?: string): string | undefined => {
+	try {
+		const parsed = new URL(url, base);
+		if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return undefined;
+		parsed.hash = '';
+		return parsed.toString();
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Runs in the page: scroll to the bottom, returning the height scrolled to
+ */
+const scrollHeight = (): number => {
+	const root = document.scrollingElement || document.documentElement;
+	window.scrollTo(0, root.scrollHeight);
+	return root.scrollHeight;
+};
+
+/**
+ * Crawler - Visits a queue of URLs with a few reused pages, following next links or
+ * infinite scroll, with per-domain rate limiting, robots.txt and a resumable checkpoint
+ */
+export class Crawler<T> {
+	private readonly queue: string[] = [];
+	private readonly seen = new Set<string>();
+	private readonly active = new Set<string>();
+	private readonly waiters: Array<() => void> = [];
+	private readonly pages: CrawlPage<T>[] = [];
+	private readonly blocked: string[] = [];
+	private readonly limiter?: RateLimiter;
+	private readonly robots?: RobotsTxt;
+	private readonly logger: Logger;
+	private visited = 0;
+	private resumed = false;
+	private failure?: Error;
+	private saving: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly options: CrawlOptions<T>,
+		private readonly openPage: (params: NewPageParams) => Promise<ExtendedPage>,
+		/** Also drops the browser connection of the page when crawl() opened it */
+		private readonly closePage: (page: ExtendedPage) => Promise<void> = page => page.close(),
+	) {
+		const { rateLimit = {}, robots } = options;
+		this.limiter = rateLimit === false ? undefined : rateLimit instanceof RateLimiter ? rateLimit : new RateLimiter(rateLimit);
+		this.robots = robots ? new RobotsTxt(robots === true ? {} : robots) : undefined;
+		this.logger = childLogger(options.logger ?? options.page?.logger ?? silentLogger, { operation: 'crawl' });
+	}
+
+	private get maxPages(): number {
+		return this.options.maxPages ?? 100;
+	}
+
+	/**
+	 * Crawl until the queue is empty, maxPages is reached or the signal fires
+	 * @throws When a crawling page cannot be opened, the checkpoint keeps the progress
+	 */
+	async run(): Promise<CrawlResult<T>> {
+		await this.restore();
+		const start = Array.isArray(this.options.start) ? this.options.start : [this.options.start];
+		if (!this.resumed) {
+			this.enqueue(start);
+		}
+
+		const workers: Promise<void>[] = [];
+		for (let index = 0; index < Math.max(1, this.options.concurrency ?? 1); index++) {
+			workers.push(this.work());
+		}
+		await Promise.all(workers);
+		await this.saving;
+
+		if (this.failure) {
+			throw this.failure;
+		}
+
+		// A finished crawl has nothing left to resume
+		if (this.options.checkpoint && !this.queue.length) {
+			await fs.rm(this.options.checkpoint, { force: true });
+		}
+		return { pages: this.pages, blocked: this.blocked, pending: [...this.queue], resumed: this.resumed };
+	}
+
+	private enqueue(urls: string[], base?: string): void {
+		for (const url of urls) {
+			const normalized = normalizeUrl(url, base);
+			if (normalized && !this.seen.has(normalized)) {
+				this.seen.add(normalized);
+				this.queue.push(normalized);
+			}
+		}
+	}
+
+	/**
+	 * Next URL to visit, waiting while other pages may still queue links.
+	 * Undefined once the crawl is over.
+	 */
+	private async next(): Promise<string | undefined> {
+		for (;;) {
+			if (this.failure || this.options.signal?.aborted || this.visited + this.active.size >= this.maxPages) {
+				return undefined;
+			}
+			const url = this.queue.shift();
+			if (url) {
+				this.active.add(url);
+				return url;
+			}
+			if (!this.active.size) {
+				return undefined;
+			}
+			await new Promise<void>(resolve => this.waiters.push(resolve));
+		}
+	}
+
+	private settle(url: string): void {
+		this.active.delete(url);
+		this.waiters.splice(0).forEach(wake => wake());
+	}
+
+	private async work(): Promise<void> {
+		let page: ExtendedPage | undefined;
+		try {
+			for (;;) {
+				const url = await this.next();
+				if (!url) break;
+
+				try {
+					if (!page) {
+						page = await this.openCrawlPage().catch(error => {
+							// The URL stays queued, a resumed crawl starts with it
+							this.queue.unshift(url);
+							this.checkpoint(url);
+							throw error;
+						});
+					}
+					if (await this.isBlocked(page, url)) {
+						this.blocked.push(url);
+						continue;
+					}
+					const visit = await this.visit(page, url);
+					// A crashed page is replaced for the next URL
+					if (visit.error?.code === TargetClosedError.code) {
+						await this.closePage(page).catch(() => undefined);
+						page = undefined;
+					}
+				} catch (error) {
+					// A page that cannot be opened, or a throwing onPage, stops every worker
+					this.failure = this.failure ?? (error as Error);
+				} finally {
+					this.settle(url);
+				}
+			}
+		} finally {
+			if (page) {
+				await this.closePage(page).catch(() => undefined);
+			}
+		}
+	}
+
+	private openCrawlPage(): Promise<ExtendedPage> {
+		const params = this.options.page ?? {};
+		return this.openPage({
+			...params,
+			plugins: this.limiter ? [rateLimitPlugin(this.limiter), ...(params.plugins || [])] : params.plugins,
+		});
+	}
+
+	private async isBlocked(page: ExtendedPage, url: string): Promise<boolean> {
+		if (!this.robots) {
+			return false;
+		}
+
+		const policy = await this.robots.policyFor(url, async robotsUrl => {
+			await this.limiter?.acquire(robotsUrl, this.options.signal);
+			const response = await page.http!.get(robotsUrl);
+			return { status: response.status, text: await response.text() };
+		});
+
+		const { hostname } = new URL(url);
+		if (policy.crawlDelay && this.limiter && this.limiter.rateOf(hostname) > 1 / policy.crawlDelay) {
+			this.limiter.limit(hostname, { requestsPerSecond: 1 / policy.crawlDelay, burst: 1 });
+		}
+		return !policy.isAllowed(url);
+	}
+
+	private async visit(page: ExtendedPage, url: string): Promise<CrawlPage<T>> {
+		const result: CrawlPage<T> = { url, startedAt: Date.now(), duration: 0, next: [] };
+		const params = this.options.page ?? {};
+		const { nextPage } = this.options;
+
+		try {
+			await PageConfigurator.navigate(page, url, params.navigationOptions, { logger: this.logger, ...params.retryOptions });
+
+			if (nextPage && typeof nextPage === 'object') {
+				result.scrolls = await this.scroll(page, nextPage);
+			}
+			result.data = await this.options.extract(page, url);
+
+			if (typeof nextPage === 'string') {
+				result.next = await page.$$eval(nextPage, elements =>
+					elements.map(element => element.getAttribute('href')).filter((href): href is string => !!href));
+			} else if (typeof nextPage === 'function') {
+				const next = await nextPage(page);
+				result.next = next ? ([] as string[]).concat(next) : [];
+			}
+			this.enqueue(result.next, page.url());
+		} catch (error) {
+			result.error = error instanceof FelintoError ? error.toJSON() : { name: (error as Error).name, message: (error as Error).message };
+			this.logger.warn({ url, err: error }, `Failed to crawl ${url}: ${(error as Error).message}`);
+		}
+
+		result.duration = Date.now() - result.startedAt;
+		this.visited++;
+		this.pages.push(result);
+		this.checkpoint(url);
+		await this.options.onPage?.(result);
+		return result;
+	}
+
+	private async scroll(page: ExtendedPage, options: InfiniteScroll): Promise<number> {
+		const maxScrolls = options.maxScrolls ?? 50;
+		let scrolls = 0;
+		while (scrolls < maxScrolls) {
+			const height = await page.evaluate(scrollHeight);
+			const grew = await page
+				.waitForFunction(
+					(previous: number) => (document.scrollingElement || document.documentElement).scrollHeight > previous,
+					{ timeout: options.timeout ?? 5000 },
+					height,
+				)
+				.then(() => true, () => false);
+			if (!grew) break;
+			scrolls++;
+		}
+		return scrolls;
+	}
+
+	private async restore(): Promise<void> {
+		if (!this.options.checkpoint) {
+			return;
+		}
+
+		const content = await fs.readFile(this.options.checkpoint, 'utf8').catch(() => undefined);
+		if (!content) {
+			return;
+		}
+		const saved = JSON.parse(content) as CrawlCheckpoint;
+		saved.seen.forEach(url => this.seen.add(url));
+		this.queue.push(...saved.queue);
+		this.visited = saved.visited;
+		this.resumed = true;
+		this.logger.info({ checkpoint: this.options.checkpoint, queued: saved.queue.length, visited: saved.visited }, 'Resuming crawl');
+	}
+
+	/**
+	 * Save the progress, written to a temporary file then renamed so a crash never leaves half a file
+	 */
+	private checkpoint(done: string): void {
+		const path = this.options.checkpoint;
+		if (!path) {
+			return;
+		}
+
+		const state: CrawlCheckpoint = {
+			version: 1,
+			queue: [...Array.from(this.active).filter(url => url !== done), ...this.queue],
+			seen: Array.from(this.seen),
+			visited: this.visited,
+		};
+		this.saving = this.saving.then(async () => {
+			await fs.mkdir(dirname(path), { recursive: true });
+			await fs.writeFile(`${path}.tmp`, JSON.stringify(state));
+			await fs.rename(`${path}.tmp`, path);
+		}).catch(error => {
+			this.logger.warn({ checkpoint: path, err: error }, 'Failed to save the crawl checkpoint');
+		});
+	}
+}
@@ -0,0 +1,11 @@
+import { FelintoPlugin } from '../plugins/FelintoPlugin';
+import { RateLimiter } from './RateLimiter';
+
+/**
+ * Plugin waiting for the limiter before every page.goto, retries included. Pass the
+ * same limiter to every newPage that must share the per-domain budget.
+ */
+export const rateLimitPlugin = (limiter: RateLimiter): FelintoPlugin => ({
+	name: 'rate-limit',
+	beforeNavigate: ({ url }) => limiter.acquire(url),
+});
@@ -0,0 +1,127 @@
+export interface DomainRate {
+	/** Tokens refilled per second (default: 1) */
+	requestsPerSecond?: number;
+	/** Bucket size, the requests allowed at once after an idle period (default: 1) */
+	burst?: number;
+}
+
+export interface RateLimiterOptions extends DomainRate {
+	/** Overrides by host name, e.g. `{ 'api.example.com': { requestsPerSecond: 5 } }` */
+	domains?: Record<string, DomainRate>;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+	rate: number;
+	capacity: number;
+	/** Waiters are served in order */
+	tail: Promise<void>;
+}
+
+const abortReason = (signal: AbortSignal): Error =>
+	signal.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+	if (signal?.aborted) {
+		reject(abortReason(signal));
+		return;
+	}
+
+	const onAbort = () => {
+		clearTimeout(timer);
+		reject(abortReason(signal!));
+	};
+	const timer = setTimeout(() => {
+		signal?.removeEventListener('abort', onAbort);
+		resolve();
+	}, ms);
+	signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * RateLimiter - Token bucket per host name. Share one instance between the pages and
+ * crawls of a process so a domain never sees more than its rate.
+ */
+export class RateLimiter {
+	private readonly buckets = new Map<string, Bucket>();
+	private readonly domains: Record<string, DomainRate>;
+
+	constructor(private readonly options: RateLimiterOptions = {}) {
+		this.domains = { ...options.domains };
+	}
+
+	/**
+	 * Resolve once a request to the URL's host is allowed. URLs without a host (about:, data:) pass.
+	 */
+	acquire(url: string, signal?: AbortSignal): Promise<void> {
+		const host = this.hostOf(url);
+		if (!host) {
+			return Promise.resolve();
+		}
+
+		const bucket = this.bucketOf(host);
+		const turn = bucket.tail.then(() => this.take(bucket, signal));
+		// A rejected waiter (aborted) must not block the next ones
+		bucket.tail = turn.catch(() => undefined);
+		return turn;
+	}
+
+	/**
+	 * Change the rate of a host, e.g. to honor a robots.txt Crawl-delay
+	 */
+	limit(host: string, rate: DomainRate): void {
+		this.domains[host] = { ...this.domains[host], ...rate };
+		const bucket = this.buckets.get(host);
+		if (bucket) {
+			this.refill(bucket);
+			bucket.rate = this.rateOf(host);
+			bucket.capacity = this.capacityOf(host);
+			bucket.tokens = Math.min(bucket.tokens, bucket.capacity);
+		}
+	}
+
+	/**
+	 * Requests per second currently allowed for the host
+	 */
+	rateOf(host: string): number {
+		return this.domains[host]?.requestsPerSecond ?? this.options.requestsPerSecond ?? 1;
+	}
+
+	private capacityOf(host: string): number {
+		return Math.max(1, this.domains[host]?.burst ?? this.options.burst ?? 1);
+	}
+
+	private hostOf(url: string): string | undefined {
+		try {
+			return new URL(url).hostname || undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private bucketOf(host: string): Bucket {
+		let bucket = this.buckets.get(host);
+		if (!bucket) {
+			const capacity = this.capacityOf(host);
+			bucket = { tokens: capacity, updatedAt: Date.now(), rate: this.rateOf(host), capacity, tail: Promise.resolve() };
+			this.buckets.set(host, bucket);
+		}
+		return bucket;
+	}
+
+	private refill(bucket: Bucket): void {
+		const now = Date.now();
+		bucket.tokens = Math.min(bucket.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.rate);
+		bucket.updatedAt = now;
+	}
+
+	private async take(bucket: Bucket, signal?: AbortSignal): Promise<void> {
+		this.refill(bucket);
+		while (bucket.tokens < 1) {
+			await sleep(Math.ceil(((1 - bucket.tokens) / bucket.rate) * 1000), signal);
+			this.refill(bucket);
+		}
+		bucket.tokens -= 1;
+	}
+}
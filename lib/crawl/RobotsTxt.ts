@@ -0,0 +1,136 @@
+export interface RobotsOptions {
+	/** Product token matched against the User-agent lines, the `*` group applies otherwise */
+	userAgent?: string;
+}
+
+/**
+ * Fetches a robots.txt, `status` 0 when the request failed
+ */
+export type RobotsFetcher = (url: string) => Promise<{ status: number; text: string }>;
+
+interface RobotsRule {
+	allow: boolean;
+	/** Pattern length, the longest matching rule wins */
+	length: number;
+	pattern: RegExp;
+}
+
+interface RobotsGroup {
+	agents: string[];
+	rules: RobotsRule[];
+	crawlDelay?: number;
+}
+
+export interface RobotsPolicy {
+	isAllowed(url: string): boolean;
+	/** Seconds between requests asked by the site, if any */
+	crawlDelay?: number;
+}
+
+const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true };
+const DISALLOW_ALL: RobotsPolicy = { isAllowed: () => false };
+
+/**
+ * `*` matches any sequence, a trailing `$` anchors the end, the rest is literal
+ */
+const toPattern = (path: string): RegExp => {
+	const anchored = path.endsWith('$');
+	const body = (anchored ? path.slice(0, -1) : path)
+		.split('*')
+		.map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+const parseGroups = (text: string): RobotsGroup[] => {
+	const groups: RobotsGroup[] = [];
+	let current: RobotsGroup | undefined;
+	let collectingAgents = false;
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		const separator = line.indexOf(':');
+		if (separator < 0) continue;
+		const key = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		if (key === 'user-agent') {
+			// Consecutive User-agent lines share the group that follows them
+			if (!current || !collectingAgents) {
+				current = { agents: [], rules: [] };
+				groups.push(current);
+			}
+			current.agents.push(value.toLowerCase());
+			collectingAgents = true;
+			continue;
+		}
+
+		collectingAgents = false;
+		if (!current) continue;
+		if ((key === 'allow' || key === 'disallow') && value) {
+			current.rules.push({ allow: key === 'allow', length: value.length, pattern: toPattern(value) });
+		} else if (key === 'crawl-delay' && !Number.isNaN(Number(value))) {
+			current.crawlDelay = Number(value);
+		}
+	}
+	return groups;
+};
+
+/**
+ * Build the policy of a robots.txt for the user agent, following RFC 9309
+ */
+export const parseRobotsTxt = (text: string, options: RobotsOptions = {}): RobotsPolicy => {
+	const groups = parseGroups(text);
+	const token = options.userAgent?.toLowerCase();
+	const specific = token ? groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent))) : [];
+	const matching = specific.length ? specific : groups.filter(group => group.agents.includes('*'));
+
+	const rules = matching.reduce<RobotsRule[]>((all, group) => all.concat(group.rules), []);
+	const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+
+	return {
+		crawlDelay: delays.length ? Math.max(...delays) : undefined,
+		isAllowed: (url: string) => {
+			const { pathname, search } = new URL(url);
+			const path = `${pathname}${search}`;
+			let decision: RobotsRule | undefined;
+			for (const rule of rules) {
+				if (!rule.pattern.test(path)) continue;
+				// Longest match wins, allow wins a tie
+				if (!decision || rule.length > decision.length || (rule.length === decision.length && rule.allow)) {
+					decision = rule;
+				}
+			}
+			return !decision || decision.allow;
+		},
+	};
+};
+
+/**
+ * RobotsTxt - Fetches and caches the robots.txt of every origin
+ */
+export class RobotsTxt {
+	private readonly policies = new Map<string, Promise<RobotsPolicy>>();
+
+	constructor(private readonly options: RobotsOptions = {}) {}
+
+	/**
+	 * Policy of the URL's origin. A missing robots.txt (4xx) allows everything, an
+	 * unreachable one (5xx, network error) disallows everything.
+	 */
+	policyFor(url: string, fetcher: RobotsFetcher): Promise<RobotsPolicy> {
+		const { origin } = new URL(url);
+		let policy = this.policies.get(origin);
+		if (!policy) {
+			policy = fetcher(`${origin}/robots.txt`)
+				.then(response => {
+					if (response.status >= 200 && response.status < 300) return parseRobotsTxt(response.text, this.options);
+					if (response.status >= 400 && response.status < 500) return ALLOW_ALL;
+					return DISALLOW_ALL;
+				})
+				.catch(() => DISALLOW_ALL);
+			this.policies.set(origin, policy);
+		}
+		return policy;
+	}
+}
@@ -0,0 +1,4 @@
+export * from './RateLimiter';
+export * from './RateLimitPlugin';
+export * from './RobotsTxt';
+export * from './Crawler';
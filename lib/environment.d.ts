@@ -2,8 +2,11 @@ declare global {
   namespace NodeJS {
 		interface ProcessEnv {
 			CHROME_HEADLESS_WS_URL: string;
+			CHROME_EXECUTABLE_PATH?: string;
       PROXY_USERNAME: string;
       PROXY_PASSWORD: string;
+      SESSION_ENCRYPTION_KEY?: string;
+      SESSION_ENCRYPTION_PREVIOUS_KEYS?: string;
     }
   }
 }
@@ -0,0 +1,61 @@
+/**
+ * Applied in order to the text (or attribute). `number` understands 1.234,56 and 1,234.56,
+ * `date` ISO/RFC dates and dd/mm/yyyy, `regex` keeps the first group (or `group`).
+ */
+export type ExtractTransform = 'trim' | 'number' | 'date' | { regex: string | RegExp; group?: number };
+
+interface FieldOptions {
+	/**
+	 * CSS selector, relative to the enclosing container. `xpath=` (or a leading `/` or `./`)
+	 * for XPath, `text=` for the innermost element containing the text. Omitted: the container.
+	 */
+	selector?: string;
+	/** One value per match instead of the first match. Never null, empty when nothing matches. */
+	list?: boolean;
+	/** Report the field as a missing issue when not found or empty */
+	required?: boolean;
+}
+
+export interface ExtractValueField extends FieldOptions {
+	/** Read this attribute (href, src...) instead of the text */
+	attribute?: string;
+	/** Default: 'trim' for text, none for attributes */
+	transform?: ExtractTransform | readonly ExtractTransform[];
+	/** Used when the element or attribute is missing */
+	default?: unknown;
+}
+
+/**
+ * Fields read inside the matched element: a nested object, or a repeating container with `list`
+ */
+export interface ExtractGroupField extends FieldOptions {
+	fields: ExtractSchema;
+}
+
+/**
+ * A string is a selector read as trimmed text
+ */
+export type ExtractField = string | ExtractValueField | ExtractGroupField;
+
+export interface ExtractSchema {
+	readonly [name: string]: ExtractField;
+}
+
+type LastTransform<T> = T extends readonly [...unknown[], infer L] ? L : T extends readonly (infer E)[] ? E : T;
+
+type TransformOutput<T> = T extends 'number' ? number : T extends 'date' ? Date : string;
+
+type ValueOf<F> = F extends { transform: infer T } ? TransformOutput<LastTransform<T>> : string;
+
+type Presence<F, V> = F extends { required: true } ? V : F extends { default: infer D } ? V | D : V | null;
+
+export type ExtractedField<F> = F extends string
+	? string | null
+	: F extends { fields: infer S extends ExtractSchema }
+		? F extends { list: true } ? Array<Extracted<S>> : Presence<F, Extracted<S>>
+		: F extends { list: true } ? Array<ValueOf<F>> : Presence<F, ValueOf<F>>;
+
+/**
+ * Result of page.extract(schema), typed from the schema
+ */
+export type Extracted<S extends ExtractSchema> = { -readonly [K in keyof S]: ExtractedField<S[K]> };
@@ -0,0 +1,218 @@
+import { Page } from 'puppeteer';
+import { ExtractionError, ExtractionIssue, classifyError } from '../utils/custom-errors';
+import { ExtractField, ExtractGroupField, ExtractSchema, ExtractTransform, ExtractValueField, Extracted } from './ExtractSchema';
+
+/**
+ * Serializable part of the schema, what the page needs to find the raw values
+ */
+interface FieldPlan {
+	selector?: string;
+	attribute?: string;
+	list?: boolean;
+	fields?: Record<string, FieldPlan>;
+}
+
+type RawValue = string | null | RawValue[] | { [name: string]: RawValue };
+
+const normalize = (field: ExtractField): ExtractValueField | ExtractGroupField =>
+	typeof field === 'string' ? { selector: field } : field;
+
+const isGroup = (field: ExtractValueField | ExtractGroupField): field is ExtractGroupField => 'fields' in field;
+
+const toPlan = (schema: ExtractSchema): Record<string, FieldPlan> => {
+	const plan: Record<string, FieldPlan> = {};
+	for (const name of Object.keys(schema)) {
+		const field = normalize(schema[name]!);
+		plan[name] = isGroup(field)
+			? { selector: field.selector, list: field.list, fields: toPlan(field.fields) }
+			: { selector: field.selector, list: field.list, attribute: field.attribute };
+	}
+	return plan;
+};
+
+/**
+ * Runs in the page: the text or attribute of every field, null when not found.
+ * Avoids async/await so it survives the TypeScript downlevel emit.
+ */
+const collect = (plan: Record<string, FieldPlan>): Record<string, RawValue> => {
+	const query = (root: Element | Document, selector: string | undefined, all: boolean): Element[] => {
+		if (!selector) {
+			return [root instanceof Document ? root.documentElement : root];
+		}
+
+		let elements: Element[];
+		if (selector.indexOf('xpath=') === 0 || selector.charAt(0) === '/' || selector.indexOf('./') === 0) {
+			const expression = selector.indexOf('xpath=') === 0 ? selector.slice(6) : selector;
+			const snapshot = document.evaluate(expression, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+			elements = [];
+			for (let index = 0; index < snapshot.snapshotLength; index++) {
+				const node = snapshot.snapshotItem(index);
+				if (node instanceof Element) elements.push(node);
+			}
+		} else if (selector.indexOf('text=') === 0) {
+			const text = selector.slice(5).trim();
+			const matches = Array.from(root.querySelectorAll('*')).filter(element => (element.textContent || '').indexOf(text) >= 0);
+			// Innermost only, or every ancestor of the text would match too
+			elements = matches.filter(element => !matches.some(other => other !== element && element.contains(other)));
+		} else {
+			elements = Array.from(root.querySelectorAll(selector));
+		}
+		return all ? elements : elements.slice(0, 1);
+	};
+
+	const read = (element: Element, field: FieldPlan): string | null => {
+		if (field.attribute) {
+			return element.getAttribute(field.attribute);
+		}
+		// Form fields keep their current value outside of the text
+		if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+			return element.value;
+		}
+		return element.textContent;
+	};
+
+	const walk = (root: Element | Document, fields: Record<string, FieldPlan>): Record<string, RawValue> => {
+		const values: Record<string, RawValue> = {};
+		Object.keys(fields).forEach(name => {
+			const field = fields[name]!;
+			const nested = field.fields;
+			const valueOf = (element: Element): RawValue => (nested ? walk(element, nested) : read(element, field));
+			const elements = query(root, field.selector, !!field.list);
+			values[name] = field.list ? elements.map(valueOf) : elements[0] ? valueOf(elements[0]) : null;
+		});
+		return values;
+	};
+
+	return walk(document, plan);
+};
+
+/**
+ * Parse 1.234,56 / 1,234.56 / R$ 10 / -3.5%: with both separators the last one is the
+ * decimal one, a single repeated separator groups thousands
+ */
+const parseNumber = (text: string): number => {
+	let number = text.replace(/[^\d.,-]/g, '');
+	const lastComma = number.lastIndexOf(',');
+	const lastDot = number.lastIndexOf('.');
+	if (lastComma >= 0 && lastDot >= 0) {
+		number = lastComma > lastDot ? number.replace(/\./g, '').replace(',', '.') : number.replace(/,/g, '');
+	} else if (lastComma >= 0) {
+		number = number.indexOf(',') === lastComma ? number.replace(',', '.') : number.replace(/,/g, '');
+	} else if (lastDot >= 0 && number.indexOf('.') !== lastDot) {
+		number = number.replace(/\./g, '');
+	}
+	return number && /\d/.test(number) ? Number(number) : NaN;
+};
+
+const parseDate = (text: string): Date => {
+	const brazilian = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(text.trim());
+	if (brazilian) {
+		const [, day, month, year, hours = '0', minutes = '0', seconds = '0'] = brazilian;
+		return new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+	}
+	return new Date(text.trim());
+};
+
+/**
+ * @throws {Error} With the reason when the value is rejected
+ */
+const applyTransform = (value: unknown, transform: ExtractTransform): unknown => {
+	const text = value instanceof Date ? value.toISOString() : String(value);
+	if (transform === 'trim') {
+		return text.replace(/\s+/g, ' ').trim();
+	}
+	if (transform === 'number') {
+		const number = parseNumber(text);
+		if (Number.isNaN(number)) throw new Error(`is not a number: "${text}"`);
+		return number;
+	}
+	if (transform === 'date') {
+		const date = parseDate(text);
+		if (Number.isNaN(date.getTime())) throw new Error(`is not a date: "${text}"`);
+		return date;
+	}
+
+	const pattern = typeof transform.regex === 'string' ? new RegExp(transform.regex) : transform.regex;
+	const match = pattern.exec(text);
+	if (!match) throw new Error(`does not match ${pattern}: "${text}"`);
+	const group = transform.group ?? (match.length > 1 ? 1 : 0);
+	return match[group] ?? '';
+};
+
+/**
+ * Turn the raw values into the schema's types, collecting every issue
+ */
+const finish = (schema: ExtractSchema, raw: Record<string, RawValue>, prefix: string, issues: ExtractionIssue[]): Record<string, unknown> => {
+	const result: Record<string, unknown> = {};
+
+	for (const name of Object.keys(schema)) {
+		const field = normalize(schema[name]!);
+		const path = prefix ? `${prefix}.${name}` : name;
+		const value = raw[name] ?? null;
+		const missing = (): unknown => {
+			if (field.required) {
+				issues.push({ path, code: 'missing', message: 'is required but was not found', selector: field.selector });
+			}
+			return !isGroup(field) && field.default !== undefined ? field.default : null;
+		};
+
+		if (isGroup(field)) {
+			const groupOf = (item: RawValue, itemPath: string) =>
+				finish(field.fields, (item || {}) as Record<string, RawValue>, itemPath, issues);
+			if (field.list) {
+				const items = (value || []) as RawValue[];
+				result[name] = items.map((item, index) => groupOf(item, `${path}[${index}]`));
+				if (!items.length) missing();
+			} else {
+				result[name] = value === null ? missing() : groupOf(value, path);
+			}
+			continue;
+		}
+
+		const transforms: readonly ExtractTransform[] = field.transform === undefined
+			? (field.attribute ? [] : ['trim'])
+			: Array.isArray(field.transform) ? field.transform : [field.transform as ExtractTransform];
+		const convert = (text: RawValue, valuePath: string): unknown => {
+			if (typeof text !== 'string' || !text.trim()) {
+				return null;
+			}
+			try {
+				return transforms.reduce<unknown>(applyTransform, text);
+			} catch (error) {
+				issues.push({ path: valuePath, code: 'invalid', message: (error as Error).message, selector: field.selector });
+				return null;
+			}
+		};
+
+		if (field.list) {
+			const items = (value || []) as RawValue[];
+			result[name] = items.map((item, index) => convert(item, `${path}[${index}]`));
+			if (!items.length) missing();
+		} else {
+			const converted = convert(value, path);
+			result[name] = converted === null && !issues.some(issue => issue.path === path) ? missing() : converted;
+		}
+	}
+
+	return result;
+};
+
+/**
+ * Read every field of the schema in one round trip and convert it with its transforms
+ * @throws {ExtractionError} When required fields are missing or transforms reject values, with every issue
+ */
+export const extract = async <const S extends ExtractSchema>(page: Page, schema: S): Promise<Extracted<S>> => {
+	let raw: Record<string, RawValue>;
+	try {
+		raw = await page.evaluate(collect, toPlan(schema));
+	} catch (error) {
+		throw classifyError(error, `Extraction failed: ${(error as Error).message}`, { url: page.url() });
+	}
+
+	const issues: ExtractionIssue[] = [];
+	const result = finish(schema, raw, '', issues);
+	if (issues.length) {
+		throw new ExtractionError(issues, { context: { url: page.url() } });
+	}
+	return result as Extracted<S>;
+};
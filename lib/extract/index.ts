@@ -0,0 +1,2 @@
+export * from './ExtractSchema';
+export * from './Extractor';
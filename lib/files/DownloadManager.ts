@@ -0,0 +1,374 @@
+import { createReadStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, extname, join } from 'path';
+import { Readable } from 'stream';
+import { CDPSession, Page, Protocol } from 'puppeteer';
+import { DownloadError } from '../utils/custom-errors';
+
+export interface DownloadOptions {
+	/**
+	 * Directory receiving the files, on the browser's machine. Defaults to
+	 * `<tmpdir>/felinto-downloads`, `/tmp/felinto-downloads` for remote browsers.
+	 */
+	path?: string;
+	/**
+	 * Read the content over CDP, from the response the page received, instead of from the disk.
+	 * The browser still saves its copy in `path` on its own machine, where it stays.
+	 * Defaults to true when the browser was not launched by this process.
+	 */
+	remote?: boolean;
+	/** Milliseconds to wait for the download to start, then again to finish (default: 60000) */
+	timeout?: number;
+}
+
+export interface Download {
+	url: string;
+	suggestedFilename: string;
+	/** File on this machine, unset for remote browsers */
+	path?: string;
+	size: number;
+	buffer(): Promise<Buffer>;
+	stream(): Readable;
+	saveAs(path: string): Promise<void>;
+}
+
+interface Deferred<T> {
+	promise: Promise<T>;
+	resolve: (value: T) => void;
+}
+
+const defer = <T>(): Deferred<T> => {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>(done => {
+		resolve = done;
+	});
+	return { promise, resolve };
+};
+
+const withTimeout = async <T>(promise: Promise<T>, timeout: number, message: string): Promise<T> => {
+	let timer: NodeJS.Timeout | undefined;
+	try {
+		return await Promise.race([
+			promise,
+			new Promise<never>((_, reject) => {
+				timer = setTimeout(() => reject(new DownloadError(message, undefined, { retryable: true })), timeout);
+			}),
+		]);
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+// Content types the browser displays, any other document response is downloaded
+const RENDERED_TYPES = /^(text\/(html|plain|xml|css|javascript)|application\/(xhtml\+xml|xml|json|javascript)|image\/|audio\/|video\/)/i;
+
+const headerOf = (headers: Protocol.Fetch.HeaderEntry[], name: string): string | undefined =>
+	headers.find(header => header.name.toLowerCase() === name)?.value;
+
+const isDownloadResponse = (status: number, headers: Protocol.Fetch.HeaderEntry[]): boolean => {
+	if (status < 200 || status >= 300) return false;
+	if (/^\s*attachment/i.test(headerOf(headers, 'content-disposition') ?? '')) return true;
+	const contentType = headerOf(headers, 'content-type');
+	return !!contentType && !RENDERED_TYPES.test(contentType);
+};
+
+const readStream = async (client: CDPSession, handle: string): Promise<Buffer> => {
+	const chunks: Buffer[] = [];
+	try {
+		for (;;) {
+			const chunk = await client.send('IO.read', { handle, size: 1024 * 1024 });
+			chunks.push(Buffer.from(chunk.data, chunk.base64Encoded ? 'base64' : 'utf8'));
+			if (chunk.eof) break;
+		}
+	} finally {
+		await client.send('IO.close', { handle }).catch(() => undefined);
+	}
+	return Buffer.concat(chunks);
+};
+
+/**
+ * Runs in the page, for blob: and data: URLs only. Avoids async/await so it survives the TypeScript downlevel emit.
+ */
+const fetchAsBase64 = (url: string): Promise<string> => {
+	return fetch(url, { credentials: 'include' })
+		.then(response => {
+			if (!response.ok) throw new Error(`HTTP ${response.status}`);
+			return response.arrayBuffer();
+		})
+		.then(buffer => {
+			const bytes = new Uint8Array(buffer);
+			let binary = '';
+			for (let index = 0; index < bytes.length; index += 0x8000) {
+				binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(index, index + 0x8000)));
+			}
+			return btoa(binary);
+		});
+};
+
+const collectFrameIds = (tree: Protocol.Page.FrameTree, ids = new Set<string>()): Set<string> => {
+	ids.add(tree.frame.id);
+	for (const child of tree.childFrames || []) {
+		collectFrameIds(child, ids);
+	}
+	return ids;
+};
+
+/**
+ * Path in `directory` for `filename`, suffixed with " (n)" when taken
+ */
+const availablePath = async (directory: string, filename: string): Promise<string> => {
+	const extension = extname(filename);
+	const stem = filename.slice(0, filename.length - extension.length);
+	for (let index = 0; ; index++) {
+		const candidate = join(directory, index === 0 ? filename : `${stem} (${index})${extension}`);
+		const taken = await fs.access(candidate).then(() => true, () => false);
+		if (!taken) return candidate;
+	}
+};
+
+/**
+ * DownloadManager - Routes the page's downloads to a directory and hands them over as
+ * files, buffers or streams, reading them back over CDP when the browser is remote
+ */
+export class DownloadManager {
+	private readonly downloads: Download[] = [];
+	/** Completion of every download of the browser context, by guid */
+	private readonly progress = new Map<string, Deferred<Protocol.Browser.DownloadProgressEvent>>();
+	private readonly waiters: Array<(event: Protocol.Browser.DownloadWillBeginEvent) => void> = [];
+	private browserClient?: CDPSession;
+	private pageClient?: CDPSession;
+	private enabled?: Promise<void>;
+	/** Bodies of the responses held for waitForDownload() calls in progress, by URL */
+	private readonly bodies = new Map<string, Buffer>();
+	private captures = 0;
+
+	constructor(private readonly page: Page, private readonly options: DownloadOptions = {}) {}
+
+	/**
+	 * Whether the content is read through the page instead of the local disk
+	 */
+	get remote(): boolean {
+		return this.options.remote ?? this.page.browser().process() === null;
+	}
+
+	/**
+	 * Directory the browser writes the files to
+	 */
+	get directory(): string {
+		return this.options.path ?? (this.remote ? '/tmp/felinto-downloads' : join(tmpdir(), 'felinto-downloads'));
+	}
+
+	/**
+	 * Configure Browser.setDownloadBehavior for the page's browser context. Called by
+	 * waitForDownload(), pages sharing the context share the directory.
+	 */
+	enable(): Promise<void> {
+		if (!this.enabled) {
+			this.enabled = this.setup();
+			this.enabled.catch(() => {
+				this.enabled = undefined;
+			});
+		}
+		return this.enabled;
+	}
+
+	/**
+	 * Run the action and resolve with the download it triggers, once complete
+	 * @throws {DownloadError} When no download starts or finishes in time, or it is canceled
+	 */
+	async waitForDownload(action?: () => unknown | Promise<unknown>, options: { timeout?: number } = {}): Promise<Download> {
+		await this.enable();
+		const timeout = options.timeout ?? this.options.timeout ?? 60000;
+
+		const begin = defer<Protocol.Browser.DownloadWillBeginEvent>();
+		this.waiters.push(begin.resolve);
+		if (this.remote) {
+			await this.startCapture();
+		}
+		try {
+			await action?.();
+			const started = await withTimeout(begin.promise, timeout, `No download started within ${timeout}ms.`);
+			const finished = await withTimeout(
+				this.progressOf(started.guid).promise,
+				timeout,
+				`Download of ${started.url} did not finish within ${timeout}ms.`,
+			);
+			this.progress.delete(started.guid);
+			if (finished.state === 'canceled') {
+				throw new DownloadError(`Download of ${started.url} was canceled.`, undefined, { context: { url: started.url } });
+			}
+
+			const download = await this.toDownload(started);
+			this.downloads.push(download);
+			return download;
+		} finally {
+			const index = this.waiters.indexOf(begin.resolve);
+			if (index >= 0) this.waiters.splice(index, 1);
+			if (this.remote) {
+				await this.stopCapture();
+			}
+		}
+	}
+
+	/**
+	 * Downloads completed through waitForDownload()
+	 */
+	list(): Download[] {
+		return [...this.downloads];
+	}
+
+	async dispose(): Promise<void> {
+		await Promise.all([this.browserClient?.detach(), this.pageClient?.detach()].map(detach => detach?.catch(() => undefined)));
+		this.browserClient = undefined;
+		this.pageClient = undefined;
+		this.enabled = undefined;
+	}
+
+	private async setup(): Promise<void> {
+		if (!this.remote) {
+			await fs.mkdir(this.directory, { recursive: true });
+		}
+
+		this.pageClient = await this.page.target().createCDPSession();
+		this.pageClient.on('Fetch.requestPaused', event => {
+			this.hold(event).catch(() => undefined);
+		});
+		this.browserClient = await this.page.browser().target().createCDPSession();
+		this.browserClient.on('Browser.downloadWillBegin', event => {
+			this.progressOf(event.guid);
+			this.ownsFrame(event.frameId).then(owned => {
+				const waiter = owned && this.waiters.shift();
+				if (waiter) {
+					waiter(event);
+				} else {
+					// Nobody awaits it, forget it once done
+					this.progressOf(event.guid).promise.then(() => this.progress.delete(event.guid));
+				}
+			});
+		});
+		this.browserClient.on('Browser.downloadProgress', event => {
+			if (event.state !== 'inProgress') {
+				this.progressOf(event.guid).resolve(event);
+			}
+		});
+
+		await this.browserClient.send('Browser.setDownloadBehavior', {
+			behavior: 'allowAndName',
+			browserContextId: this.page.browserContext().id,
+			downloadPath: this.directory,
+			eventsEnabled: true,
+		});
+	}
+
+	/**
+	 * Hold the page's document responses while a download is awaited, so the body of
+	 * the one that turns into a download is read over CDP
+	 */
+	private async startCapture(): Promise<void> {
+		if (this.captures++ === 0) {
+			await this.pageClient!.send('Fetch.enable', { patterns: [{ resourceType: 'Document', requestStage: 'Response' }] });
+		}
+	}
+
+	private async stopCapture(): Promise<void> {
+		if (--this.captures === 0) {
+			this.bodies.clear();
+			await this.pageClient?.send('Fetch.disable').catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Keep the body of a download response and hand it back to the browser unchanged,
+	 * every other response goes on as it is
+	 */
+	private async hold(event: Protocol.Fetch.RequestPausedEvent): Promise<void> {
+		const client = this.pageClient!;
+		const { requestId, responseStatusCode, responseHeaders = [] } = event;
+		if (responseStatusCode === undefined || !isDownloadResponse(responseStatusCode, responseHeaders)) {
+			await client.send('Fetch.continueRequest', { requestId });
+			return;
+		}
+
+		try {
+			const { stream } = await client.send('Fetch.takeResponseBodyAsStream', { requestId });
+			const body = await readStream(client, stream);
+			this.bodies.set(event.request.url, body);
+			// The body read is already decoded
+			await client.send('Fetch.fulfillRequest', {
+				requestId,
+				responseCode: responseStatusCode,
+				responseHeaders: responseHeaders.filter(header => !/^content-(encoding|length)$/i.test(header.name)),
+				body: body.toString('base64'),
+			});
+		} catch {
+			await client.send('Fetch.failRequest', { requestId, errorReason: 'Failed' });
+		}
+	}
+
+	private progressOf(guid: string): Deferred<Protocol.Browser.DownloadProgressEvent> {
+		let deferred = this.progress.get(guid);
+		if (!deferred) {
+			deferred = defer();
+			this.progress.set(guid, deferred);
+		}
+		return deferred;
+	}
+
+	private async ownsFrame(frameId: string): Promise<boolean> {
+		if (!this.pageClient) return false;
+		const { frameTree } = await this.pageClient.send('Page.getFrameTree').catch(() => ({ frameTree: undefined }));
+		return frameTree ? collectFrameIds(frameTree).has(frameId) : false;
+	}
+
+	private async toDownload(started: Protocol.Browser.DownloadWillBeginEvent): Promise<Download> {
+		const { url, suggestedFilename } = started;
+
+		if (this.remote) {
+			// The file stays on the browser's machine, its content is the response held over CDP
+			let content = this.bodies.get(url);
+			this.bodies.delete(url);
+			if (!content && /^(blob|data):/.test(url)) {
+				const base64 = await this.page.evaluate(fetchAsBase64, url).catch(error => {
+					throw new DownloadError(`Failed to read the download of ${url}: ${(error as Error).message}`, error as Error, {
+						context: { url },
+					});
+				});
+				content = Buffer.from(base64, 'base64');
+			}
+			if (!content) {
+				throw new DownloadError(`The content of the download of ${url} was not received by the page.`, undefined, {
+					context: { url },
+				});
+			}
+			const body = content;
+			return {
+				url,
+				suggestedFilename,
+				size: body.length,
+				buffer: async () => body,
+				stream: () => Readable.from(body),
+				saveAs: async path => {
+					await fs.mkdir(dirname(path), { recursive: true });
+					await fs.writeFile(path, body);
+				},
+			};
+		}
+
+		// allowAndName saves the file under its guid
+		const path = await availablePath(this.directory, basename(suggestedFilename) || started.guid);
+		await fs.rename(join(this.directory, started.guid), path);
+		const { size } = await fs.stat(path);
+		return {
+			url,
+			suggestedFilename,
+			path,
+			size,
+			buffer: () => fs.readFile(path),
+			stream: () => createReadStream(path),
+			saveAs: async target => {
+				await fs.mkdir(dirname(target), { recursive: true });
+				await fs.copyFile(path, target);
+			},
+		};
+	}
+}
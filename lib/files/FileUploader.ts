@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+import { basename, extname } from 'path';
+import { Page } from 'puppeteer';
+import { FelintoError } from '../utils/custom-errors';
+
+/**
+ * A path on this machine, a Buffer, or a Buffer with its file name and type
+ */
+export type UploadFile = string | Buffer | { name: string; content: Buffer; mimeType?: string };
+
+interface SerializedFile {
+	name: string;
+	mimeType: string;
+	base64: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+	'.csv': 'text/csv',
+	'.gif': 'image/gif',
+	'.html': 'text/html',
+	'.jpeg': 'image/jpeg',
+	'.jpg': 'image/jpeg',
+	'.json': 'application/json',
+	'.pdf': 'application/pdf',
+	'.png': 'image/png',
+	'.txt': 'text/plain',
+	'.xls': 'application/vnd.ms-excel',
+	'.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	'.xml': 'application/xml',
+	'.zip': 'application/zip',
+};
+
+const mimeTypeOf = (name: string) => MIME_TYPES[extname(name).toLowerCase()] ?? 'application/octet-stream';
+
+/**
+ * Runs in the page. Builds the files from their base64 content and fires input and change
+ * like a user selection would.
+ */
+const setInputFiles = (input: Element, files: SerializedFile[]): boolean => {
+	if (!(input instanceof HTMLInputElement) || input.type !== 'file') return false;
+
+	const transfer = new DataTransfer();
+	files.forEach(file => {
+		const binary = atob(file.base64);
+		const bytes = new Uint8Array(binary.length);
+		for (let index = 0; index < binary.length; index++) {
+			bytes[index] = binary.charCodeAt(index);
+		}
+		transfer.items.add(new File([bytes], file.name, { type: file.mimeType }));
+	});
+	input.files = transfer.files;
+	input.dispatchEvent(new Event('input', { bubbles: true }));
+	input.dispatchEvent(new Event('change', { bubbles: true }));
+	return true;
+};
+
+/**
+ * Select files in a file input. The content travels over CDP, so Buffers and local paths
+ * also work with remote browsers.
+ * @throws {FelintoError} When the selector matches no file input
+ */
+export const uploadFiles = async (page: Page, selector: string, files: UploadFile[]): Promise<void> => {
+	const serialized = await Promise.all(files.map(async (file, index): Promise<SerializedFile> => {
+		if (typeof file === 'string') {
+			const name = basename(file);
+			return { name, mimeType: mimeTypeOf(name), base64: (await fs.readFile(file)).toString('base64') };
+		}
+		if (Buffer.isBuffer(file)) {
+			return { name: `file-${index + 1}`, mimeType: 'application/octet-stream', base64: file.toString('base64') };
+		}
+		return { name: file.name, mimeType: file.mimeType ?? mimeTypeOf(file.name), base64: file.content.toString('base64') };
+	}));
+
+	const input = await page.$(selector);
+	if (!input) {
+		throw new FelintoError(`No element matches ${selector}.`, undefined, { context: { selector, url: page.url() } });
+	}
+	try {
+		if (!(await input.evaluate(setInputFiles, serialized))) {
+			throw new FelintoError(`${selector} is not a file input.`, undefined, { context: { selector, url: page.url() } });
+		}
+	} finally {
+		await input.dispose();
+	}
+};
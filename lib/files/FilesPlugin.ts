@@ -0,0 +1,20 @@
+import { FelintoPlugin } from '../plugins/FelintoPlugin';
+import { DownloadManager, DownloadOptions } from './DownloadManager';
+import { uploadFiles } from './FileUploader';
+
+/**
+ * Built-in plugin adding page.downloads and page.uploadFiles(). With `options` the
+ * download directory is configured before the initial navigation.
+ */
+export const filesPlugin = (options?: DownloadOptions): FelintoPlugin => ({
+	name: 'files',
+	pageCreated: async ({ page, opener }) => {
+		page.downloads = new DownloadManager(page, options);
+		page.uploadFiles = (selector, files) => uploadFiles(page, selector, files);
+		// Tabs share the browser context, already configured by their opener
+		if (options && !opener) {
+			await page.downloads.enable();
+		}
+	},
+	beforeClose: ({ page }) => page.downloads?.dispose(),
+});
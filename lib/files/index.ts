@@ -0,0 +1,3 @@
+export * from './DownloadManager';
+export * from './FileUploader';
+export * from './FilesPlugin';
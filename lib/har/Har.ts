@@ -0,0 +1,101 @@
+import { HarCookie } from '../utils/cookies-converter';
+
+/**
+ * HAR 1.2 types (http://www.softwareishard.com/blog/har-12-spec/), fields starting
+ * with an underscore are custom ones
+ */
+export interface Har {
+	log: HarLog;
+}
+
+export interface HarLog {
+	version: '1.2';
+	creator: HarCreator;
+	browser?: HarCreator;
+	pages: HarPage[];
+	entries: HarEntry[];
+}
+
+export interface HarCreator {
+	name: string;
+	version: string;
+}
+
+export interface HarPage {
+	startedDateTime: string;
+	id: string;
+	title: string;
+	pageTimings: {
+		/** Milliseconds from the page start, -1 when unknown */
+		onContentLoad: number;
+		onLoad: number;
+	};
+}
+
+export interface HarNameValue {
+	name: string;
+	value: string;
+}
+
+export interface HarRequest {
+	method: string;
+	url: string;
+	httpVersion: string;
+	cookies: HarCookie[];
+	headers: HarNameValue[];
+	queryString: HarNameValue[];
+	postData?: {
+		mimeType: string;
+		text: string;
+	};
+	headersSize: number;
+	bodySize: number;
+}
+
+export interface HarContent {
+	size: number;
+	mimeType: string;
+	text?: string;
+	encoding?: 'base64';
+}
+
+export interface HarResponse {
+	status: number;
+	statusText: string;
+	httpVersion: string;
+	cookies: HarCookie[];
+	headers: HarNameValue[];
+	content: HarContent;
+	redirectURL: string;
+	headersSize: number;
+	bodySize: number;
+	/** Chrome net error of requests that never got a response */
+	_error?: string;
+}
+
+/**
+ * Milliseconds spent in each phase, -1 when it does not apply
+ */
+export interface HarTimings {
+	blocked: number;
+	dns: number;
+	connect: number;
+	send: number;
+	wait: number;
+	receive: number;
+	ssl: number;
+}
+
+export interface HarEntry {
+	pageref?: string;
+	startedDateTime: string;
+	time: number;
+	request: HarRequest;
+	response: HarResponse;
+	cache: Record<string, never>;
+	timings: HarTimings;
+	serverIPAddress?: string;
+	connection?: string;
+	/** Puppeteer resource type (document, xhr, image...) */
+	_resourceType: string;
+}
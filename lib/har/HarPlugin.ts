@@ -0,0 +1,51 @@
+import { Page } from 'puppeteer';
+import { FelintoPlugin } from '../plugins/FelintoPlugin';
+import { FelintoError } from '../utils/custom-errors';
+import { HarOptions, HarRecorder } from './HarRecorder';
+
+/**
+ * Built-in plugin adding page.startHar() and page.stopHar(). With `options`, recording
+ * starts before the initial navigation (not in the tabs the page opens); the HAR is
+ * written to options.path when the page closes and after each failed navigation.
+ */
+export const harPlugin = (options?: HarOptions): FelintoPlugin => {
+	const recorders = new WeakMap<Page, HarRecorder>();
+
+	return {
+		name: 'har',
+		pageCreated: async ({ page, opener }) => {
+			page.startHar = async (startOptions = options ?? {}) => {
+				if (recorders.has(page)) {
+					throw new FelintoError('HAR recording already started, call stopHar() first.');
+				}
+				recorders.set(page, await HarRecorder.start(page, startOptions));
+			};
+
+			page.stopHar = async () => {
+				const recorder = recorders.get(page);
+				if (!recorder) {
+					throw new FelintoError('HAR recording was not started, call startHar() first.');
+				}
+				recorders.delete(page);
+				const har = await recorder.stop();
+				await recorder.save();
+				return har;
+			};
+
+			if (options && !opener) {
+				await page.startHar();
+			}
+		},
+		onError: async ({ page, logger }) => {
+			const recorder = page && recorders.get(page);
+			if (recorder?.options.path) {
+				await recorder.save().catch(error => logger.warn({ operation: 'har.save', err: error }, 'Failed to write HAR'));
+			}
+		},
+		beforeClose: async ({ page }) => {
+			if (recorders.has(page)) {
+				await page.stopHar!();
+			}
+		},
+	};
+};
@@ -0,0 +1,392 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { CDPSession, Page, Protocol, ResourceType } from 'puppeteer';
+import { HarCookie, headerSetCookieToPuppeteer, puppeteerToHarCookies } from '../utils/cookies-converter';
+import { globToRegExp } from '../utils/request-interceptor';
+import { Har, HarEntry, HarNameValue, HarPage, HarTimings } from './Har';
+
+export interface HarOptions {
+	/** File written by stopHar(), when the page closes and when a navigation fails */
+	path?: string;
+	/** 'embed' stores the response bodies (binary ones in base64), 'omit' only their size. Default: 'omit' */
+	content?: 'omit' | 'embed';
+	/** Record only URLs matching one of these globs (`*` stops at `/`, `**` matches anything) or regular expressions */
+	urls?: Array<string | RegExp>;
+	/** Record only these resource types */
+	resourceTypes?: ResourceType[];
+	/** Headers whose values are replaced by [REDACTED] (default: authorization, proxy-authorization, cookie, set-cookie) */
+	redactHeaders?: string[];
+	/** Replace cookie values by [REDACTED] (default: true) */
+	redactCookies?: boolean;
+}
+
+interface RecordedRequest {
+	pageref?: string;
+	/** Seconds since epoch */
+	wallTime: number;
+	/** Monotonic seconds, the base of CDP timings */
+	timestamp: number;
+	request: Protocol.Network.Request;
+	resourceType: string;
+	/** Headers actually sent, with cookies */
+	requestHeaders?: Protocol.Network.Headers;
+	response?: Protocol.Network.Response;
+	/** Headers actually received, with set-cookie */
+	responseHeaders?: Protocol.Network.Headers;
+	redirectURL: string;
+	endTimestamp?: number;
+	encodedDataLength?: number;
+	dataLength: number;
+	error?: string;
+	body?: { text: string; base64Encoded: boolean };
+}
+
+interface RecordedPage extends HarPage {
+	timestamp: number;
+}
+
+const REDACTED = '[REDACTED]';
+const DEFAULT_REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+const HTTP_VERSIONS: Record<string, string> = {
+	'http/1.0': 'HTTP/1.0',
+	'http/1.1': 'HTTP/1.1',
+	'h2': 'HTTP/2',
+	'h3': 'HTTP/3',
+};
+
+const headerValue = (headers: Protocol.Network.Headers, name: string): string | undefined => {
+	const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+	return key === undefined ? undefined : String(headers[key]);
+};
+
+// CDP joins repeated headers with a newline
+const toNameValues = (headers: Protocol.Network.Headers): HarNameValue[] => {
+	const list: HarNameValue[] = [];
+	for (const [name, value] of Object.entries(headers)) {
+		for (const line of String(value).split('\n')) {
+			list.push({ name, value: line });
+		}
+	}
+	return list;
+};
+
+const parseCookieHeader = (header: string): HarCookie[] => {
+	return header.split(';')
+		.map(pair => pair.trim())
+		.filter(pair => pair)
+		.map(pair => {
+			const separator = pair.indexOf('=');
+			return separator < 0
+				? { name: pair, value: '' }
+				: { name: pair.slice(0, separator), value: pair.slice(separator + 1) };
+		});
+};
+
+/**
+ * Convert CDP resource timing to HAR phases, `end` being the monotonic time the body finished
+ */
+const toTimings = (timing: Protocol.Network.ResourceTiming | undefined, start: number, end: number | undefined): HarTimings => {
+	const total = end !== undefined ? Math.max((end - start) * 1000, 0) : 0;
+	if (!timing) {
+		return { blocked: -1, dns: -1, connect: -1, send: 0, wait: total, receive: 0, ssl: -1 };
+	}
+
+	const phase = (from: number, to: number) => (from >= 0 && to >= 0 ? to - from : -1);
+	// Time queued before the request started, relative to when it was issued
+	const queued = Math.max((timing.requestTime - start) * 1000, 0);
+	const firstStart = [timing.dnsStart, timing.connectStart, timing.sendStart].find(value => value >= 0) ?? 0;
+	const responseEnd = end !== undefined ? (end - timing.requestTime) * 1000 : timing.receiveHeadersEnd;
+
+	return {
+		blocked: queued + firstStart,
+		dns: phase(timing.dnsStart, timing.dnsEnd),
+		connect: phase(timing.connectStart, timing.connectEnd),
+		send: Math.max(timing.sendEnd - timing.sendStart, 0),
+		wait: Math.max(timing.receiveHeadersEnd - timing.sendEnd, 0),
+		receive: Math.max(responseEnd - timing.receiveHeadersEnd, 0),
+		ssl: phase(timing.sslStart, timing.sslEnd),
+	};
+};
+
+/**
+ * HarRecorder - Records the page's network traffic through CDP and builds a HAR 1.2 log,
+ * redirects included as separate entries
+ */
+export class HarRecorder {
+	private readonly requests: RecordedRequest[] = [];
+	/** Request of each CDP requestId still in flight (the last hop of a redirect chain) */
+	private readonly inFlight = new Map<string, RecordedRequest>();
+	/** ExtraInfo events received before the request they belong to */
+	private readonly earlyRequestHeaders = new Map<string, Protocol.Network.Headers>();
+	private readonly earlyResponseHeaders = new Map<string, Protocol.Network.Headers>();
+	private readonly ignored = new Set<string>();
+	private readonly pages: RecordedPage[] = [];
+	private readonly bodies = new Set<Promise<void>>();
+	private readonly urlPatterns?: RegExp[];
+	private readonly redactedHeaders: Set<string>;
+	private mainFrameId?: string;
+	private stopped = false;
+
+	private constructor(
+		private readonly page: Page,
+		private readonly client: CDPSession,
+		readonly options: HarOptions,
+	) {
+		this.urlPatterns = options.urls?.map(pattern => (typeof pattern === 'string' ? globToRegExp(pattern) : pattern));
+		this.redactedHeaders = new Set((options.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map(name => name.toLowerCase()));
+	}
+
+	/**
+	 * Start recording the page's traffic
+	 */
+	static async start(page: Page, options: HarOptions = {}): Promise<HarRecorder> {
+		const client = await page.target().createCDPSession();
+		const recorder = new HarRecorder(page, client, options);
+		recorder.listen();
+
+		await client.send('Page.enable');
+		await client.send('Network.enable');
+		const { frameTree } = await client.send('Page.getFrameTree');
+		recorder.mainFrameId = frameTree.frame.id;
+		return recorder;
+	}
+
+	/**
+	 * HAR of the traffic recorded so far, recording goes on
+	 */
+	async snapshot(): Promise<Har> {
+		// Bodies requested when their responses finished
+		await Promise.all([...this.bodies]);
+
+		return {
+			log: {
+				version: '1.2',
+				creator: { name: 'felinto-connect-bot', version: '1.0' },
+				browser: { name: 'Chrome', version: await this.page.browser().version().catch(() => '') },
+				pages: this.pages.map(({ timestamp, ...page }) => page),
+				entries: this.requests.map(request => this.toEntry(request)),
+			},
+		};
+	}
+
+	/**
+	 * Stop recording and return the HAR
+	 */
+	async stop(): Promise<Har> {
+		const har = await this.snapshot();
+		if (!this.stopped) {
+			this.stopped = true;
+			await this.client.detach().catch(() => undefined);
+		}
+		return har;
+	}
+
+	/**
+	 * Write the HAR recorded so far to `path` (defaults to options.path)
+	 */
+	async save(path = this.options.path): Promise<Har> {
+		const har = await this.snapshot();
+		if (path) {
+			await fs.mkdir(dirname(path), { recursive: true });
+			await fs.writeFile(path, JSON.stringify(har, null, 2));
+		}
+		return har;
+	}
+
+	private listen(): void {
+		this.client.on('Network.requestWillBeSent', event => this.onRequest(event));
+		this.client.on('Network.requestWillBeSentExtraInfo', ({ requestId, headers }) => {
+			const request = this.inFlight.get(requestId);
+			if (request && !request.requestHeaders) {
+				request.requestHeaders = headers;
+			} else if (!this.ignored.has(requestId)) {
+				this.earlyRequestHeaders.set(requestId, headers);
+			}
+		});
+		this.client.on('Network.responseReceived', ({ requestId, response }) => {
+			const request = this.inFlight.get(requestId);
+			if (request) request.response = response;
+		});
+		this.client.on('Network.responseReceivedExtraInfo', ({ requestId, headers }) => {
+			const request = this.inFlight.get(requestId);
+			if (request && !request.responseHeaders) {
+				request.responseHeaders = headers;
+			} else if (!this.ignored.has(requestId)) {
+				this.earlyResponseHeaders.set(requestId, headers);
+			}
+		});
+		this.client.on('Network.dataReceived', ({ requestId, dataLength }) => {
+			const request = this.inFlight.get(requestId);
+			if (request) request.dataLength += dataLength;
+		});
+		this.client.on('Network.loadingFinished', ({ requestId, timestamp, encodedDataLength }) => {
+			const request = this.finish(requestId, timestamp);
+			if (!request) return;
+			request.encodedDataLength = encodedDataLength;
+			if (this.options.content === 'embed' && request.response) {
+				this.fetchBody(requestId, request);
+			}
+		});
+		this.client.on('Network.loadingFailed', ({ requestId, timestamp, errorText, canceled }) => {
+			const request = this.finish(requestId, timestamp);
+			if (request) request.error = canceled ? 'net::ERR_ABORTED' : errorText;
+		});
+		this.client.on('Page.domContentEventFired', ({ timestamp }) => {
+			const page = this.pages[this.pages.length - 1];
+			if (page) page.pageTimings.onContentLoad = Math.max((timestamp - page.timestamp) * 1000, 0);
+		});
+		this.client.on('Page.loadEventFired', ({ timestamp }) => {
+			const page = this.pages[this.pages.length - 1];
+			if (page) page.pageTimings.onLoad = Math.max((timestamp - page.timestamp) * 1000, 0);
+		});
+	}
+
+	private onRequest(event: Protocol.Network.RequestWillBeSentEvent): void {
+		const { requestId, request, timestamp, wallTime, redirectResponse } = event;
+
+		// A redirect reuses the requestId, the previous hop ends with the redirect response
+		const previous = this.inFlight.get(requestId);
+		if (previous && redirectResponse) {
+			previous.response = redirectResponse;
+			previous.redirectURL = request.url;
+			previous.endTimestamp = timestamp;
+			this.inFlight.delete(requestId);
+		}
+
+		// Main frame documents start a new HAR page
+		if (event.type === 'Document' && event.frameId === this.mainFrameId && requestId === event.loaderId && !redirectResponse) {
+			this.pages.push({
+				id: `page_${this.pages.length + 1}`,
+				title: request.url,
+				startedDateTime: new Date(wallTime * 1000).toISOString(),
+				pageTimings: { onContentLoad: -1, onLoad: -1 },
+				timestamp,
+			});
+		}
+
+		const resourceType = (event.type || 'Other').toLowerCase();
+		if (!this.shouldRecord(request.url, resourceType)) {
+			this.ignored.add(requestId);
+			this.earlyRequestHeaders.delete(requestId);
+			this.earlyResponseHeaders.delete(requestId);
+			return;
+		}
+
+		const recorded: RecordedRequest = {
+			pageref: this.pages[this.pages.length - 1]?.id,
+			wallTime,
+			timestamp,
+			request,
+			resourceType,
+			requestHeaders: this.earlyRequestHeaders.get(requestId),
+			responseHeaders: this.earlyResponseHeaders.get(requestId),
+			redirectURL: '',
+			dataLength: 0,
+		};
+		this.earlyRequestHeaders.delete(requestId);
+		this.earlyResponseHeaders.delete(requestId);
+		this.inFlight.set(requestId, recorded);
+		this.requests.push(recorded);
+	}
+
+	private shouldRecord(url: string, resourceType: string): boolean {
+		if (this.options.resourceTypes && !this.options.resourceTypes.includes(resourceType as ResourceType)) {
+			return false;
+		}
+		return !this.urlPatterns || this.urlPatterns.some(pattern => pattern.test(url));
+	}
+
+	private finish(requestId: string, timestamp: number): RecordedRequest | undefined {
+		this.ignored.delete(requestId);
+		this.earlyRequestHeaders.delete(requestId);
+		this.earlyResponseHeaders.delete(requestId);
+		const request = this.inFlight.get(requestId);
+		if (request) {
+			this.inFlight.delete(requestId);
+			request.endTimestamp = timestamp;
+		}
+		return request;
+	}
+
+	private fetchBody(requestId: string, request: RecordedRequest): void {
+		const pending = this.client.send('Network.getResponseBody', { requestId })
+			.then(({ body, base64Encoded }) => {
+				request.body = { text: body, base64Encoded };
+			})
+			// Bodies of redirects, evicted or streamed responses are not available
+			.catch(() => undefined)
+			.then(() => {
+				this.bodies.delete(pending);
+			});
+		this.bodies.add(pending);
+	}
+
+	private toEntry(recorded: RecordedRequest): HarEntry {
+		const { request, response } = recorded;
+		const requestHeaders = recorded.requestHeaders ?? request.headers;
+		const responseHeaders = recorded.responseHeaders ?? response?.headers ?? {};
+		const httpVersion = HTTP_VERSIONS[response?.protocol ?? ''] ?? (response?.protocol || '').toUpperCase();
+		const url = new URL(request.url);
+		const queryString: HarNameValue[] = [];
+		url.searchParams.forEach((value, name) => queryString.push({ name, value }));
+
+		const cookieHeader = headerValue(requestHeaders, 'cookie');
+		const setCookieHeader = headerValue(responseHeaders, 'set-cookie');
+		const postData = request.postData;
+		const timings = toTimings(response?.timing, recorded.timestamp, recorded.endTimestamp);
+
+		return {
+			pageref: recorded.pageref,
+			startedDateTime: new Date(recorded.wallTime * 1000).toISOString(),
+			time: [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive]
+				.filter(value => value > 0)
+				.reduce((total, value) => total + value, 0),
+			request: {
+				method: request.method,
+				url: request.url,
+				httpVersion,
+				cookies: this.redactCookies(cookieHeader ? parseCookieHeader(cookieHeader) : []),
+				headers: this.redactHeaders(toNameValues(requestHeaders)),
+				queryString,
+				...(postData !== undefined ? {
+					postData: { mimeType: headerValue(requestHeaders, 'content-type') ?? '', text: postData },
+				} : {}),
+				headersSize: -1,
+				bodySize: postData !== undefined ? Buffer.byteLength(postData) : 0,
+			},
+			response: {
+				status: response?.status ?? 0,
+				statusText: response?.statusText ?? '',
+				httpVersion,
+				cookies: this.redactCookies(setCookieHeader ? puppeteerToHarCookies(headerSetCookieToPuppeteer(setCookieHeader, request.url)) : []),
+				headers: this.redactHeaders(toNameValues(responseHeaders)),
+				content: {
+					size: recorded.body
+						? Buffer.byteLength(recorded.body.text, recorded.body.base64Encoded ? 'base64' : 'utf8')
+						: recorded.dataLength,
+					mimeType: response?.mimeType ?? '',
+					...(recorded.body ? { text: recorded.body.text } : {}),
+					...(recorded.body?.base64Encoded ? { encoding: 'base64' as const } : {}),
+				},
+				redirectURL: recorded.redirectURL,
+				headersSize: -1,
+				bodySize: recorded.encodedDataLength ?? -1,
+				...(recorded.error ? { _error: recorded.error } : {}),
+			},
+			cache: {},
+			timings,
+			...(response?.remoteIPAddress ? { serverIPAddress: response.remoteIPAddress } : {}),
+			...(response?.connectionId !== undefined ? { connection: String(response.connectionId) } : {}),
+			_resourceType: recorded.resourceType,
+		};
+	}
+
+	private redactHeaders(headers: HarNameValue[]): HarNameValue[] {
+		return headers.map(header => (this.redactedHeaders.has(header.name.toLowerCase()) ? { ...header, value: REDACTED } : header));
+	}
+
+	private redactCookies(cookies: HarCookie[]): HarCookie[] {
+		return this.options.redactCookies === false ? cookies : cookies.map(cookie => ({ ...cookie, value: REDACTED }));
+	}
+}
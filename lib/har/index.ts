@@ -0,0 +1,3 @@
+export * from './Har';
+export * from './HarRecorder';
+export * from './HarPlugin';
@@ -0,0 +1,307 @@
+import { Agent, IncomingHttpHeaders, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { brotliDecompressSync, gunzipSync, inflateSync } from 'zlib';
+import { Page } from 'puppeteer';
+import { ProxyAgent } from 'proxy-agent';
+import { ProxyConfig } from '../proxy';
+import { headerSetCookieToPuppeteer, puppeteerToCookieHeader } from '../utils/cookies-converter';
+
+export interface HttpClientOptions {
+	/** Defaults to the browser's navigator.userAgent */
+	userAgent?: string;
+	proxy?: ProxyConfig;
+	extraHeaders?: Record<string, string>;
+	locale?: string;
+	/** Request timeout in milliseconds */
+	timeout?: number;
+}
+
+export interface HttpRequestInit {
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string | Buffer | URLSearchParams;
+	/** Serialized as the JSON body, sets content-type */
+	json?: unknown;
+	/** 'manual' returns 3xx responses instead of following them */
+	redirect?: 'follow' | 'manual';
+	maxRedirects?: number;
+	timeout?: number;
+	signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+	url: string;
+	status: number;
+	statusText: string;
+	ok: boolean;
+	redirected: boolean;
+	headers: Record<string, string>;
+	/** Raw Set-Cookie headers, already synced into the page */
+	setCookies: string[];
+	text(): Promise<string>;
+	json<T = any>(): Promise<T>;
+	buffer(): Promise<Buffer>;
+}
+
+interface RawResponse {
+	status: number;
+	statusText: string;
+	headers: IncomingHttpHeaders;
+	body: Buffer;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const toProxyUrl = (proxy: ProxyConfig): string => {
+	const url = new URL(/^[a-z0-9+.-]+:\/\//i.test(proxy.server) ? proxy.server : `http://${proxy.server}`);
+	const username = proxy.username || process.env.PROXY_USERNAME;
+	const password = proxy.password || process.env.PROXY_PASSWORD;
+	if (username && password) {
+		url.username = encodeURIComponent(username);
+		url.password = encodeURIComponent(password);
+	}
+	return url.toString();
+};
+
+const decompress = (body: Buffer, encoding?: string): Buffer => {
+	switch (encoding?.trim().toLowerCase()) {
+		case 'gzip':
+		case 'x-gzip':
+			return gunzipSync(body);
+		case 'deflate':
+			return inflateSync(body);
+		case 'br':
+			return brotliDecompressSync(body);
+		default:
+			return body;
+	}
+};
+
+/**
+ * HttpClient - Fetch-style requests outside the browser sharing the page's cookies,
+ * user agent, extra headers and proxy. Set-Cookie responses are written back to the page.
+ */
+export class HttpClient {
+	private readonly agent?: Agent;
+	private userAgent?: string;
+
+	constructor(private readonly page: Page, private readonly options: HttpClientOptions = {}) {
+		this.userAgent = options.userAgent;
+		if (options.proxy?.server) {
+			const proxyUrl = toProxyUrl(options.proxy);
+			this.agent = new ProxyAgent({ getProxyForUrl: () => proxyUrl });
+		}
+	}
+
+	/**
+	 * Issue a request, following redirects and syncing cookies at every hop.
+	 * Relative URLs resolve against the page URL. Once a redirect leaves the origin of
+	 * the first request, extraHeaders and init.headers (Authorization, API keys) are no longer sent.
+	 */
+	async fetch(url: string, init: HttpRequestInit = {}): Promise<HttpResponse> {
+		let currentUrl = new URL(url, this.page.url().startsWith('http') ? this.page.url() : undefined).toString();
+		let method = (init.method || (init.body !== undefined || init.json !== undefined ? 'POST' : 'GET')).toUpperCase();
+		let body = this.serializeBody(init);
+		const maxRedirects = init.maxRedirects ?? 10;
+		const setCookies: string[] = [];
+		const origin = new URL(currentUrl).origin;
+		let sameOrigin = true;
+
+		for (let redirects = 0; ; redirects++) {
+			sameOrigin = sameOrigin && new URL(currentUrl).origin === origin;
+			const response = await this.send(currentUrl, method, body, init, sameOrigin);
+			const responseCookies = this.getSetCookies(response.headers);
+			setCookies.push(...responseCookies);
+			await this.syncCookies(responseCookies, currentUrl);
+
+			const location = response.headers.location;
+			if (init.redirect === 'manual' || !REDIRECT_STATUSES.has(response.status) || !location) {
+				return this.toResponse(currentUrl, response, setCookies, redirects > 0);
+			}
+			if (redirects >= maxRedirects) {
+				throw new Error(`Too many redirects while fetching ${url}`);
+			}
+
+			currentUrl = new URL(location, currentUrl).toString();
+			// 307/308 replay the request, the others switch to a body-less GET
+			if (response.status !== 307 && response.status !== 308) {
+				method = method === 'HEAD' ? 'HEAD' : 'GET';
+				body = undefined;
+			}
+		}
+	}
+
+	get(url: string, init: Omit<HttpRequestInit, 'method' | 'body' | 'json'> = {}): Promise<HttpResponse> {
+		return this.fetch(url, { ...init, method: 'GET' });
+	}
+
+	post(url: string, json?: unknown, init: Omit<HttpRequestInit, 'method' | 'json'> = {}): Promise<HttpResponse> {
+		return this.fetch(url, { ...init, method: 'POST', json });
+	}
+
+	private serializeBody(init: HttpRequestInit): { data: Buffer; contentType?: string } | undefined {
+		if (init.json !== undefined) {
+			return { data: Buffer.from(JSON.stringify(init.json)), contentType: 'application/json' };
+		}
+		if (init.body instanceof URLSearchParams) {
+			return { data: Buffer.from(init.body.toString()), contentType: 'application/x-www-form-urlencoded;charset=UTF-8' };
+		}
+		if (init.body !== undefined) {
+			return { data: Buffer.isBuffer(init.body) ? init.body : Buffer.from(init.body) };
+		}
+		return undefined;
+	}
+
+	private async buildHeaders(
+		url: string,
+		body: { data: Buffer; contentType?: string } | undefined,
+		init: HttpRequestInit,
+		customHeaders: boolean,
+	): Promise<Record<string, string>> {
+		if (!this.userAgent) {
+			this.userAgent = await this.page.evaluate(() => navigator.userAgent);
+		}
+
+		const headers: Record<string, string> = {
+			'user-agent': this.userAgent,
+			'accept': '*/*',
+			'accept-encoding': 'gzip, deflate, br',
+		};
+		if (this.options.locale) {
+			headers['accept-language'] = this.options.locale;
+		}
+		if (body?.contentType) {
+			headers['content-type'] = body.contentType;
+		}
+
+		// Cookies the browser would send to this URL
+		const cookies = await this.page.cookies(url);
+		if (cookies.length > 0) {
+			headers['cookie'] = puppeteerToCookieHeader(cookies);
+		}
+
+		if (customHeaders) {
+			for (const [name, value] of Object.entries({ ...this.options.extraHeaders, ...init.headers })) {
+				headers[name.toLowerCase()] = value;
+			}
+		}
+		if (body) {
+			headers['content-length'] = String(body.data.length);
+		}
+		return headers;
+	}
+
+	private async send(
+		url: string,
+		method: string,
+		body: { data: Buffer; contentType?: string } | undefined,
+		init: HttpRequestInit,
+		customHeaders: boolean,
+	): Promise<RawResponse> {
+		const headers = await this.buildHeaders(url, body, init, customHeaders);
+		const sendRequest = url.startsWith('https:') ? httpsRequest : httpRequest;
+		const timeout = init.timeout ?? this.options.timeout ?? 30000;
+		const { signal } = init;
+
+		return new Promise<RawResponse>((settleResolve, settleReject) => {
+			const onAbort = () => request.destroy(signal!.reason);
+			// A long-lived signal must not keep a listener per request
+			const resolve = (response: RawResponse) => {
+				signal?.removeEventListener('abort', onAbort);
+				settleResolve(response);
+			};
+			const reject = (error: Error) => {
+				signal?.removeEventListener('abort', onAbort);
+				settleReject(error);
+			};
+
+			const request = sendRequest(url, { method, headers, agent: this.agent }, response => {
+				const chunks: Buffer[] = [];
+				response.on('data', (chunk: Buffer) => chunks.push(chunk));
+				response.on('error', reject);
+				response.on('end', () => {
+					try {
+						resolve({
+							status: response.statusCode || 0,
+							statusText: response.statusMessage || '',
+							headers: response.headers,
+							body: decompress(Buffer.concat(chunks), response.headers['content-encoding']),
+						});
+					} catch (error) {
+						reject(error as Error);
+					}
+				});
+			});
+
+			request.setTimeout(timeout, () => {
+				request.destroy(new Error(`Request to ${url} timed out after ${timeout}ms`));
+			});
+
+			if (signal) {
+				if (signal.aborted) {
+					request.destroy(signal.reason);
+				}
+				signal.addEventListener('abort', onAbort, { once: true });
+			}
+
+			request.on('error', reject);
+			request.end(body?.data);
+		});
+	}
+
+	private getSetCookies(headers: IncomingHttpHeaders): string[] {
+		const setCookie = headers['set-cookie'];
+		return Array.isArray(setCookie) ? setCookie : setCookie ? [setCookie] : [];
+	}
+
+	/**
+	 * Write Set-Cookie headers back to the page, deleting the ones that expired and
+	 * dropping the ones the response URL may not set
+	 */
+	private async syncCookies(setCookies: string[], url: string): Promise<void> {
+		if (setCookies.length === 0) return;
+
+		const cookies = headerSetCookieToPuppeteer(setCookies, url);
+		const now = Date.now() / 1000;
+		const expired = cookies.filter(cookie => cookie.expires !== undefined && cookie.expires >= 0 && cookie.expires <= now);
+		const active = cookies.filter(cookie => !expired.includes(cookie));
+
+		if (expired.length > 0) {
+			await this.page.deleteCookie(...expired.map(({ name, domain, path, url: cookieUrl }) => ({
+				name, domain, path, url: cookieUrl,
+			})));
+		}
+		if (active.length > 0) {
+			await this.page.setCookie(...active);
+		}
+	}
+
+	private toResponse(url: string, response: RawResponse, setCookies: string[], redirected: boolean): HttpResponse {
+		const headers: Record<string, string> = {};
+		for (const [name, value] of Object.entries(response.headers)) {
+			if (value !== undefined && name !== 'set-cookie') {
+				headers[name] = Array.isArray(value) ? value.join(', ') : value;
+			}
+		}
+
+		return {
+			url,
+			status: response.status,
+			statusText: response.statusText,
+			ok: response.status >= 200 && response.status < 300,
+			redirected,
+			headers,
+			setCookies,
+			buffer: async () => response.body,
+			text: async () => response.body.toString('utf8'),
+			json: async () => JSON.parse(response.body.toString('utf8')),
+		};
+	}
+}
+
+/**
+ * Create an HTTP client bound to the page's cookie jar
+ */
+export const createHttpClient = (page: Page, options: HttpClientOptions = {}): HttpClient => {
+	return new HttpClient(page, options);
+};
@@ -0,0 +1 @@
+export { HttpClient, HttpClientOptions, HttpRequestInit, HttpResponse, createHttpClient } from './HttpClient';
@@ -1,20 +1,30 @@
-import { Protocol, CookieParam } from 'puppeteer';
-import { headerSetCookieToPuppeteer, newPage, puppeteerToHeaderSetCookie, screenshots } from './index';
+import { Protocol, CookieParam, HTTPRequest } from 'puppeteer';
+import { headerSetCookieToPuppeteer, newPage, puppeteerToHeaderSetCookie, puppeteerToSetCookieHeaders, retryOperation, RetryExhaustedError, AuthenticationError, RequestInterceptor, puppeteerToNetscape, netscapeToPuppeteer, puppeteerToHarCookies, harCookiesToPuppeteer, puppeteerToExtensionCookies, extensionCookiesToPuppeteer, puppeteerToCookieJar, cookieJarToPuppeteer, importCookies, resolveFingerprint, TwoCaptchaSolver, CapSolverSolver, ManualCaptchaSolver, CaptchaManager, CaptchaSolver, FelintoError, NavigationError, NavigationTimeoutError, ProxyError, TargetClosedError, classifyError, childLogger, Logger, PluginManager, PluginError, FelintoPlugin, ExtendedPage, HarRecorder, DownloadManager, DownloadError, TabManager, PageConfigurator, runWorkflow, extract, ExtractionError, Crawler, RateLimiter, parseRobotsTxt, NewPageParams, BrowserFactory, BrowserConnectionError, BrowserPool, SessionManager, MemorySessionStore, RedisSessionStore, KeyValueClient, SessionCipher, SessionDecryptionError, FileSystemSessionStore, migrateSessionData, SessionDataApplier, SessionRestoreError, sessionPlugin, SessionEnabledPage, ProfileManager, MemoryProfileStore, FileSystemProfileStore, ProfileError, ProxyPool, ProxyConfig, createHttpClient, PageCreationError, captchaPlugin, crawl } from './index';
+import { createServer } from 'http';
+import puppeteerExtra from 'puppeteer-extra';
+import { EventEmitter, getEventListeners } from 'events';
+import { mkdtemp, readFile, rm, stat, chmod, mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
 import { jest, expect, test } from '@jest/globals';
 
 jest.setTimeout(30 * 1000);
 
+// Tests driving a real page need a browser to connect to
+const browserTest = process.env.CHROME_HEADLESS_WS_URL ? test : test.skip;
+
 test('check', () => {
 	console.log(`You're acessing the browserless instance from this address: ${process.env.CHROME_HEADLESS_WS_URL}`)
 	expect(typeof newPage).toBe('function');
 })
 
-test('add support to take screenshot and save in array', async () => {
+browserTest('add support to take screenshot', async () => {
 	const page = await newPage();
 	await page.goto("https://www.google.com/recaptcha/api2/demo");
-	await page.takeScreenshot();
+	const screenshot = await page.screenshot();
 	await page.close();
-	expect(screenshots.length).toBe(1);
+	expect(screenshot.length).toBeGreaterThan(0);
 })
 
 test('puppeteer cookies to header set cookie', async () => {
@@ -327,12 +337,76 @@ test('header set cookie to puppeteer cookies', async () => {
 	expect(puppeteerCookies).toBeDefined();
 })
 
-test('block image resources using blockedResourcesTypes', async () => {
+test('set cookie headers keep their attributes', () => {
+	const cookies = headerSetCookieToPuppeteer([
+		'sid=abc; Domain=example.com; Path=/app; Expires=Wed, 21 Oct 2037 07:28:00 GMT; Secure; HttpOnly; SameSite=Lax',
+		'theme=dark; Max-Age=3600',
+	], 'https://www.example.com/');
+
+	expect(cookies).toHaveLength(2);
+	expect(cookies[0]).toEqual({
+		name: 'sid',
+		value: 'abc',
+		domain: '.example.com',
+		path: '/app',
+		expires: Date.UTC(2037, 9, 21, 7, 28) / 1000,
+		secure: true,
+		httpOnly: true,
+		sameSite: 'Lax',
+	});
+	expect(cookies[1]).toMatchObject({ name: 'theme', url: 'https://www.example.com/' });
+	expect(cookies[1]!.expires).toBeGreaterThan(Date.now() / 1000);
+
+	expect(headerSetCookieToPuppeteer(puppeteerToSetCookieHeaders([cookies[0]!]))).toEqual([cookies[0]]);
+	expect(headerSetCookieToPuppeteer(puppeteerToSetCookieHeaders(cookies).join('\n'), 'https://www.example.com/').map(cookie => cookie.name)).toEqual(['sid', 'theme']);
+
+	// The legacy converter keeps its Cookie header output
+	expect(puppeteerToHeaderSetCookie(cookies)).toBe('sid=abc; theme=dark');
+
+	// Pairs named like attributes are cookies unless their value fits the attribute
+	const cookieHeader = headerSetCookieToPuppeteer('sid=1; path=abc; expires=soon; secure=yes', 'https://example.com/');
+	expect(cookieHeader.map(cookie => `${cookie.name}=${cookie.value}`)).toEqual(['sid=1', 'path=abc', 'expires=soon', 'secure=yes']);
+	expect(headerSetCookieToPuppeteer('path=1; Path=/app; Secure')).toEqual([expect.objectContaining({ name: 'path', value: '1', path: '/app', secure: true })]);
+
+	// A response only sets cookies for its own site, and Secure ones over https
+	const fromA = headerSetCookieToPuppeteer([
+		'own=1; Domain=a.test',
+		'parent=1; Domain=test',
+		'other=1; Domain=b.test',
+		'suffix=1; Domain=com',
+		'hostOnly=1',
+		'secure=1; Secure',
+	], 'http://www.a.test/login');
+	expect(fromA.map(cookie => cookie.name)).toEqual(['own', 'hostOnly']);
+	expect(headerSetCookieToPuppeteer('secure=1; Secure; Domain=a.test', 'https://a.test/')).toEqual([expect.objectContaining({ name: 'secure', domain: '.a.test' })]);
+})
+
+test('cookie converters round-trip every supported format', () => {
+	const cookies: CookieParam[] = [
+		{ name: 'sid', value: 'a=b', domain: '.example.com', path: '/', expires: 2139811680, secure: true, httpOnly: true, sameSite: 'Lax' },
+		{ name: 'host', value: '1', domain: 'www.example.com', path: '/app', expires: -1, secure: false, httpOnly: false },
+	];
+	const withoutSameSite = cookies.map(({ sameSite, ...cookie }) => cookie);
+
+	expect(netscapeToPuppeteer(puppeteerToNetscape(cookies))).toEqual(withoutSameSite);
+	expect(harCookiesToPuppeteer(puppeteerToHarCookies(cookies))).toEqual(cookies.map(({ expires, ...cookie }) =>
+		expires! > 0 ? { ...cookie, expires } : cookie));
+	expect(extensionCookiesToPuppeteer(puppeteerToExtensionCookies(cookies))).toEqual(cookies.map(({ expires, ...cookie }) =>
+		expires! > 0 ? { ...cookie, expires } : cookie));
+	expect(cookieJarToPuppeteer(puppeteerToCookieJar(cookies))).toEqual(cookies);
+	expect(cookieJarToPuppeteer(JSON.stringify(puppeteerToCookieJar(cookies).toJSON()))).toEqual(cookies);
+
+	expect(importCookies(puppeteerToNetscape(cookies))).toEqual(withoutSameSite);
+	expect(importCookies(JSON.stringify(puppeteerToExtensionCookies(cookies)))).toHaveLength(2);
+	expect(importCookies(puppeteerToCookieJar(cookies).toJSON())).toEqual(cookies);
+})
+
+browserTest('block image resources using interception rules', async () => {
 	let blockedRequests = 0;
 	let allowedRequests = 0;
 	
 	const page = await newPage({
-		blockedResourcesTypes: ['image']
+		interception: [{ action: 'abort', resourceTypes: ['image'] }]
 	});
 
 	// Monitor requests to verify blocking is working
@@ -355,12 +429,12 @@ test('block image resources using blockedResourcesTypes', async () => {
 	expect(typeof allowedRequests).toBe('number');
 })
 
-test('block resources with duplicates removed automatically', async () => {
+browserTest('block resources with duplicates removed automatically', async () => {
 	let blockedRequests = 0;
 	let allowedRequests = 0;
 	
 	const page = await newPage({
-		blockedResourcesTypes: ['image', 'stylesheet', 'image', 'script', 'stylesheet'] // Duplicatas serão removidas
+		interception: [{ action: 'abort', resourceTypes: ['image', 'stylesheet', 'image', 'script', 'stylesheet'] }] // Duplicatas não atrapalham
 	});
 
 	// Monitor requests to verify blocking is working
@@ -381,4 +455,1675 @@ test('block resources with duplicates removed automatically', async () => {
 	// This test validates that duplicates are handled correctly
 	expect(typeof blockedRequests).toBe('number');
 	expect(typeof allowedRequests).toBe('number');
-})
\ No newline at end of file
+})
+
+test('retry policy throws RetryExhaustedError with every attempt error', async () => {
+	let attempts = 0;
+	const retries: number[] = [];
+
+	await expect(retryOperation(async () => {
+		attempts++;
+		throw new Error(`attempt ${attempts}`);
+	}, {
+		maxRetries: 3,
+		baseDelay: 1,
+		jitter: true,
+		onRetry: (_error, attempt) => retries.push(attempt),
+	}, 'Flaky operation')).rejects.toMatchObject({
+		name: 'RetryExhaustedError',
+		errors: [
+			expect.objectContaining({ message: 'attempt 1' }),
+			expect.objectContaining({ message: 'attempt 2' }),
+			expect.objectContaining({ message: 'attempt 3' }),
+		],
+	});
+	expect(attempts).toBe(3);
+	expect(retries).toEqual([1, 2]);
+})
+
+test('retry policy never retries AuthenticationError by default', async () => {
+	let attempts = 0;
+
+	await expect(retryOperation(async () => {
+		attempts++;
+		throw new AuthenticationError('invalid proxy credentials');
+	}, { baseDelay: 1 })).rejects.toBeInstanceOf(AuthenticationError);
+	expect(attempts).toBe(1);
+})
+
+test('retry policy stops when the abort signal fires', async () => {
+	const controller = new AbortController();
+	const reason = new Error('shutting down');
+	let attempts = 0;
+	const result = retryOperation(async () => {
+		attempts++;
+		throw new Error('always fails');
+	}, { maxRetries: 5, baseDelay: 10000, signal: controller.signal });
+
+	await new Promise(resolve => setTimeout(resolve, 5));
+	controller.abort(reason);
+	await expect(result).rejects.toBe(reason);
+	expect(attempts).toBe(1);
+})
+
+test('retry policy with maxRetries 0 still runs the operation once', async () => {
+	let attempts = 0;
+	await expect(retryOperation(async () => ++attempts, { maxRetries: 0 })).resolves.toBe(1);
+
+	await expect(retryOperation(async () => {
+		attempts++;
+		throw new Error('fails');
+	}, { maxRetries: 0, baseDelay: 1 })).rejects.toMatchObject({ name: 'RetryExhaustedError', errors: [expect.objectContaining({ message: 'fails' })] });
+	expect(attempts).toBe(2);
+})
+
+test('retryOperation still accepts the positional maxRetries and baseDelay', async () => {
+	let attempts = 0;
+	await expect(retryOperation(async () => {
+		attempts++;
+		throw new Error('fails');
+	}, 2, 1, 'Legacy')).rejects.toMatchObject({ name: 'RetryExhaustedError', errors: [expect.anything(), expect.anything()] });
+	expect(attempts).toBe(2);
+
+	await expect(retryOperation(async attempt => attempt, 3)).resolves.toBe(1);
+})
+
+
+test('interception rules match by resource type, url glob, regex and domain', () => {
+	const request = (url: string, resourceType = 'script', method = 'GET') => ({
+		url: () => url,
+		resourceType: () => resourceType,
+		method: () => method,
+	}) as unknown as HTTPRequest;
+
+	const byType = RequestInterceptor.compileMatcher({ resourceTypes: ['image', 'font'] });
+	expect(byType(request('https://example.com/logo.png', 'image'))).toBe(true);
+	expect(byType(request('https://example.com/app.js'))).toBe(false);
+
+	const byGlob = RequestInterceptor.compileMatcher({ url: 'https://api.example.com/*/users' });
+	expect(byGlob(request('https://api.example.com/v1/users'))).toBe(true);
+	expect(byGlob(request('https://api.example.com/v1/admin/users'))).toBe(false);
+	expect(RequestInterceptor.compileMatcher({ url: 'https://api.example.com/**' })(request('https://api.example.com/v1/admin/users'))).toBe(true);
+
+	const byRegex = RequestInterceptor.compileMatcher({ url: /\.woff2?$/, method: 'get' });
+	expect(byRegex(request('https://cdn.example.com/font.woff2'))).toBe(true);
+	expect(byRegex(request('https://cdn.example.com/font.woff2', 'font', 'POST'))).toBe(false);
+
+	const byDomain = RequestInterceptor.compileMatcher({ domain: ['google-analytics.com', 'doubleclick.net'] });
+	expect(byDomain(request('https://www.google-analytics.com/collect'))).toBe(true);
+	expect(byDomain(request('https://doubleclick.net/ad'))).toBe(true);
+	expect(byDomain(request('https://notdoubleclick.net/ad'))).toBe(false);
+})
+
+test('redirect rules answer every matching request with a redirect', async () => {
+	const page = Object.assign(new EventEmitter(), { setRequestInterception: jest.fn(async () => undefined) });
+	await RequestInterceptor.apply(page as never, [{ action: 'redirect', url: /^https:\/\/cdn\.old\.com\/(.*)$/, to: 'https://cdn.new.com/$1' }]);
+
+	const send = async (url: string, method: string, isNavigation: boolean) => {
+		const actions: Array<() => Promise<void>> = [];
+		const request = {
+			url: () => url,
+			method: () => method,
+			resourceType: () => (isNavigation ? 'document' : 'fetch'),
+			isNavigationRequest: () => isNavigation,
+			isInterceptResolutionHandled: () => false,
+			enqueueInterceptAction: (action: () => Promise<void>) => actions.push(action),
+			respond: jest.fn(async () => undefined),
+			continue: jest.fn(async () => undefined),
+			continueRequestOverrides: () => ({}),
+		};
+		page.emit('request', request);
+		await Promise.all(actions.map(action => action()));
+		return request;
+	};
+
+	const navigation = await send('https://cdn.old.com/index.html', 'GET', true);
+	expect(navigation.respond).toHaveBeenCalledWith({ status: 302, headers: { location: 'https://cdn.new.com/index.html' } }, 0);
+	const xhr = await send('https://cdn.old.com/app.js', 'GET', false);
+	expect(xhr.respond).toHaveBeenCalledWith({ status: 302, headers: { location: 'https://cdn.new.com/app.js' } }, 0);
+	expect(xhr.continue).not.toHaveBeenCalled();
+	const post = await send('https://cdn.old.com/upload', 'POST', false);
+	expect(post.respond).toHaveBeenCalledWith({ status: 307, headers: { location: 'https://cdn.new.com/upload' } }, 0);
+
+	const other = await send('https://example.com/', 'GET', true);
+	expect(other.respond).not.toHaveBeenCalled();
+	expect(other.continue).toHaveBeenCalledWith({}, 0);
+})
+
+test('stealth fingerprint stays consistent with the user agent and locale', () => {
+	const android = resolveFingerprint(true, 'HeadlessChrome/127.0.6533.88', {
+		userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/127.0.0.0 Mobile Safari/537.36',
+		locale: 'pt-BR',
+	});
+	expect(android).toMatchObject({ platform: 'Linux armv81', clientHintsPlatform: 'Android', mobile: true, languages: ['pt-BR', 'pt'] });
+	expect(android.viewport.isMobile).toBe(true);
+
+	const windows = resolveFingerprint('windows-chrome', 'HeadlessChrome/127.0.6533.88');
+	expect(windows.userAgent).toContain('Windows NT 10.0');
+	expect(windows.userAgent).toContain('Chrome/127.0.0.0');
+
+	const mac = resolveFingerprint({ preset: 'macos-chrome', timezone: 'America/Sao_Paulo', hardwareConcurrency: 10 }, 'Chrome/126.0.6478.0');
+	expect(mac).toMatchObject({ platform: 'MacIntel', timezone: 'America/Sao_Paulo', hardwareConcurrency: 10 });
+	expect(mac.userAgent).toContain('Chrome/126.0.0.0');
+
+	// iOS user agents mention Mac OS X and ChromeOS ones are Linux based, neither may look like another OS
+	const detect = (userAgent: string) => resolveFingerprint(true, 'HeadlessChrome/127.0.6533.88', { userAgent });
+	const iphone = detect('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/127.0.6533.77 Mobile/15E148 Safari/604.1');
+	expect(iphone).toMatchObject({ platform: 'iPhone', clientHints: false, mobile: true });
+	expect(detect('Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1').clientHintsPlatform).toBe('iOS');
+	expect(detect('Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/127.0.0.0 Safari/537.36'))
+		.toMatchObject({ platform: 'Linux x86_64', clientHintsPlatform: 'Linux', mobile: false });
+	expect(detect('Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/127.0.0.0 Safari/537.36').platform).toBe('Linux x86_64');
+})
+
+test('captcha task solvers create a task and poll a local mock provider', async () => {
+	const tasks: Array<Record<string, unknown>> = [];
+	let polls = 0;
+	const server = createServer((request, response) => {
+		let body = '';
+		request.on('data', chunk => body += chunk);
+		request.on('end', () => {
+			const payload = JSON.parse(body);
+			response.setHeader('content-type', 'application/json');
+			if (payload.clientKey !== 'test-key') {
+				return response.end(JSON.stringify({ errorId: 1, errorCode: 'ERROR_KEY_DOES_NOT_EXIST' }));
+			}
+			if (request.url === '/createTask') {
+				tasks.push(payload.task);
+				// Image tasks are answered right away, like CapSolver does
+				if (payload.task.type === 'ImageToTextTask') {
+					return response.end(JSON.stringify({ errorId: 0, status: 'ready', taskId: 'img-1', solution: { text: 'x7k2' } }));
+				}
+				return response.end(JSON.stringify({ errorId: 0, taskId: 42 }));
+			}
+			polls++;
+			response.end(JSON.stringify(polls < 2
+				? { errorId: 0, status: 'processing' }
+				: { errorId: 0, status: 'ready', cost: '0.00299', solution: { gRecaptchaResponse: 'recaptcha-token' } }));
+		});
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+	try {
+		const twoCaptcha = new TwoCaptchaSolver({ apiKey: 'test-key', baseUrl, pollingInterval: 10 });
+		const solution = await twoCaptcha.solve({ id: '1', type: 'recaptcha-v2', url: 'https://example.com', sitekey: 'site-key', invisible: true });
+		expect(solution).toEqual({ token: 'recaptcha-token', text: undefined, cost: 0.00299, taskId: '42' });
+		expect(tasks[0]).toEqual({ type: 'RecaptchaV2TaskProxyless', websiteURL: 'https://example.com', websiteKey: 'site-key', isInvisible: true });
+
+		const capSolver = new CapSolverSolver({ apiKey: 'test-key', baseUrl });
+		await expect(capSolver.solve({ id: '2', type: 'image', url: 'https://example.com', image: 'aW1n' })).resolves.toMatchObject({ text: 'x7k2' });
+		expect(tasks[1]).toEqual({ type: 'ImageToTextTask', body: 'aW1n' });
+		expect(capSolver.supports('turnstile')).toBe(true);
+
+		await expect(new TwoCaptchaSolver({ apiKey: 'wrong', baseUrl }).solve({ id: '3', type: 'hcaptcha', url: 'https://example.com', sitekey: 'k' }))
+			.rejects.toThrow('ERROR_KEY_DOES_NOT_EXIST');
+	} finally {
+		await new Promise(resolve => server.close(resolve));
+	}
+})
+
+test('manual captcha solver waits for resolve and captcha manager falls back between solvers', async () => {
+	const manual = new ManualCaptchaSolver({ timeout: 1000 });
+	const waiting = manual.solve({ id: 'manual-1', type: 'turnstile', url: 'https://example.com', sitekey: 'k' });
+	expect(manual.pending().map(challenge => challenge.id)).toEqual(['manual-1']);
+	expect(manual.resolve('manual-1', 'turnstile-token')).toBe(true);
+	await expect(waiting).resolves.toEqual({ token: 'turnstile-token' });
+	expect(manual.pending()).toEqual([]);
+
+	const failing: CaptchaSolver = {
+		name: 'failing',
+		supports: () => true,
+		solve: async () => { throw new Error('no balance'); },
+	};
+	const human = new ManualCaptchaSolver({ types: ['hcaptcha'], onChallenge: () => ({ token: 'h-token', cost: 0 }) });
+	const frame = {
+		isDetached: () => false,
+		url: () => 'https://example.com/login',
+		evaluate: jest.fn<(...args: unknown[]) => Promise<unknown>>()
+			.mockResolvedValueOnce([{ type: 'hcaptcha', sitekey: 'h-key' }, { type: 'turnstile', sitekey: 't-key' }])
+			.mockResolvedValue(true),
+	};
+	const page = { frames: () => [frame], url: () => 'https://example.com/login' } as never;
+
+	const result = await new CaptchaManager([failing, human]).solve(page);
+	expect(result).toMatchObject({ solved: 1, failed: 1, cost: 0 });
+	expect(result.captchas[0]).toMatchObject({ type: 'hcaptcha', status: 'solved', solver: 'manual', token: 'h-token', injected: true });
+	expect(result.captchas[1]).toMatchObject({ type: 'turnstile', status: 'failed', solver: 'failing', error: 'failing: no balance' });
+
+	// The legacy page.solveRecaptchas() is added per page, only when a 2Captcha key is given
+	const pluginPage = () => Object.assign(new EventEmitter(), { url: () => 'about:blank', setBypassCSP: jest.fn(async () => undefined) });
+	const keyed = pluginPage();
+	await captchaPlugin(human, { twoCaptchaKey: 'page-key' }).pageCreated!({ page: keyed } as never);
+	expect(keyed).toHaveProperty('solveCaptchas');
+	expect(keyed).toHaveProperty('solveRecaptchas');
+	expect(keyed.setBypassCSP).toHaveBeenCalledWith(true);
+	const keyless = pluginPage();
+	await captchaPlugin(human).pageCreated!({ page: keyless } as never);
+	expect(keyless).toHaveProperty('solveCaptchas');
+	expect(keyless).not.toHaveProperty('solveRecaptchas');
+})
+
+test('errors carry a stable code, retryable flag and serializable context', async () => {
+	const timeout = new Error('Navigation timeout of 30000 ms exceeded');
+	timeout.name = 'TimeoutError';
+	const error = classifyError(timeout, 'Failed to navigate to https://example.com', { url: 'https://example.com', attempt: 3 }, NavigationError);
+	expect(error).toBeInstanceOf(NavigationTimeoutError);
+	expect(error).toBeInstanceOf(NavigationError);
+	expect(error).toBeInstanceOf(FelintoError);
+	expect(JSON.parse(JSON.stringify(error))).toEqual({
+		name: 'NavigationTimeoutError',
+		message: 'Failed to navigate to https://example.com',
+		code: 'NAVIGATION_TIMEOUT',
+		retryable: true,
+		context: { url: 'https://example.com', attempt: 3 },
+		cause: { name: 'TimeoutError', message: 'Navigation timeout of 30000 ms exceeded' },
+	});
+
+	expect(classifyError(new Error('net::ERR_PROXY_CONNECTION_FAILED at https://example.com'), 'failed')).toBeInstanceOf(ProxyError);
+	expect(classifyError(new Error('Protocol error (Page.navigate): Target closed'), 'failed').code).toBe('TARGET_CLOSED');
+	expect(new TargetClosedError('closed').retryable).toBe(false);
+	expect(new ProxyError('no proxy', undefined, { retryable: false }).retryable).toBe(false);
+
+	// Non-retryable library errors are rethrown without further attempts
+	const operation = jest.fn<() => Promise<void>>().mockRejectedValue(new TargetClosedError('closed'));
+	await expect(retryOperation(operation, { baseDelay: 1 })).rejects.toBeInstanceOf(TargetClosedError);
+	expect(operation).toHaveBeenCalledTimes(1);
+})
+
+test('retries log structured entries through the injected logger', async () => {
+	const entries: Array<{ level: string; fields: Record<string, unknown>; message: string }> = [];
+	const record = (level: string) => (fields: Record<string, unknown>, message: string) => entries.push({ level, fields, message });
+	// No child(): childLogger merges the bindings itself
+	const logger: Logger = { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') };
+
+	const failure = new Error('net::ERR_CONNECTION_RESET');
+	const operation = jest.fn<() => Promise<string>>().mockRejectedValueOnce(failure).mockResolvedValue('ok');
+	await expect(retryOperation(operation, { baseDelay: 1, logger: childLogger(logger, { pageId: 'page-1' }) }, 'Navigation')).resolves.toBe('ok');
+
+	expect(entries).toEqual([{
+		level: 'warn',
+		fields: { pageId: 'page-1', operation: 'Navigation', attempt: 1, delay: 1, err: failure },
+		message: 'Navigation failed, retrying in 1ms',
+	}]);
+
+	await expect(retryOperation(() => Promise.reject(failure), { maxRetries: 2, baseDelay: 1, logger }, 'Navigation')).rejects.toBeInstanceOf(RetryExhaustedError);
+	expect(entries[entries.length - 1]).toMatchObject({ level: 'error', fields: { operation: 'Navigation', attempt: 2 } });
+})
+
+test('plugins run their hooks in order around page.goto and page.close', async () => {
+	const calls: string[] = [];
+	const goto = jest.fn(async (url: string) => {
+		calls.push(`goto ${url}`);
+		if (url.includes('fail')) throw new Error('net::ERR_NAME_NOT_RESOLVED');
+		return null;
+	});
+	const close = jest.fn(async () => {
+		calls.push('close');
+	});
+	const page = { goto, close, url: () => 'https://example.com/' } as unknown as ExtendedPage;
+
+	const errors: string[] = [];
+	const tracker = (name: string): FelintoPlugin => ({
+		name,
+		beforeNavigate: context => {
+			calls.push(`${name} beforeNavigate ${context.url}`);
+			context.url = context.url.replace('http:', 'https:');
+		},
+		afterNavigate: ({ url }) => {
+			calls.push(`${name} afterNavigate ${url}`);
+		},
+		beforeClose: () => {
+			calls.push(`${name} beforeClose`);
+			throw new Error('save failed');
+		},
+		onError: ({ error, phase }) => {
+			errors.push(`${name} ${phase} ${error.message}`);
+		},
+	});
+	const plugins = new PluginManager([tracker('first'), tracker('second')]);
+	plugins.attach(page);
+
+	await page.goto('http://example.com/');
+	expect(calls).toEqual([
+		'first beforeNavigate http://example.com/',
+		'second beforeNavigate https://example.com/',
+		'goto https://example.com/',
+		'first afterNavigate https://example.com/',
+		'second afterNavigate https://example.com/',
+	]);
+
+	const failure = await page.goto('https://fail.test/').catch((error: Error) => error);
+	expect(failure).toBeInstanceOf(Error);
+	// newPage reporting the NavigationError wrapping it is skipped
+	await plugins.onError(new NavigationError('Failed to navigate', failure as Error), 'page');
+	expect(errors).toEqual(['first navigate net::ERR_NAME_NOT_RESOLVED', 'second navigate net::ERR_NAME_NOT_RESOLVED']);
+
+	// Failing beforeClose hooks are reported as PluginErrors and the page still closes
+	calls.length = 0;
+	errors.length = 0;
+	await page.close();
+	expect(calls).toEqual(['first beforeClose', 'second beforeClose', 'close']);
+	expect(errors).toEqual([
+		'first close Plugin "first" failed in beforeClose: save failed',
+		'second close Plugin "first" failed in beforeClose: save failed',
+		'first close Plugin "second" failed in beforeClose: save failed',
+		'second close Plugin "second" failed in beforeClose: save failed',
+	]);
+
+	// beforeConnect may replace the params
+	const params = await new PluginManager([{ name: 'proxy', beforeConnect: ({ params }) => ({ ...params, userAgent: 'felinto' }) }]).beforeConnect({});
+	expect(params.userAgent).toBe('felinto');
+	await expect(new PluginManager([{ name: 'broken', afterConnect: () => { throw new Error('boom'); } }]).afterConnect({} as never, {}))
+		.rejects.toMatchObject({ code: 'PLUGIN_FAILED', context: { plugin: 'broken', hook: 'afterConnect' } });
+	expect(new PluginError('x')).toBeInstanceOf(FelintoError);
+})
+
+test('HAR recorder turns CDP network events into redacted HAR 1.2 entries', async () => {
+	const client = Object.assign(new EventEmitter(), {
+		send: jest.fn(async (method: string) => {
+			if (method === 'Page.getFrameTree') return { frameTree: { frame: { id: 'main' } } };
+			if (method === 'Network.getResponseBody') return { body: 'PGgxPm9rPC9oMT4=', base64Encoded: true };
+			return {};
+		}),
+		detach: jest.fn(async () => undefined),
+	});
+	const page = {
+		target: () => ({ createCDPSession: async () => client }),
+		browser: () => ({ version: async () => 'HeadlessChrome/127.0.0.0' }),
+	} as never;
+
+	const recorder = await HarRecorder.start(page, { content: 'embed', resourceTypes: ['document'] });
+	const timing = { requestTime: 100, dnsStart: 1, dnsEnd: 3, connectStart: 3, connectEnd: 10, sslStart: 5, sslEnd: 10, sendStart: 10, sendEnd: 11, receiveHeadersEnd: 51 };
+	const request = (url: string) => ({ url, method: 'GET', headers: { Accept: 'text/html' } });
+	const base = { requestId: '1', loaderId: '1', frameId: 'main', type: 'Document', wallTime: 1700000000 };
+
+	client.emit('Network.requestWillBeSent', { ...base, request: request('http://example.com/login?next=1'), timestamp: 100 });
+	client.emit('Network.requestWillBeSentExtraInfo', { requestId: '1', headers: { Cookie: 'sid=secret; theme=dark', Authorization: 'Bearer secret' } });
+	client.emit('Network.responseReceivedExtraInfo', { requestId: '1', headers: { Location: 'https://example.com/', 'Set-Cookie': 'sid=new; Path=/' } });
+	client.emit('Network.requestWillBeSent', {
+		...base,
+		request: request('https://example.com/'),
+		timestamp: 100.2,
+		redirectResponse: { url: 'http://example.com/login?next=1', status: 302, statusText: 'Found', headers: {}, mimeType: '', protocol: 'http/1.1', timing },
+	});
+	client.emit('Network.requestWillBeSent', { ...base, requestId: '2', type: 'Image', request: request('https://example.com/logo.png'), timestamp: 100.3 });
+	client.emit('Network.responseReceived', {
+		requestId: '1',
+		response: { url: 'https://example.com/', status: 200, statusText: 'OK', headers: { 'content-type': 'text/html' }, mimeType: 'text/html', protocol: 'h2', timing: { ...timing, requestTime: 100.2 } },
+	});
+	client.emit('Network.dataReceived', { requestId: '1', dataLength: 11 });
+	client.emit('Network.loadingFinished', { requestId: '1', timestamp: 100.3, encodedDataLength: 120 });
+	client.emit('Page.loadEventFired', { timestamp: 100.5 });
+
+	const { log } = await recorder.stop();
+	expect(log.version).toBe('1.2');
+	expect(log.pages).toEqual([expect.objectContaining({ id: 'page_1', title: 'http://example.com/login?next=1', pageTimings: { onContentLoad: -1, onLoad: 500 } })]);
+	// The image is filtered out, the redirect is its own entry
+	expect(log.entries.map(entry => [entry.request.url, entry.response.status, entry.response.redirectURL])).toEqual([
+		['http://example.com/login?next=1', 302, 'https://example.com/'],
+		['https://example.com/', 200, ''],
+	]);
+
+	const [redirect, document] = log.entries;
+	expect(redirect!.request.queryString).toEqual([{ name: 'next', value: '1' }]);
+	expect(redirect!.request.headers).toEqual([{ name: 'Cookie', value: '[REDACTED]' }, { name: 'Authorization', value: '[REDACTED]' }]);
+	expect(redirect!.request.cookies.map(cookie => [cookie.name, cookie.value])).toEqual([['sid', '[REDACTED]'], ['theme', '[REDACTED]']]);
+	expect(redirect!.response.cookies).toEqual([expect.objectContaining({ name: 'sid', value: '[REDACTED]' })]);
+	expect(redirect!.timings).toMatchObject({ blocked: 1, dns: 2, connect: 7, ssl: 5, send: 1, wait: 40 });
+
+	expect(document!.response.httpVersion).toBe('HTTP/2');
+	expect(document!.response.content).toEqual({ size: 11, mimeType: 'text/html', text: 'PGgxPm9rPC9oMT4=', encoding: 'base64' });
+	expect(document!.timings.receive).toBeCloseTo(49);
+	expect(client.detach).toHaveBeenCalled();
+})
+
+test('download manager waits for the download of an action and names it after the suggested file', async () => {
+	const directory = await mkdtemp(join(tmpdir(), 'felinto-downloads-'));
+	const cdpClient = (responses: Record<string, unknown>) => Object.assign(new EventEmitter(), {
+		send: jest.fn(async (method: string) => responses[method] ?? {}),
+		detach: jest.fn(async () => undefined),
+	});
+	const pageClient = cdpClient({ 'Page.getFrameTree': { frameTree: { frame: { id: 'main' }, childFrames: [{ frame: { id: 'child' } }] } } });
+	const browserClient = cdpClient({});
+	const page = {
+		target: () => ({ createCDPSession: async () => pageClient }),
+		browser: () => ({ process: () => null, target: () => ({ createCDPSession: async () => browserClient }) }),
+		browserContext: () => ({ id: 'context-1' }),
+	} as never;
+
+	try {
+		const downloads = new DownloadManager(page, { path: directory, remote: false, timeout: 1000 });
+		await writeFile(join(directory, 'existing.csv'), 'old');
+
+		const download = await downloads.waitForDownload(async () => {
+			await writeFile(join(directory, 'guid-1'), 'a,b\n1,2\n');
+			// Another page's download is ignored
+			browserClient.emit('Browser.downloadWillBegin', { frameId: 'other', guid: 'guid-0', url: 'https://example.com/other', suggestedFilename: 'other.csv' });
+			browserClient.emit('Browser.downloadWillBegin', { frameId: 'child', guid: 'guid-1', url: 'https://example.com/report', suggestedFilename: 'existing.csv' });
+			browserClient.emit('Browser.downloadProgress', { guid: 'guid-1', totalBytes: 8, receivedBytes: 8, state: 'completed' });
+		});
+
+		expect(browserClient.send).toHaveBeenCalledWith('Browser.setDownloadBehavior', {
+			behavior: 'allowAndName',
+			browserContextId: 'context-1',
+			downloadPath: directory,
+			eventsEnabled: true,
+		});
+		expect(download).toMatchObject({ url: 'https://example.com/report', suggestedFilename: 'existing.csv', path: join(directory, 'existing (1).csv'), size: 8 });
+		expect((await download.buffer()).toString()).toBe('a,b\n1,2\n');
+		expect(await readFile(join(directory, 'existing.csv'), 'utf8')).toBe('old');
+		expect(downloads.list()).toEqual([download]);
+
+		const canceled = downloads.waitForDownload(() => {
+			browserClient.emit('Browser.downloadWillBegin', { frameId: 'main', guid: 'guid-2', url: 'https://example.com/big', suggestedFilename: 'big.zip' });
+			browserClient.emit('Browser.downloadProgress', { guid: 'guid-2', totalBytes: 0, receivedBytes: 0, state: 'canceled' });
+		});
+		await expect(canceled).rejects.toBeInstanceOf(DownloadError);
+		await expect(downloads.waitForDownload(undefined, { timeout: 10 })).rejects.toMatchObject({ code: 'DOWNLOAD_FAILED', retryable: true });
+
+		// A remote browser keeps the file, the body comes from the response held over CDP
+		const remoteClient = cdpClient({
+			'Page.getFrameTree': { frameTree: { frame: { id: 'main' } } },
+			'Fetch.takeResponseBodyAsStream': { stream: 'stream-1' },
+			'IO.read': { data: Buffer.from('id,total\n7,10\n').toString('base64'), base64Encoded: true, eof: true },
+		});
+		const remoteBrowserClient = cdpClient({});
+		const remotePage = {
+			target: () => ({ createCDPSession: async () => remoteClient }),
+			browser: () => ({ process: () => null, target: () => ({ createCDPSession: async () => remoteBrowserClient }) }),
+			browserContext: () => ({ id: 'context-2' }),
+			evaluate: jest.fn(),
+		};
+		const remote = new DownloadManager(remotePage as never, { timeout: 1000 });
+		const paused = (requestId: string, url: string, contentType: string) => remoteClient.emit('Fetch.requestPaused', {
+			requestId,
+			request: { url },
+			responseStatusCode: 200,
+			responseHeaders: [{ name: 'Content-Type', value: contentType }, { name: 'Content-Encoding', value: 'gzip' }],
+		});
+		const remoteDownload = await remote.waitForDownload(async () => {
+			paused('page-1', 'https://example.com/orders', 'text/html');
+			paused('file-1', 'https://example.com/orders.csv', 'text/csv');
+			await new Promise(resolve => setImmediate(resolve));
+			remoteBrowserClient.emit('Browser.downloadWillBegin', { frameId: 'main', guid: 'guid-3', url: 'https://example.com/orders.csv', suggestedFilename: 'orders.csv' });
+			remoteBrowserClient.emit('Browser.downloadProgress', { guid: 'guid-3', totalBytes: 14, receivedBytes: 14, state: 'completed' });
+		});
+		expect(remoteDownload).toMatchObject({ url: 'https://example.com/orders.csv', size: 14 });
+		expect(remoteDownload.path).toBeUndefined();
+		expect((await remoteDownload.buffer()).toString()).toBe('id,total\n7,10\n');
+		expect(remotePage.evaluate).not.toHaveBeenCalled();
+		const sent = remoteClient.send.mock.calls.map(call => call[0]);
+		expect(sent.filter(method => method.startsWith('Fetch.') || method.startsWith('IO.'))).toEqual([
+			'Fetch.enable', 'Fetch.continueRequest', 'Fetch.takeResponseBodyAsStream', 'IO.read', 'IO.close', 'Fetch.fulfillRequest', 'Fetch.disable',
+		]);
+		expect(remoteClient.send).toHaveBeenCalledWith('Fetch.fulfillRequest', {
+			requestId: 'file-1',
+			responseCode: 200,
+			responseHeaders: [{ name: 'Content-Type', value: 'text/csv' }],
+			body: Buffer.from('id,total\n7,10\n').toString('base64'),
+		});
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+})
+
+test('tab manager configures popups, tracks nested tabs and forgets closed ones', async () => {
+	const fakePage = (url: string) => Object.assign(new EventEmitter(), {
+		url: () => url,
+		isClosed: () => false,
+		close: jest.fn(async function (this: EventEmitter) {
+			this.emit('close');
+		}),
+	}) as unknown as ExtendedPage;
+
+	const opener = fakePage('https://example.com/login');
+	const configured: string[] = [];
+	const tabs = new TabManager(opener, async (tab, from) => {
+		configured.push(`${tab.url()} from ${from.url()}`);
+		return tab;
+	});
+
+	const popup = fakePage('https://accounts.example.com/oauth');
+	const tab = await tabs.waitForPopup(() => {
+		opener.emit('popup', popup);
+	});
+	expect(tab).toBe(popup);
+	expect(tabs.list()).toEqual([popup]);
+
+	// A popup of the popup joins the same registry
+	const consent = fakePage('https://accounts.example.com/consent');
+	await expect(tab.waitForPopup!(() => {
+		popup.emit('popup', consent);
+	})).resolves.toBe(consent);
+	expect(configured).toEqual([
+		'https://accounts.example.com/oauth from https://example.com/login',
+		'https://accounts.example.com/consent from https://accounts.example.com/oauth',
+	]);
+	expect(tabs.list()).toEqual([popup, consent]);
+
+	await popup.close();
+	expect(tabs.list()).toEqual([consent]);
+	await expect(tabs.waitForPopup(undefined, { timeout: 10 })).rejects.toMatchObject({ retryable: true });
+
+	// An action outlasting the timeout rejects once it returns, never as an unhandled rejection
+	const unhandled = jest.fn();
+	process.on('unhandledRejection', unhandled);
+	try {
+		await expect(tabs.waitForPopup(() => new Promise(resolve => setTimeout(resolve, 50)), { timeout: 10 }))
+			.rejects.toMatchObject({ retryable: true });
+		await new Promise(resolve => setImmediate(resolve));
+		expect(unhandled).not.toHaveBeenCalled();
+	} finally {
+		process.off('unhandledRejection', unhandled);
+	}
+})
+
+test('isolation context gives each page its own browser context, closed with the page', async () => {
+	const contexts: Array<{ options: unknown; close: jest.Mock }> = [];
+	const pageIn = () => Object.assign(new EventEmitter(), {
+		close: jest.fn(async function (this: EventEmitter) {
+			this.emit('close');
+		}),
+	});
+	const browser = {
+		newPage: jest.fn(async () => pageIn()),
+		createBrowserContext: jest.fn(async (options: unknown) => {
+			const context = { options, close: jest.fn(async () => undefined), newPage: async () => pageIn() };
+			contexts.push(context);
+			return context;
+		}),
+	};
+
+	const shared = await PageConfigurator.createAndConfigurePage(browser as never, {});
+	expect(browser.newPage).toHaveBeenCalledTimes(1);
+	expect(contexts).toHaveLength(0);
+
+	const isolated = await PageConfigurator.createAndConfigurePage(browser as never, { isolation: 'context' });
+	const proxied = await PageConfigurator.createAndConfigurePage(browser as never, { proxy: { server: 'http://proxy.local:8080' } });
+	expect(contexts.map(context => context.options)).toEqual([{}, { proxyServer: 'http://proxy.local:8080' }]);
+
+	await isolated.close();
+	expect(contexts[0]!.close).toHaveBeenCalledTimes(1);
+	expect(contexts[1]!.close).not.toHaveBeenCalled();
+	await shared.close();
+	await proxied.close();
+	expect(contexts[1]!.close).toHaveBeenCalledTimes(1);
+})
+
+test('workflow runs typed steps with loops, branches, retries and per-step results', async () => {
+	let url = 'about:blank';
+	const typed: string[] = [];
+	let checks = 0;
+	const page = {
+		url: () => url,
+		goto: jest.fn(async (target: string) => {
+			url = target;
+			return { status: () => 200 };
+		}),
+		waitForSelector: jest.fn(async () => ({})),
+		focus: jest.fn(async () => undefined),
+		click: jest.fn(async () => undefined),
+		keyboard: {
+			press: jest.fn(async () => undefined),
+			type: jest.fn(async (character: string) => {
+				typed.push(character);
+			}),
+		},
+		$: jest.fn(async () => null),
+		$eval: jest.fn(async () => undefined),
+		$$eval: jest.fn(async () => ['/items/1', '/items/2']),
+	} as unknown as ExtendedPage;
+
+	const result = await runWorkflow({
+		name: 'orders',
+		variables: { user: { name: 'ana' } },
+		steps: [
+			{ type: 'goto', url: 'https://shop.test/login' },
+			{ type: 'branch', if: { exists: '#logout' }, then: [], else: [{ type: 'fill', selector: '#user', value: '{{user.name}}' }] },
+			{ type: 'extract', id: 'links', selector: 'a.item', attribute: 'href', multiple: true, as: 'links' },
+			{ type: 'loop', over: 'links', as: 'link', steps: [{ type: 'goto', url: 'https://shop.test{{link}}' }] },
+			{ type: 'callFunction', fn: 'count', args: ['{{links}}'], as: 'total' },
+			{ type: 'assert', condition: { urlIncludes: '/missing' }, continueOnError: true },
+			{ type: 'assert', condition: () => ++checks === 2, retry: { maxRetries: 2, baseDelay: 1 } },
+			{ type: 'assert', id: 'done', condition: { variable: 'total', equals: 3 } },
+			{ type: 'goto', url: 'https://shop.test/never' },
+		],
+	}, { page, functions: { count: async (_, links) => (links as string[]).length } });
+
+	expect(page.focus).toHaveBeenCalledWith('#user');
+	expect(typed.join('')).toBe('ana');
+	expect(page.goto).toHaveBeenCalledWith('https://shop.test/items/2', expect.anything());
+	expect(result.steps.map(step => `${step.id}:${step.status}:${step.attempts}`)).toEqual([
+		'0:passed:1', '1:passed:1', 'links:passed:1', '3:passed:1', '4:passed:1', '5:failed:1', '6:passed:2', 'done:failed:1',
+	]);
+	expect(result.steps[1]).toMatchObject({ output: 'else', steps: [{ id: '1.else.0', type: 'fill' }] });
+	expect(result.steps[3]!.steps!.map(step => step.iteration)).toEqual([0, 1]);
+	expect(result.variables).toMatchObject({ links: ['/items/1', '/items/2'], total: 2, link: '/items/2' });
+	expect(result.status).toBe('failed');
+	expect(result.error).toMatchObject({ code: 'WORKFLOW_FAILED', context: { step: 'done', type: 'assert' } });
+	expect(page.goto).toHaveBeenCalledTimes(3);
+})
+
+test('workflow steps stop at their timeout and runWorkflow drops the connection of its own page', async () => {
+	const typed: string[] = [];
+	const close = jest.fn(async function (this: EventEmitter) {
+		this.emit('close');
+	});
+	const page = Object.assign(new EventEmitter(), {
+		url: () => 'https://shop.test/form',
+		waitForSelector: jest.fn(async () => ({})),
+		focus: jest.fn(async () => undefined),
+		$eval: jest.fn(async () => undefined),
+		keyboard: {
+			press: jest.fn(async () => undefined),
+			type: jest.fn(async (character: string) => {
+				typed.push(character);
+				await new Promise(resolve => setTimeout(resolve, 10));
+			}),
+		},
+		close,
+	});
+	const browser = { process: () => null, disconnect: jest.fn(async () => undefined), close: jest.fn(async () => undefined) };
+	Object.assign(page, { browser: () => browser });
+	const createBrowser = jest.spyOn(BrowserFactory, 'createBrowser').mockResolvedValue(browser as never);
+	const createPage = jest.spyOn(PageConfigurator, 'createAndConfigurePage').mockResolvedValue(page as never);
+	const nodeEnv = process.env.NODE_ENV;
+	process.env.NODE_ENV = 'development';
+
+	try {
+		const startedAt = Date.now();
+		const result = await runWorkflow({
+			name: 'slow',
+			page: { browserWSEndpoint: 'ws://browser.test:3000' },
+			timeout: 60,
+			steps: [
+				{ type: 'fill', selector: '#notes', value: 'x'.repeat(50), continueOnError: true },
+				{ type: 'waitFor', delay: 5000 },
+			],
+		});
+		expect(result.steps.map(step => `${step.type}:${step.status}`)).toEqual(['fill:failed', 'waitFor:failed']);
+		expect(result.steps[0]!.error!.message).toContain('Timed out after 60ms');
+		expect(Date.now() - startedAt).toBeLessThan(1000);
+
+		// Typing ended with the attempt instead of finishing in the background
+		const typedAtTimeout = typed.length;
+		await new Promise(resolve => setTimeout(resolve, 50));
+		expect(typed.length).toBeLessThan(50);
+		expect(typed.length - typedAtTimeout).toBeLessThanOrEqual(1);
+
+		// page.close is wrapped by the plugins, the original still ran once
+		expect(close).toHaveBeenCalledTimes(1);
+		expect(browser.disconnect).toHaveBeenCalledTimes(1);
+		expect(browser.close).not.toHaveBeenCalled();
+	} finally {
+		process.env.NODE_ENV = nodeEnv;
+		createBrowser.mockRestore();
+		createPage.mockRestore();
+	}
+})
+
+test('extract converts raw page values with transforms and reports every issue', async () => {
+	const raw = {
+		title: '  Notebook\n  Pro  ',
+		price: 'R$ 1.234,56',
+		released: '05/03/2024',
+		link: '/p/1',
+		sku: 'SKU: AB-12',
+		tags: ['novo', 'oferta'],
+		seller: { name: 'Loja X', rating: '4.5' },
+		variants: [{ color: 'azul', stock: '12' }, { color: 'preto', stock: '3' }],
+	};
+	const page = { evaluate: jest.fn<(...args: unknown[]) => Promise<unknown>>(async () => raw), url: () => 'https://shop.test/p/1' };
+
+	const product = await extract(page as never, {
+		title: 'h1',
+		price: { selector: '.price', transform: 'number', required: true },
+		released: { selector: 'xpath=//time', transform: 'date' },
+		link: { selector: 'a.canonical', attribute: 'href' },
+		sku: { selector: 'text=SKU', transform: [{ regex: 'SKU: (\\S+)' }] },
+		tags: { selector: '.tag', list: true },
+		seller: { selector: '.seller', fields: { name: '.name', rating: { selector: '.rating', transform: 'number' } } },
+		variants: { selector: '.variant', list: true, fields: { color: '.color', stock: { selector: '.stock', transform: 'number' } } },
+		discount: { selector: '.discount', transform: 'number', default: 0 },
+	});
+	const price: number = product.price;
+	expect(price).toBe(1234.56);
+	expect(product).toEqual({
+		title: 'Notebook Pro',
+		price: 1234.56,
+		released: new Date(2024, 2, 5),
+		link: '/p/1',
+		sku: 'AB-12',
+		tags: ['novo', 'oferta'],
+		seller: { name: 'Loja X', rating: 4.5 },
+		variants: [{ color: 'azul', stock: 12 }, { color: 'preto', stock: 3 }],
+		discount: 0,
+	});
+	expect(page.evaluate.mock.calls[0]![1]).toMatchObject({ variants: { selector: '.variant', list: true, fields: { stock: { selector: '.stock' } } } });
+
+	page.evaluate.mockResolvedValueOnce({ title: '', items: [{ price: 'grátis' }, { price: null }] });
+	const failure = await extract(page as never, {
+		title: { selector: 'h1', required: true },
+		items: { selector: '.item', list: true, fields: { price: { selector: '.price', transform: 'number', required: true } } },
+	}).catch(error => error);
+	expect(failure).toBeInstanceOf(ExtractionError);
+	expect(failure.toJSON()).toMatchObject({
+		code: 'EXTRACTION_FAILED',
+		issues: [
+			{ path: 'title', code: 'missing', selector: 'h1' },
+			{ path: 'items[0].price', code: 'invalid', message: 'is not a number: "grátis"' },
+			{ path: 'items[1].price', code: 'missing' },
+		],
+	});
+})
+
+test('crawler follows next links once each, honors robots.txt and resumes from its checkpoint', async () => {
+	const links: Record<string, string[]> = {
+		'https://shop.test/list?page=1': ['/list?page=2', '#top'],
+		'https://shop.test/list?page=2': ['/list?page=1', '/list?page=3', '/private/admin'],
+		'https://shop.test/list?page=3': [],
+	};
+	const visits: string[] = [];
+	const openPage = async (params: NewPageParams) => {
+		let current = 'about:blank';
+		const page = {
+			url: () => current,
+			goto: async (url: string) => {
+				current = url;
+				visits.push(url);
+				return { status: () => 200 };
+			},
+			$$eval: async () => links[current] || [],
+			http: { get: async () => ({ status: 200, text: async () => 'User-agent: *\nDisallow: /private\nCrawl-delay: 0.001' }) },
+			close: async () => undefined,
+		} as unknown as ExtendedPage;
+		return new PluginManager(params.plugins).attach(page);
+	};
+
+	const directory = await mkdtemp(join(tmpdir(), 'felinto-crawl-'));
+	const checkpoint = join(directory, 'crawl.json');
+	const options = {
+		start: 'https://shop.test/list?page=1',
+		nextPage: 'a.next',
+		extract: (page: ExtendedPage) => page.url(),
+		maxPages: 2,
+		concurrency: 2,
+		robots: true,
+		rateLimit: { requestsPerSecond: 1000, burst: 5 },
+		checkpoint,
+	};
+	try {
+		const first = await new Crawler(options, openPage).run();
+		expect(first.pages.map(page => page.data)).toEqual(['https://shop.test/list?page=1', 'https://shop.test/list?page=2']);
+		expect(first.pending).toEqual(['https://shop.test/list?page=3', 'https://shop.test/private/admin']);
+		expect(JSON.parse(await readFile(checkpoint, 'utf8'))).toMatchObject({ visited: 2, queue: first.pending });
+
+		const second = await new Crawler({ ...options, maxPages: 10 }, openPage).run();
+		expect(second.resumed).toBe(true);
+		expect(second.pages.map(page => page.url)).toEqual(['https://shop.test/list?page=3']);
+		expect(second.blocked).toEqual(['https://shop.test/private/admin']);
+		expect(visits).toEqual(['https://shop.test/list?page=1', 'https://shop.test/list?page=2', 'https://shop.test/list?page=3']);
+		await expect(readFile(checkpoint, 'utf8')).rejects.toMatchObject({ code: 'ENOENT' });
+	} finally {
+		await rm(directory, { recursive: true, force: true });
+	}
+})
+
+test('crawl closes its pages and drops their browser connection unless they come from a pool', async () => {
+	const browser = { process: () => null, disconnect: jest.fn(async () => undefined), close: jest.fn(async () => undefined) };
+	const closes: jest.Mock[] = [];
+	const createBrowser = jest.spyOn(BrowserFactory, 'createBrowser').mockResolvedValue(browser as never);
+	const createPage = jest.spyOn(PageConfigurator, 'createAndConfigurePage').mockImplementation(async () => {
+		let current = 'about:blank';
+		const close = jest.fn(async function (this: EventEmitter) {
+			this.emit('close');
+		});
+		closes.push(close);
+		return Object.assign(new EventEmitter(), {
+			url: () => current,
+			goto: async (url: string) => {
+				current = url;
+				return { status: () => 200 };
+			},
+			browser: () => browser,
+			close,
+		}) as never;
+	});
+	const nodeEnv = process.env.NODE_ENV;
+	process.env.NODE_ENV = 'development';
+
+	try {
+		const options = { start: 'https://shop.test/', extract: (_: ExtendedPage, url: string) => url, rateLimit: false as const };
+		await expect(crawl({ ...options, page: { browserWSEndpoint: 'ws://browser.test:3000' } })).resolves.toMatchObject({ pages: [{ data: 'https://shop.test/' }] });
+		expect(closes).toHaveLength(1);
+		expect(closes[0]).toHaveBeenCalledTimes(1);
+		expect(browser.disconnect).toHaveBeenCalledTimes(1);
+
+		const release = jest.fn(async () => undefined);
+		const pool = { acquire: async () => ({ browser, release }) };
+		await crawl({ ...options, page: { pool: pool as never } });
+		expect(closes[1]).toHaveBeenCalledTimes(1);
+		expect(release).toHaveBeenCalled();
+		expect(browser.disconnect).toHaveBeenCalledTimes(1);
+		expect(browser.close).not.toHaveBeenCalled();
+	} finally {
+		process.env.NODE_ENV = nodeEnv;
+		createBrowser.mockRestore();
+		createPage.mockRestore();
+	}
+})
+
+test('rate limiter spaces requests per domain and robots rules pick the longest match', async () => {
+	const limiter = new RateLimiter({ requestsPerSecond: 20, domains: { 'fast.test': { requestsPerSecond: 1000 } } });
+	const started = Date.now();
+	await Promise.all([1, 2, 3].map(() => limiter.acquire('https://slow.test/')));
+	await Promise.all([1, 2, 3].map(() => limiter.acquire('https://fast.test/')));
+	const elapsed = Date.now() - started;
+	expect(elapsed).toBeGreaterThanOrEqual(90);
+	expect(elapsed).toBeLessThan(1000);
+
+	const robots = parseRobotsTxt('User-agent: *\nDisallow: /\n\nUser-agent: felintobot\nUser-agent: otherbot\nDisallow: /admin\nAllow: /admin/public$\nDisallow: /*.pdf$\nCrawl-delay: 2', { userAgent: 'FelintoBot/1.0' });
+	expect(robots.crawlDelay).toBe(2);
+	expect(robots.isAllowed('https://site.test/admin/users')).toBe(false);
+	expect(robots.isAllowed('https://site.test/admin/public')).toBe(true);
+	expect(robots.isAllowed('https://site.test/files/a.pdf')).toBe(false);
+	expect(robots.isAllowed('https://site.test/products')).toBe(true);
+	expect(parseRobotsTxt('User-agent: *\nDisallow: /').isAllowed('https://site.test/products')).toBe(false);
+})
+
+test('launch mode forwards the launch options and wraps failures after the retries', async () => {
+	const browser = {};
+	const launch = jest.spyOn(puppeteerExtra, 'launch').mockResolvedValueOnce(browser as never);
+	try {
+		await expect(BrowserFactory.createBrowser({
+			launch: { executablePath: '/opt/chrome/chrome', headless: 'shell', args: ['--no-sandbox'], userDataDir: '/tmp/felinto-profile' },
+			slowMo: 5,
+		})).resolves.toBe(browser);
+		expect(launch).toHaveBeenCalledWith(expect.objectContaining({
+			executablePath: '/opt/chrome/chrome',
+			headless: 'shell',
+			args: ['--no-sandbox'],
+			userDataDir: '/tmp/felinto-profile',
+			slowMo: 5,
+		}));
+
+		launch.mockRejectedValue(new Error('Timed out after 30000 ms while waiting for the WS endpoint URL'));
+		const failure = await BrowserFactory.createBrowser({
+			launch: { executablePath: '/opt/chrome/chrome' },
+			retryOptions: { maxRetries: 2, baseDelay: 1 },
+		}).catch(error => error);
+		expect(failure).toBeInstanceOf(BrowserConnectionError);
+		expect(failure.cause).toBeInstanceOf(RetryExhaustedError);
+		expect(failure.context).toMatchObject({ endpoint: '/opt/chrome/chrome' });
+		expect(launch).toHaveBeenCalledTimes(3);
+
+		// A missing executable never succeeds on retry
+		launch.mockClear().mockRejectedValue(new Error('spawn /opt/missing ENOENT'));
+		await expect(BrowserFactory.createBrowser({ launch: { executablePath: '/opt/missing' }, retryOptions: { baseDelay: 1 } }))
+			.rejects.toMatchObject({ code: 'BROWSER_CONNECTION_FAILED', retryable: false });
+		expect(launch).toHaveBeenCalledTimes(1);
+	} finally {
+		launch.mockRestore();
+	}
+})
+
+test('browser pool leases concurrent acquires, queues when full, times out and drains', async () => {
+	const browsers: Array<EventEmitter & { close: jest.Mock }> = [];
+	const createBrowser = jest.spyOn(BrowserFactory, 'createBrowser').mockImplementation(async () => {
+		await new Promise(resolve => setTimeout(resolve, 10));
+		const browser = Object.assign(new EventEmitter(), { close: jest.fn(async () => undefined) });
+		browsers.push(browser);
+		return browser as never;
+	});
+	try {
+		// A third acquire arrives while both browsers are still starting
+		const pool = new BrowserPool({ size: 2, maxPagesPerBrowser: 2 });
+		const leases = await Promise.all([pool.acquire(), pool.acquire(), pool.acquire()]);
+		expect(createBrowser).toHaveBeenCalledTimes(2);
+		expect(pool.stats()).toMatchObject({ browsers: 2, activePages: 3, pending: 0 });
+
+		// Full pool: the next acquire waits for a release
+		const fourth = await pool.acquire();
+		let queued: unknown;
+		const waiting = pool.acquire().then(lease => { queued = lease; return lease; });
+		await new Promise(resolve => setTimeout(resolve, 5));
+		expect(queued).toBeUndefined();
+		expect(pool.stats().pending).toBe(1);
+		await fourth.release();
+		expect((await waiting).browser).toBe(fourth.browser);
+
+		const timed = new BrowserPool({ size: 1, maxPagesPerBrowser: 1, acquireTimeout: 20 });
+		const held = await timed.acquire();
+		await expect(timed.acquire()).rejects.toBeInstanceOf(BrowserConnectionError);
+		expect(timed.stats().pending).toBe(0);
+
+		// Drain rejects the waiters and closes the browsers once the leases are released
+		const rejected = timed.acquire();
+		const drained = timed.drain();
+		await expect(rejected).rejects.toMatchObject({ retryable: false });
+		expect(browsers[2]!.close).not.toHaveBeenCalled();
+		await held.release();
+		await drained;
+		expect(browsers[2]!.close).toHaveBeenCalledTimes(1);
+		await expect(timed.acquire()).rejects.toBeInstanceOf(BrowserConnectionError);
+
+		await Promise.all([...leases, await waiting].map(lease => lease.release()));
+		await pool.drain();
+		expect(browsers[0]!.close).toHaveBeenCalledTimes(1);
+		expect(browsers[1]!.close).toHaveBeenCalledTimes(1);
+	} finally {
+		createBrowser.mockRestore();
+	}
+})
+
+test('browser pool gives no lease to a waiter that timed out and closes browsers started while draining', async () => {
+	const gates: Array<() => void> = [];
+	const browsers: Array<EventEmitter & { close: jest.Mock }> = [];
+	const createBrowser = jest.spyOn(BrowserFactory, 'createBrowser').mockImplementation(async () => {
+		await new Promise<void>(resolve => gates.push(resolve));
+		const browser = Object.assign(new EventEmitter(), { close: jest.fn(async () => undefined) });
+		browsers.push(browser);
+		return browser as never;
+	});
+	const flush = () => new Promise(resolve => setImmediate(resolve));
+	try {
+		const pool = new BrowserPool({ size: 1, maxPagesPerBrowser: 1, acquireTimeout: 20 });
+		const first = pool.acquire();
+		await flush();
+		gates.shift()!();
+		await first;
+
+		// The browser goes away, a replacement starts for the queued caller and outlasts its timeout
+		const late = pool.acquire();
+		browsers[0]!.emit('disconnected');
+		await expect(late).rejects.toBeInstanceOf(BrowserConnectionError);
+		gates.shift()!();
+		await flush();
+		expect(pool.stats()).toMatchObject({ browsers: 1, activePages: 0 });
+		await pool.drain();
+		expect(browsers[1]!.close).toHaveBeenCalledTimes(1);
+
+		const draining = new BrowserPool({ size: 1 });
+		const starting = draining.acquire();
+		await flush();
+		let drained = false;
+		const drain = draining.drain().then(() => {
+			drained = true;
+		});
+		await flush();
+		expect(drained).toBe(false);
+		gates.shift()!();
+		await expect(starting).rejects.toMatchObject({ retryable: false });
+		await drain;
+		expect(browsers[2]!.close).toHaveBeenCalledTimes(1);
+		expect(draining.stats()).toMatchObject({ browsers: 0, activePages: 0 });
+	} finally {
+		createBrowser.mockRestore();
+	}
+})
+
+test('session stores keep sessions apart and the manager drops expired ones', async () => {
+	const memory = new MemorySessionStore();
+	const stored = { userDataDir: 'bot-a', timestamp: 1, sessionData: { cookies: [{ name: 'sid', value: '1' }] } };
+	await memory.save('bot-a', stored);
+	stored.sessionData.cookies[0]!.value = 'mutated';
+	expect((await memory.load('bot-a'))!.sessionData.cookies[0].value).toBe('1');
+	expect(await memory.load('bot-b')).toBeNull();
+	expect(await memory.list()).toHaveLength(1);
+	expect(await memory.delete('bot-a')).toBe(true);
+	expect(await memory.delete('bot-a')).toBe(false);
+
+	// Redis: SET with PX when the session expires, SCAN pages through the prefix
+	const data = new Map<string, string>();
+	const client: KeyValueClient = {
+		get: jest.fn(async (key: string) => data.get(key) ?? null),
+		set: jest.fn(async (key: string, value: string) => data.set(key, value)),
+		del: jest.fn(async (key: string) => Number(data.delete(key))),
+		scan: jest.fn(async (cursor: string) => {
+			const keys = Array.from(data.keys()).filter(key => key.startsWith('bot:'));
+			return (cursor === '0' ? ['1', keys.slice(0, 1)] : ['0', keys.slice(1)]) as [string, string[]];
+		}),
+	};
+	const redis = new RedisSessionStore({ client, prefix: 'bot:' });
+	await redis.save('a', { userDataDir: 'a', timestamp: 1, sessionData: {} });
+	await redis.save('b', { userDataDir: 'b', timestamp: 1, expiresAt: Date.now() + 60000, sessionData: {} });
+	expect(client.set).toHaveBeenNthCalledWith(1, 'bot:a', expect.any(String));
+	expect(client.set).toHaveBeenNthCalledWith(2, 'bot:b', expect.any(String), 'PX', expect.any(Number));
+	expect(((client.set as jest.Mock).mock.calls[1]![3]) as number).toBeGreaterThan(59000);
+	expect((await redis.list()).map(session => session.userDataDir).sort()).toEqual(['a', 'b']);
+	expect(client.scan).toHaveBeenCalledWith('0', 'MATCH', 'bot:*', 'COUNT', 100);
+	expect(client.scan).toHaveBeenCalledWith('1', 'MATCH', 'bot:*', 'COUNT', 100);
+
+	// The manager writes through its store and shares it with withEncryption
+	const store = new MemorySessionStore();
+	const save = jest.spyOn(store, 'save');
+	const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+	try {
+		const manager = new SessionManager({ store, ttl: 500 });
+		expect(await manager.saveSession('bot', { localStorage: { a: '1' } })).toBe(true);
+		expect(save).toHaveBeenCalledWith('bot', { userDataDir: 'bot', timestamp: 1000, expiresAt: 1500, sessionData: { localStorage: { a: '1' } } });
+		expect(await manager.withEncryption({ key: 'secret' }).hasSession('bot')).toBe(true);
+		expect(await manager.listSessions()).toEqual([{ userDataDir: 'bot', timestamp: 1000, expiresAt: 1500 }]);
+
+		now.mockReturnValue(1500);
+		expect(await manager.hasSession('bot')).toBe(false);
+		expect(await manager.listSessions()).toEqual([]);
+		expect(await manager.loadSession('bot')).toBeNull();
+		// An expired session is deleted on load
+		expect(await store.load('bot')).toBeNull();
+	} finally {
+		now.mockRestore();
+	}
+})
+
+test('session cipher round-trips, rotates keys and rejects a wrong key or tampered data', async () => {
+	const session = { cookies: [{ name: 'sid', value: 'secret' }], localStorage: { token: 'abc' } };
+	const passphrase = new SessionCipher({ key: 'current passphrase' });
+	const encrypted = passphrase.encrypt(session);
+	expect(encrypted.salt).toEqual(expect.any(String));
+	expect(JSON.stringify(encrypted)).not.toContain('secret');
+	expect(passphrase.decrypt(encrypted)).toEqual({ sessionData: session, rotated: false });
+	// Each cipher salts its passphrase, the same passphrase still decrypts
+	expect(new SessionCipher({ key: 'current passphrase' }).encrypt(session).salt).not.toBe(encrypted.salt);
+	expect(new SessionCipher({ key: 'current passphrase' }).decrypt(encrypted).sessionData).toEqual(session);
+
+	const raw = Buffer.alloc(32, 7);
+	const buffered = new SessionCipher({ key: raw }).encrypt(session);
+	expect(buffered.salt).toBeUndefined();
+	expect(() => new SessionCipher({ key: Buffer.alloc(16) })).toThrow(RangeError);
+
+	// Rotation: the previous key still decrypts and reports the payload for re-encryption
+	const rotatedCipher = new SessionCipher({ key: 'next passphrase', previousKeys: [raw, 'current passphrase'] });
+	expect(rotatedCipher.decrypt(encrypted)).toEqual({ sessionData: session, rotated: true });
+	expect(rotatedCipher.decrypt(buffered)).toEqual({ sessionData: session, rotated: true });
+
+	expect(() => new SessionCipher({ key: 'wrong passphrase' }).decrypt(encrypted)).toThrow(SessionDecryptionError);
+	const data = Buffer.from(encrypted.data, 'base64');
+	data[0] = data[0]! ^ 1;
+	expect(() => passphrase.decrypt({ ...encrypted, data: data.toString('base64') })).toThrow(SessionDecryptionError);
+
+	// The manager re-encrypts sessions found under a previous key
+	const store = new MemorySessionStore();
+	await new SessionManager({ store, encryption: { key: 'current passphrase' } }).saveSession('bot', session);
+	const manager = new SessionManager({ store, encryption: { key: 'next passphrase', previousKeys: ['current passphrase'] } });
+	expect(await manager.loadSession('bot')).toEqual(session);
+	await expect(new SessionManager({ store, encryption: { key: 'current passphrase' } }).loadSession('bot')).rejects.toBeInstanceOf(SessionDecryptionError);
+	expect(await new SessionManager({ store, encryption: { key: 'next passphrase' } }).loadSession('bot')).toEqual(session);
+
+	// An existing, too open session directory is tightened on save
+	const rootDir = join(await mkdtemp(join(tmpdir(), 'felinto-sessions-')), 'sessions');
+	try {
+		await mkdir(rootDir, { mode: 0o755 });
+		await chmod(rootDir, 0o755);
+		await new FileSystemSessionStore({ rootDir }).save('bot', { userDataDir: 'bot', timestamp: 1, sessionData: {} });
+		expect((await stat(rootDir)).mode & 0o777).toBe(0o700);
+		expect((await stat(join(rootDir, 'bot.json'))).mode & 0o777).toBe(0o600);
+	} finally {
+		await rm(join(rootDir, '..'), { recursive: true, force: true });
+	}
+})
+
+test('file system session store removes the legacy file of a session it saves or deletes', async () => {
+	const rootDir = await mkdtemp(join(tmpdir(), 'felinto-sessions-'));
+	try {
+		const store = new FileSystemSessionStore({ rootDir });
+		// Written under the filename used before names were URI encoded
+		await writeFile(join(rootDir, 'my_bot.json'), JSON.stringify({ userDataDir: 'my/bot', timestamp: 1, sessionData: { stale: true } }));
+		expect(await store.list()).toHaveLength(1);
+
+		await store.save('my/bot', { userDataDir: 'my/bot', timestamp: 2, sessionData: {} });
+		expect(await store.list()).toEqual([{ userDataDir: 'my/bot', timestamp: 2, sessionData: {} }]);
+
+		expect(await store.delete('my/bot')).toBe(true);
+		expect(await store.load('my/bot')).toBeNull();
+		expect(await store.list()).toEqual([]);
+
+		// A legacy file left next to the current one is deleted along with it
+		await store.save('my/bot', { userDataDir: 'my/bot', timestamp: 3, sessionData: {} });
+		await writeFile(join(rootDir, 'my_bot.json'), JSON.stringify({ userDataDir: 'my/bot', timestamp: 1, sessionData: { stale: true } }));
+		expect(await store.list()).toEqual([{ userDataDir: 'my/bot', timestamp: 3, sessionData: {} }]);
+		expect(await store.delete('my/bot')).toBe(true);
+		expect(await store.load('my/bot')).toBeNull();
+	} finally {
+		await rm(rootDir, { recursive: true, force: true });
+	}
+})
+
+test('file system profile store tightens an existing directory and writes owner-only files', async () => {
+	const rootDir = join(await mkdtemp(join(tmpdir(), 'felinto-profiles-')), 'profiles');
+	try {
+		await mkdir(rootDir, { mode: 0o755 });
+		await chmod(rootDir, 0o755);
+		await new FileSystemProfileStore({ rootDir }).save({ name: 'buyer', proxy: { server: 'http://proxy.test:8080', username: 'user', password: 'secret' }, createdAt: 1, updatedAt: 1 });
+		expect((await stat(rootDir)).mode & 0o777).toBe(0o700);
+		expect((await stat(join(rootDir, 'buyer.json'))).mode & 0o777).toBe(0o600);
+	} finally {
+		await rm(join(rootDir, '..'), { recursive: true, force: true });
+	}
+})
+
+test('migrateSessionData upgrades v0 data scoped to its url origin and restore failures keep their cause', async () => {
+	const cookies = [{ name: 'sid', value: '1', domain: '.shop.test' }];
+	const migrated = migrateSessionData({
+		cookies,
+		localStorage: { cart: '3' },
+		sessionStorage: { step: '2' },
+		url: 'https://shop.test/checkout?step=2',
+		timestamp: 1700000000000,
+	});
+	expect(migrated).toEqual({
+		version: 1,
+		timestamp: 1700000000000,
+		url: 'https://shop.test/checkout?step=2',
+		cookies,
+		origins: [{ origin: 'https://shop.test', localStorage: { cart: '3' }, sessionStorage: { step: '2' }, indexedDB: [], caches: [] }],
+	});
+	// Snapshots pass through untouched
+	expect(migrateSessionData(migrated)).toBe(migrated);
+
+	// Without a usable url the storage belongs to whatever origin the page is on
+	expect(migrateSessionData({ localStorage: { a: '1' }, url: 'not a url' }).origins).toEqual([
+		{ origin: '', localStorage: { a: '1' }, sessionStorage: {}, indexedDB: [], caches: [] },
+	]);
+	expect(migrateSessionData({ localStorage: { a: '1' } }).url).toBeUndefined();
+	expect(migrateSessionData({ cookies }).origins).toEqual([]);
+
+	const failure = new Error('Protocol error (Network.setCookies): Target closed');
+	const page = {
+		url: () => 'https://shop.test/',
+		setCookie: jest.fn(async () => { throw failure; }),
+	} as unknown as ExtendedPage;
+	const error = await SessionDataApplier.applySessionSnapshot(page, migrated).catch(caught => caught);
+	expect(error).toBeInstanceOf(SessionRestoreError);
+	expect(error.cause).toBe(failure);
+	expect(error.context).toMatchObject({ url: 'https://shop.test/' });
+})
+
+test('session snapshots restore v0 storage without a url on the first navigation and skip blocked IndexedDB databases', async () => {
+	// Saved without a url, restored on about:blank: the storage waits for the first real document
+	let currentUrl = 'about:blank';
+	const mainFrame = { url: () => currentUrl };
+	const evaluateOnNewDocument = jest.fn(async () => ({ identifier: 'storage-1' }));
+	const removeScriptToEvaluateOnNewDocument = jest.fn(async () => undefined);
+	const blankPage = Object.assign(new EventEmitter(), {
+		url: () => currentUrl,
+		mainFrame: () => mainFrame,
+		evaluateOnNewDocument,
+		removeScriptToEvaluateOnNewDocument,
+	}) as unknown as ExtendedPage;
+
+	await SessionDataApplier.applySessionSnapshot(blankPage, migrateSessionData({ localStorage: { cart: '3' }, sessionStorage: { step: '2' } }));
+	expect(evaluateOnNewDocument).toHaveBeenCalledWith(expect.any(Function), { cart: '3' }, { step: '2' });
+
+	blankPage.emit('framenavigated', { url: () => 'about:blank' } as never);
+	blankPage.emit('framenavigated', mainFrame as never);
+	expect(removeScriptToEvaluateOnNewDocument).not.toHaveBeenCalled();
+	currentUrl = 'https://shop.test/';
+	blankPage.emit('framenavigated', mainFrame as never);
+	blankPage.emit('framenavigated', mainFrame as never);
+	expect(removeScriptToEvaluateOnNewDocument).toHaveBeenCalledTimes(1);
+	expect(removeScriptToEvaluateOnNewDocument).toHaveBeenCalledWith('storage-1');
+
+	// A database held open elsewhere is reported instead of hanging the restore
+	const warnings: string[] = [];
+	const logger: Logger = { debug: () => undefined, info: () => undefined, warn: (_fields, message) => warnings.push(message), error: () => undefined };
+	const evaluate = jest.fn(async (..._args: unknown[]): Promise<unknown> => undefined).mockResolvedValueOnce(undefined).mockResolvedValueOnce(['app']);
+	const shopPage = {
+		url: () => 'https://shop.test/',
+		logger,
+		mainFrame: () => ({ url: () => 'https://shop.test/', evaluate }),
+	} as unknown as ExtendedPage;
+	await SessionDataApplier.applySessionSnapshot(shopPage, {
+		version: 1,
+		timestamp: 1,
+		cookies: [],
+		origins: [{
+			origin: 'https://shop.test',
+			localStorage: {},
+			sessionStorage: {},
+			indexedDB: [{ name: 'app', version: 1, stores: [] }],
+			caches: [],
+		}],
+	});
+	expect(evaluate).toHaveBeenCalledTimes(2);
+	expect(warnings).toEqual(['IndexedDB database "app" is open in another tab, it was not restored']);
+})
+
+test('session plugin restores before the first goto, emits its events and restores new origins', async () => {
+	const calls: string[] = [];
+	let currentUrl = 'https://shop.test/';
+	const fakePage = (): ExtendedPage => Object.assign(new EventEmitter(), {
+		url: () => currentUrl,
+		goto: jest.fn(async (url: string) => {
+			calls.push(`goto ${url}`);
+			currentUrl = url;
+			return null;
+		}),
+		close: jest.fn(async () => {
+			calls.push('close');
+		}),
+		setCookie: jest.fn(async (...cookies: CookieParam[]) => {
+			calls.push(`setCookie ${cookies.map(cookie => cookie.name).join(',')}`);
+		}),
+		mainFrame: () => ({
+			evaluate: jest.fn(async (_fn: unknown, localData: Record<string, string>) => {
+				calls.push(`storage ${new URL(currentUrl).origin} ${JSON.stringify(localData)}`);
+			}),
+		}),
+		frames: () => [],
+		// Other origins are restored through a helper page of the same context
+		browserContext: () => ({
+			newPage: async () => {
+				let helperUrl = 'about:blank';
+				return {
+					setRequestInterception: async () => undefined,
+					on: () => undefined,
+					goto: async (url: string) => { helperUrl = url; },
+					mainFrame: () => ({
+						evaluate: async (_fn: unknown, localData: Record<string, string>) => {
+							calls.push(`helper storage ${new URL(helperUrl).origin} ${JSON.stringify(localData)}`);
+						},
+					}),
+					close: async () => undefined,
+				};
+			},
+		}),
+		target: () => ({
+			createCDPSession: async () => ({
+				send: async () => ({ cookies: [{ name: 'sid', value: '2', domain: '.shop.test' }] }),
+				detach: async () => undefined,
+			}),
+		}),
+	}) as unknown as ExtendedPage;
+
+	const store = new MemorySessionStore();
+	const sessionManager = new SessionManager({ store });
+	await sessionManager.saveSession('shopper', {
+		version: 1,
+		timestamp: 1,
+		cookies: [{ name: 'sid', value: '1', domain: '.shop.test' }],
+		origins: [{ origin: 'https://account.test', localStorage: { token: 'abc' }, sessionStorage: {}, indexedDB: [], caches: [] }],
+	});
+
+	// The stored session loads slowly: pageCreated, and so newPage's first goto, waits for it
+	let finishLoad!: () => void;
+	const load = store.load.bind(store);
+	jest.spyOn(store, 'load').mockImplementationOnce(async userDataDir => {
+		await new Promise<void>(resolve => { finishLoad = resolve; });
+		return load(userDataDir);
+	});
+
+	const plugins = new PluginManager([sessionPlugin({ userDataDir: 'shopper', sessionManager, restoreOnNewOrigin: true })]);
+	const page = fakePage();
+	const restored: unknown[] = [];
+	const saved: unknown[] = [];
+	page.on('session:restored', event => restored.push(event));
+	page.on('session:saved', event => saved.push(event));
+
+	let created = false;
+	const creating = plugins.pageCreated(page, {} as never, {}).then(result => {
+		created = true;
+		return result;
+	});
+	await new Promise(resolve => setTimeout(resolve, 10));
+	expect(created).toBe(false);
+	expect(calls).toEqual([]);
+	finishLoad();
+	const sessionPage = plugins.attach(await creating) as SessionEnabledPage;
+	await sessionPage.goto('https://shop.test/cart');
+	expect(calls).toEqual(['setCookie sid', 'helper storage https://account.test {"token":"abc"}', 'goto https://shop.test/cart']);
+	await expect(sessionPage.waitForSessionRestore()).resolves.toBe(true);
+	expect(restored[0]).toEqual({ userDataDir: 'shopper' });
+
+	// restoreOnNewOrigin applies the stored storage of an origin the first time it is reached
+	calls.length = 0;
+	await sessionPage.goto('https://account.test/');
+	await sessionPage.goto('https://account.test/profile');
+	expect(calls).toEqual([
+		'goto https://account.test/',
+		'storage https://account.test {"token":"abc"}',
+		'goto https://account.test/profile',
+	]);
+	expect(restored).toContainEqual({ userDataDir: 'shopper', origin: 'https://account.test' });
+
+	// Closing saves the session
+	await sessionPage.close();
+	expect(saved).toEqual([{ userDataDir: 'shopper' }]);
+	expect((await sessionManager.loadSession('shopper')).cookies).toEqual([{ name: 'sid', value: '2', domain: '.shop.test' }]);
+
+	// A failed restore rejects waitForSessionRestore, emits session:error and is logged
+	const warnings: string[] = [];
+	const logger: Logger = { debug: () => undefined, info: () => undefined, warn: (_fields, message) => warnings.push(message), error: () => undefined };
+	await new SessionManager({ store, encryption: { key: 'secret' } }).saveSession('locked', { cookies: [] });
+	const failing = new PluginManager([sessionPlugin({ userDataDir: 'locked', sessionManager })], logger);
+	const lockedPage = fakePage();
+	const errors: Array<{ operation: string; error: Error }> = [];
+	lockedPage.on('session:error', event => errors.push(event));
+	const locked = await failing.pageCreated(lockedPage, {} as never, {}) as SessionEnabledPage;
+	await expect(locked.waitForSessionRestore()).rejects.toBeInstanceOf(SessionDecryptionError);
+	expect(errors).toEqual([expect.objectContaining({ operation: 'restore', error: expect.any(SessionDecryptionError) })]);
+	expect(warnings).toEqual(['Continuing without the stored session "locked"']);
+})
+
+test('profile manager creates, lists, clones and deletes profiles and fills newPage params', async () => {
+	const sessionManager = new SessionManager({ store: new MemorySessionStore() });
+	const profiles = new ProfileManager({ store: new MemoryProfileStore(), sessionManager });
+
+	const created = await profiles.createProfile('seller', {
+		userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0',
+		locale: 'pt-BR',
+		timezoneId: 'America/Sao_Paulo',
+		viewport: { width: 1366, height: 768 },
+	});
+	expect(created).toMatchObject({ name: 'seller', locale: 'pt-BR', createdAt: expect.any(Number) });
+	await profiles.createProfile('buyer');
+	await expect(profiles.createProfile('seller')).rejects.toBeInstanceOf(ProfileError);
+	expect((await profiles.listProfiles()).map(profile => profile.name)).toEqual(['buyer', 'seller']);
+
+	// Explicit params win over the profile, the rest comes from it
+	const params = await profiles.resolvePageParams('seller', { locale: 'en-US', initialUrl: 'https://shop.test/' });
+	expect(params).toMatchObject({
+		initialUrl: 'https://shop.test/',
+		locale: 'en-US',
+		timezoneId: 'America/Sao_Paulo',
+		userAgent: created.userAgent,
+		viewport: { width: 1366, height: 768 },
+		userDataDir: 'profile:seller',
+	});
+	expect(params.sessionManager).toBe(sessionManager);
+	expect((await profiles.resolvePageParams('seller', { userDataDir: 'custom' })).userDataDir).toBe('custom');
+
+	// A clone copies the settings and the session data
+	await sessionManager.saveSession(ProfileManager.getSessionKey('seller'), { cookies: [{ name: 'sid', value: '1' }] });
+	const clone = await profiles.cloneProfile('seller', 'seller-2', { locale: 'es-ES' });
+	expect(clone).toMatchObject({ name: 'seller-2', locale: 'es-ES', timezoneId: 'America/Sao_Paulo' });
+	expect(await sessionManager.loadSession('profile:seller-2')).toEqual({ cookies: [{ name: 'sid', value: '1' }] });
+
+	expect(await profiles.deleteProfile('seller')).toBe(true);
+	expect(await profiles.getProfile('seller')).toBeNull();
+	expect(await sessionManager.hasSession('profile:seller')).toBe(false);
+	expect(await profiles.deleteProfile('seller')).toBe(false);
+
+	await expect(profiles.resolvePageParams('seller', {})).rejects.toMatchObject({ code: ProfileError.code, message: 'Profile "seller" not found.' });
+	await expect(profiles.updateProfile('missing', { locale: 'pt-BR' })).rejects.toBeInstanceOf(ProfileError);
+	await expect(profiles.cloneProfile('missing', 'other')).rejects.toBeInstanceOf(ProfileError);
+})
+
+test('proxy pool rotates, sticks per key, quarantines failing proxies and breaks ties round-robin', async () => {
+	const proxies: ProxyConfig[] = [{ server: 'http://p1:8080' }, { server: 'http://p2:8080' }, { server: 'http://p3:8080' }];
+	const servers = (pool: ProxyPool, count: number, stickyKey?: string) =>
+		Array.from({ length: count }, () => pool.acquire({ stickyKey }).server);
+
+	expect(servers(new ProxyPool({ proxies, strategy: 'static' }), 3)).toEqual(['http://p1:8080', 'http://p1:8080', 'http://p1:8080']);
+	expect(servers(new ProxyPool({ proxies }), 4)).toEqual(['http://p1:8080', 'http://p2:8080', 'http://p3:8080', 'http://p1:8080']);
+
+	// A fresh least-failures pool spreads the pages instead of always picking the first proxy
+	const least = new ProxyPool({ proxies, strategy: 'least-failures' });
+	expect(servers(least, 3)).toEqual(['http://p1:8080', 'http://p2:8080', 'http://p3:8080']);
+	least.reportFailure(proxies[0]!, new Error('ECONNRESET'));
+	least.reportFailure(proxies[1]!, new Error('ECONNRESET'));
+	expect(servers(least, 2)).toEqual(['http://p3:8080', 'http://p3:8080']);
+
+	const sticky = new ProxyPool({ proxies, strategy: 'sticky', maxFailures: 2 });
+	const first = sticky.acquire({ stickyKey: 'account-a' });
+	const second = sticky.acquire({ stickyKey: 'account-b' });
+	expect(second.server).not.toBe(first.server);
+	expect(servers(sticky, 2, 'account-a')).toEqual([first.server, first.server]);
+
+	// Consecutive failures quarantine the proxy, the key moves to a healthy one until the cooldown ends
+	const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+	try {
+		sticky.reportFailure(first, new Error('net::ERR_PROXY_CONNECTION_FAILED'));
+		expect(sticky.acquire({ stickyKey: 'account-a' })).toBe(first);
+		sticky.reportFailure(first, new Error('net::ERR_PROXY_CONNECTION_FAILED'));
+		expect(sticky.stats().find(health => health.server === first.server)).toMatchObject({
+			failures: 2,
+			consecutiveFailures: 2,
+			quarantinedUntil: 1000 + 5 * 60 * 1000,
+			lastError: 'net::ERR_PROXY_CONNECTION_FAILED',
+		});
+		const moved = sticky.acquire({ stickyKey: 'account-a' });
+		expect(moved).not.toBe(first);
+		expect(sticky.acquire({ stickyKey: 'account-a' })).toBe(moved);
+
+		now.mockReturnValue(1000 + 5 * 60 * 1000);
+		expect(sticky.stats().find(health => health.server === first.server)!.quarantinedUntil! <= Date.now()).toBe(true);
+		sticky.reportSuccess(first);
+		expect(sticky.stats().find(health => health.server === first.server)).toMatchObject({ successes: 1, consecutiveFailures: 0, quarantinedUntil: undefined });
+
+		const single = new ProxyPool({ proxies: [{ server: 'http://only:8080' }], maxFailures: 1, quarantineTime: 100 });
+		single.reportFailure({ server: 'http://only:8080' }, new Error('407'));
+		expect(() => single.acquire()).toThrow(ProxyError);
+		now.mockReturnValue(1000 + 5 * 60 * 1000 + 100);
+		expect(single.acquire().server).toBe('http://only:8080');
+	} finally {
+		now.mockRestore();
+	}
+	expect(() => new ProxyPool({ proxies: [] })).toThrow(ProxyError);
+
+	// context: false keeps the page in the shared context and only authenticates
+	const page = Object.assign(new EventEmitter(), { authenticate: jest.fn(async () => undefined) });
+	const browser = { newPage: jest.fn(async () => page), createBrowserContext: jest.fn() };
+	await PageConfigurator.createAndConfigurePage(browser as never, {
+		proxy: { server: 'http://browser-proxy:8080', username: 'acme', password: 'secret', context: false },
+	});
+	expect(browser.createBrowserContext).not.toHaveBeenCalled();
+	expect(page.authenticate).toHaveBeenCalledWith({ username: 'acme', password: 'secret' });
+})
+
+test('newPage reports the proxy after later main frame navigations succeed or fail', async () => {
+	const mainFrame = {};
+	const page = Object.assign(new EventEmitter(), {
+		url: () => 'https://shop.test/',
+		mainFrame: () => mainFrame,
+		close: jest.fn(async () => undefined),
+	});
+	const browser = { process: () => null, disconnect: jest.fn(async () => undefined), close: jest.fn(async () => undefined) };
+	const createBrowser = jest.spyOn(BrowserFactory, 'createBrowser').mockResolvedValue(browser as never);
+	const createPage = jest.spyOn(PageConfigurator, 'createAndConfigurePage').mockResolvedValue(page as never);
+	const proxies = new ProxyPool({ proxies: [{ server: 'http://p1:8080' }] });
+	const nodeEnv = process.env.NODE_ENV;
+	process.env.NODE_ENV = 'development';
+
+	const response = (status: number, frame: object, navigation = true) => ({
+		status: () => status,
+		url: () => 'https://shop.test/',
+		request: () => ({ isNavigationRequest: () => navigation, frame: () => frame }),
+	});
+	try {
+		await newPage({ browserWSEndpoint: 'ws://browser.test:3000', proxyProvider: proxies });
+		page.emit('response', response(200, mainFrame));
+		page.emit('response', response(302, mainFrame));
+		// Subframes, subresources and server errors say nothing about the proxy working
+		page.emit('response', response(200, {}));
+		page.emit('response', response(200, mainFrame, false));
+		page.emit('response', response(502, mainFrame));
+		expect(proxies.stats()[0]).toMatchObject({ successes: 2, failures: 0 });
+
+		page.emit('response', response(407, mainFrame));
+		expect(proxies.stats()[0]).toMatchObject({ successes: 2, failures: 1, lastError: 'Proxy authentication required' });
+	} finally {
+		process.env.NODE_ENV = nodeEnv;
+		createBrowser.mockRestore();
+		createPage.mockRestore();
+	}
+})
+
+test('http client syncs cookies, follows redirects by status and drops custom headers across origins', async () => {
+	const handler = (request: import('http').IncomingMessage, response: import('http').ServerResponse) => {
+		let body = '';
+		request.on('data', chunk => body += chunk);
+		request.on('end', () => {
+			const { pathname } = new URL(request.url!, 'http://localhost');
+			if (pathname === '/login') {
+				response.setHeader('set-cookie', ['sid=abc; Path=/; HttpOnly']);
+				return response.end('ok');
+			}
+			if (pathname === '/found' || pathname === '/temporary') {
+				response.writeHead(pathname === '/found' ? 302 : 307, { location: '/echo' });
+				return response.end();
+			}
+			if (pathname === '/away') {
+				response.writeHead(302, { location: `${otherUrl}/echo` });
+				return response.end();
+			}
+			response.setHeader('content-type', 'application/json');
+			response.end(JSON.stringify({ method: request.method, headers: request.headers, body }));
+		});
+	};
+	const server = createServer(handler);
+	const other = createServer(handler);
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	await new Promise<void>(resolve => other.listen(0, '127.0.0.1', resolve));
+	const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	const otherUrl = `http://127.0.0.1:${(other.address() as AddressInfo).port}`;
+
+	const jar: CookieParam[] = [];
+	const page = {
+		url: () => 'about:blank',
+		evaluate: jest.fn(async () => 'TestAgent/1.0'),
+		cookies: jest.fn(async () => jar),
+		setCookie: jest.fn(async (...cookies: CookieParam[]) => {
+			jar.push(...cookies);
+		}),
+		deleteCookie: jest.fn(async () => undefined),
+	};
+
+	try {
+		const http = createHttpClient(page as never, { extraHeaders: { 'x-api-key': 'secret' } });
+
+		const login = await http.fetch(`${baseUrl}/login`);
+		expect(login.setCookies).toEqual(['sid=abc; Path=/; HttpOnly']);
+		expect(jar.map(cookie => [cookie.name, cookie.value])).toEqual([['sid', 'abc']]);
+
+		const echoed = await (await http.fetch(`${baseUrl}/echo`)).json();
+		expect(echoed.headers).toMatchObject({ 'cookie': 'sid=abc', 'user-agent': 'TestAgent/1.0', 'x-api-key': 'secret' });
+
+		// 302 turns a POST into a GET without body, 307 keeps both
+		const found = await http.fetch(`${baseUrl}/found`, { method: 'POST', body: 'a=1' });
+		expect(found).toMatchObject({ status: 200, redirected: true, url: `${baseUrl}/echo` });
+		await expect(found.json()).resolves.toMatchObject({ method: 'GET', body: '' });
+		await expect((await http.fetch(`${baseUrl}/temporary`, { method: 'POST', body: 'a=1' })).json())
+			.resolves.toMatchObject({ method: 'POST', body: 'a=1' });
+
+		const manual = await http.fetch(`${baseUrl}/found`, { redirect: 'manual' });
+		expect(manual).toMatchObject({ status: 302, headers: { location: '/echo' } });
+
+		// Credentials meant for the first origin stay there
+		const controller = new AbortController();
+		const away = await (await http.fetch(`${baseUrl}/away`, {
+			headers: { authorization: 'Bearer token' },
+			signal: controller.signal,
+		})).json();
+		expect(away.headers['authorization']).toBeUndefined();
+		expect(away.headers['x-api-key']).toBeUndefined();
+		expect(away.headers['user-agent']).toBe('TestAgent/1.0');
+		expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+	} finally {
+		await new Promise(resolve => server.close(resolve));
+		await new Promise(resolve => other.close(resolve));
+	}
+})
+
+test('page configurator emulates device, locale, timezone and geolocation and scopes permission grants', async () => {
+	const pageSends: Array<[string, unknown]> = [];
+	const browserSends: Array<[string, unknown]> = [];
+	// Both sessions in call order, to check a paused document waits for its grant
+	const calls: string[] = [];
+	const defaultContext = { id: undefined };
+	const ownContext = { id: 'context-1' };
+	const browser = {
+		version: async () => 'HeadlessChrome/127.0.6533.88',
+		userAgent: async () => 'HeadlessChrome',
+		defaultBrowserContext: () => defaultContext,
+		target: () => ({
+			createCDPSession: async () => ({
+				send: async (method: string, params: Record<string, unknown>) => {
+					browserSends.push([method, params]);
+					calls.push(`${method} ${params.origin}`);
+				},
+				detach: async () => undefined,
+			}),
+		}),
+	};
+	const pageSessions: EventEmitter[] = [];
+	const pageIn = (context: object) => Object.assign(new EventEmitter(), {
+		browser: () => browser,
+		browserContext: () => context,
+		target: () => ({
+			createCDPSession: async () => {
+				const session = Object.assign(new EventEmitter(), {
+					send: async (method: string, params?: Record<string, unknown>) => {
+						pageSends.push([method, params]);
+						calls.push(`${method}${params?.requestId ? ` ${params.requestId}` : ''}`);
+						return method === 'Page.getFrameTree' ? { frameTree: { frame: { id: 'main' } } } : undefined;
+					},
+				});
+				pageSessions.push(session);
+				return session;
+			},
+		}),
+		setUserAgent: jest.fn(async () => undefined),
+		setViewport: jest.fn(async () => undefined),
+		emulateTimezone: jest.fn(async () => undefined),
+		setGeolocation: jest.fn(async () => undefined),
+	}) as unknown as ExtendedPage & { setUserAgent: jest.Mock; setViewport: jest.Mock; emulateTimezone: jest.Mock; setGeolocation: jest.Mock };
+	const navigate = (requestId: string, url: string, frameId = 'main') =>
+		pageSessions.forEach(session => session.emit('Fetch.requestPaused', { requestId, request: { url }, frameId }));
+
+	const phone = pageIn(defaultContext);
+	await PageConfigurator.configurePage(phone, browser as never, {
+		device: 'iPhone 13',
+		locale: 'pt-BR',
+		timezoneId: 'America/Sao_Paulo',
+		geolocation: { latitude: -23.5, longitude: -46.6 },
+		permissions: ['notifications', 'camera', 'clipboard-read', 'clipboard-write'],
+	});
+	expect(phone.setUserAgent).toHaveBeenCalledWith(expect.stringContaining('iPhone'));
+	expect(phone.setViewport).toHaveBeenCalledWith(expect.objectContaining({ width: 390, isMobile: true }));
+	expect(pageSends).toEqual([
+		['Emulation.setLocaleOverride', { locale: 'pt-BR' }],
+		['Network.setUserAgentOverride', { userAgent: expect.stringContaining('iPhone'), acceptLanguage: 'pt-BR' }],
+		['Page.getFrameTree', undefined],
+		['Fetch.enable', { patterns: [{ resourceType: 'Document', requestStage: 'Request' }] }],
+	]);
+	expect(phone.emulateTimezone).toHaveBeenCalledWith('America/Sao_Paulo');
+	expect(phone.setGeolocation).toHaveBeenCalledWith({ latitude: -23.5, longitude: -46.6 });
+
+	// The default context is shared, grants wait for the origins this page navigates to
+	// and each main frame document is held until its origin is granted
+	expect(browserSends).toEqual([]);
+	calls.length = 0;
+	navigate('1', 'https://maps.example.com/route');
+	await new Promise(resolve => setImmediate(resolve));
+	navigate('2', 'https://maps.example.com/other');
+	navigate('3', 'https://ads.example.com/frame', 'frame-2');
+	navigate('4', 'about:blank');
+	await new Promise(resolve => setImmediate(resolve));
+	expect(browserSends).toEqual([['Browser.grantPermissions', {
+		permissions: ['notifications', 'videoCapture', 'clipboardReadWrite', 'geolocation'],
+		browserContextId: undefined,
+		origin: 'https://maps.example.com',
+	}]]);
+	expect(calls).toEqual([
+		'Browser.grantPermissions https://maps.example.com',
+		'Fetch.continueRequest 1',
+		'Fetch.continueRequest 2',
+		'Fetch.continueRequest 3',
+		'Fetch.continueRequest 4',
+	]);
+
+	// An own context is granted as a whole, an explicit viewport wins over the device
+	const isolated = pageIn(ownContext);
+	await PageConfigurator.configurePage(isolated, browser as never, {
+		device: 'iPhone 13',
+		viewport: { width: 800, height: 600 },
+		permissions: ['microphone'],
+	});
+	expect(isolated.setViewport).toHaveBeenCalledWith({ width: 800, height: 600 });
+	expect(browserSends[1]).toEqual(['Browser.grantPermissions', { permissions: ['audioCapture'], browserContextId: 'context-1', origin: undefined }]);
+
+	await expect(PageConfigurator.configurePage(pageIn(ownContext), browser as never, { device: 'Nokia 3310' as never }))
+		.rejects.toThrow(PageCreationError);
+})
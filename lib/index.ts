@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import {
 	Browser,
 	Page,
@@ -9,72 +10,314 @@ import {
 	PageCreationError,
 	NavigationError,
 	AuthenticationError,
+	ProxyError,
+	FelintoError,
+	PROXY_NET_ERRORS,
 } from './utils/custom-errors';
 import { BrowserFactory } from './utils/browser-factory';
-import { PageConfigurator } from './utils/page-configurator';
+import { PageConfigurator, PageSettings } from './utils/page-configurator';
 import { validateEnvironmentVariables } from './utils/validate-environment-variables';
 import {
 	SessionManager,
-	SessionPageExtender,
+	sessionPlugin,
 } from './session';
+import { BrowserLease } from './pool';
+import { ProfileManager } from './profile';
+import { ProxyConfig, ProxyProvider } from './proxy';
+import { TwoCaptchaSolver, captchaPlugin } from './captcha';
+import { FelintoPlugin, PluginManager, PluginPhase } from './plugins';
+import { harPlugin } from './har';
+import { filesPlugin } from './files';
+import { TabManager } from './tabs';
+import { RunWorkflowOptions, WorkflowDefinition, WorkflowResult, WorkflowRunner } from './workflow';
+import { CrawlOptions, CrawlResult, Crawler } from './crawl';
+import { BLOCK_RESOURCES_RULE, requestInterceptionPlugin } from './utils/request-interceptor';
 import { ExtendedPage, NewPageParams } from './types';
+import { Logger, childLogger, defaultLogger } from './utils/logger';
+import { RetryPolicy } from './utils/retry-mechanism';
 
 // Export utilities and error classes
 export * from './utils';
 export * from './session';
+export * from './pool';
+export * from './profile';
+export * from './proxy';
+export * from './http';
+export * from './stealth';
+export * from './captcha';
+export * from './plugins';
+export * from './har';
+export * from './files';
+export * from './tabs';
+export * from './workflow';
+export * from './extract';
+export * from './crawl';
 export * from './types';
 
+/**
+ * Report proxy failures and successful main frame navigations seen after newPage
+ * returns, so the provider also learns from navigations made by the caller
+ */
+const trackProxyHealth = (page: ExtendedPage, provider: ProxyProvider, proxy: ProxyConfig, logger: Logger) => {
+	page.on('requestfailed', request => {
+		const errorText = request.failure()?.errorText;
+		if (request.isNavigationRequest() && errorText && PROXY_NET_ERRORS.test(errorText)) {
+			const error = new ProxyError(`Proxy request failed: ${errorText}`, undefined, {
+				context: { url: request.url(), proxy: proxy.server },
+			});
+			logger.warn({ operation: 'proxy', url: request.url(), proxy: proxy.server, err: error }, error.message);
+			provider.reportFailure(proxy, error);
+		}
+	});
+	page.on('response', response => {
+		const request = response.request();
+		if (!request.isNavigationRequest()) {
+			return;
+		}
+		if (response.status() === 407) {
+			const error = new AuthenticationError('Proxy authentication required', undefined, {
+				context: { url: response.url(), proxy: proxy.server },
+			});
+			logger.warn({ operation: 'proxy', url: response.url(), proxy: proxy.server, err: error }, error.message);
+			provider.reportFailure(proxy, error);
+		} else if (response.status() < 400 && request.frame() === page.mainFrame()) {
+			provider.reportSuccess(proxy);
+		}
+	});
+};
+
+/**
+ * Plugins implementing the HAR, downloads, interception, captcha and session options of newPage
+ */
+const builtinPlugins = (params: NewPageParams): FelintoPlugin[] => {
+	// Always present so page.startHar() works, it records from the start only with params.har
+	const plugins: FelintoPlugin[] = [harPlugin(params.har), filesPlugin(params.downloads)];
+
+	// blockResources is kept as a shorthand, explicit rules are matched first
+	const rules = [...(params.interception || []), ...(params.blockResources ? [BLOCK_RESOURCES_RULE] : [])];
+	if (rules.length > 0) {
+		plugins.push(requestInterceptionPlugin(rules));
+	}
+
+	const captchaKey = params.twoCaptchaKey || process.env.TWO_CAPTCHA_KEY;
+	const captchaSolver = params.captchaSolver ?? (captchaKey ? new TwoCaptchaSolver({ apiKey: captchaKey }) : undefined);
+	if (captchaSolver) {
+		plugins.push(captchaPlugin(captchaSolver, { twoCaptchaKey: captchaKey }));
+	}
+
+	if (params.userDataDir || params.sessionManager) {
+		const baseSessionManager = params.sessionManager || SessionManager.default;
+		plugins.push(sessionPlugin({
+			// Key used before userDataDir existed, kept so those sessions still load
+			userDataDir: params.userDataDir || '/tmp/puppeteer-sessions',
+			sessionManager: params.sessionEncryption
+				? baseSessionManager.withEncryption(params.sessionEncryption)
+				: baseSessionManager,
+			restoreOnNewOrigin: params.restoreSessionOnNewOrigin,
+		}));
+	}
+
+	return plugins;
+};
+
 /**
  * Creates a new browser page with specified configuration
  * @param params Configuration parameters for the page
  * @returns Promise resolving to configured page instance
- * @throws {BrowserConnectionError} When unable to connect to browser
+ * @throws {BrowserConnectionError} When unable to connect to or launch browser
  * @throws {PageCreationError} When unable to create or configure page
- * @throws {NavigationError} When navigation fails
+ * @throws {NavigationError} When navigation fails (NavigationTimeoutError when it timed out)
  * @throws {AuthenticationError} When proxy authentication fails
+ * @throws {ProxyError} When the proxy is unreachable or the provider has no healthy proxy
+ * @throws {ProfileError} When the requested profile does not exist
+ * @throws {PluginError} When a plugin hook fails
  */
 export const newPage = async (
 	params: NewPageParams = {},
 ): Promise<ExtendedPage> => {
-	// Validate environment variables
-	validateEnvironmentVariables({
-		twoCaptchaKey: params.twoCaptchaKey,
-		proxyUsername: params.proxy?.username,
-		proxyPassword: params.proxy?.password,
-	});
+	// Fill identity and session settings from the named profile
+	if (params.profile) {
+		params = await (params.profileManager || ProfileManager.default).resolvePageParams(params.profile, params);
+	}
 
-	const browser = await BrowserFactory.createBrowser({
-		browserWSEndpoint:
-			params.browserWSEndpoint || process.env.CHROME_HEADLESS_WS_URL,
-		slowMo: params.connectOptions?.slowMo,
-		twoCaptchaKey: params.twoCaptchaKey,
-	});
+	// Every entry of this page carries its pageId, retries log through the same logger
+	const logger = childLogger(params.logger ?? defaultLogger(), { pageId: randomUUID() });
+	const plugins = new PluginManager(params.plugins, logger);
 
+	let lease: BrowserLease | undefined;
+	let browser: Browser;
+	let proxyProvider: ProxyProvider | undefined;
+	let retryOptions: RetryPolicy;
 	try {
-		const page = await PageConfigurator.createAndConfigurePage(browser, {
+		params = await plugins.beforeConnect(params);
+
+		// An explicit proxy wins over the provider, sticky selection is keyed by profile or session
+		proxyProvider = params.proxy ? undefined : params.proxyProvider;
+		if (proxyProvider) {
+			params = {
+				...params,
+				proxy: await proxyProvider.acquire({ stickyKey: params.profile ?? params.userDataDir }),
+			};
+		}
+
+		// Validate environment variables
+		validateEnvironmentVariables({
+			twoCaptchaKey: params.twoCaptchaKey,
+			proxyUsername: params.proxy?.username,
+			proxyPassword: params.proxy?.password,
+		});
+
+		retryOptions = { ...params.retryOptions, logger: params.retryOptions?.logger ?? logger };
+
+		// Lease a slot on a pooled browser instead of opening a new connection
+		lease = params.pool ? await params.pool.acquire() : undefined;
+		browser = lease
+			? lease.browser
+			: await BrowserFactory.createBrowser({
+				browserWSEndpoint:
+					params.browserWSEndpoint || process.env.CHROME_HEADLESS_WS_URL,
+				slowMo: params.connectOptions?.slowMo,
+				launch: params.launch,
+				retryOptions,
+			});
+	} catch (error) {
+		logger.error({ operation: 'newPage', err: error }, `Failed to connect: ${(error as Error).message}`);
+		await plugins.onError(error, 'connect');
+		throw error;
+	}
+
+	// Built-in behaviour runs as plugins ahead of the caller's ones
+	plugins.prepend(...builtinPlugins(params));
+
+	let phase: PluginPhase = 'page';
+	let page: ExtendedPage | undefined;
+	try {
+		await plugins.afterConnect(browser, params);
+
+		const settings: PageSettings = {
 			proxy: params.proxy,
 			cookies: params.cookies,
 			userAgent: params.userAgent,
-			blockResources: params.blockResources,
+			stealth: params.stealth,
+			device: params.device,
+			viewport: params.viewport,
+			locale: params.locale,
+			timezoneId: params.timezoneId,
+			geolocation: params.geolocation,
+			permissions: params.permissions,
+			colorScheme: params.colorScheme,
 			extraHeaders: params.extraHeaders,
+			logger,
+		};
+		page = await PageConfigurator.createAndConfigurePage(browser, {
+			...settings,
+			isolation: params.isolation,
 			sessionManager: params.sessionManager,
-			initialUrl: params.initialUrl,
-			navigationOptions: params.navigationOptions,
+			retryOptions,
 		});
+		logger.debug({ operation: 'newPage', proxy: params.proxy?.server, profile: params.profile }, 'Page created');
 
-		// Adiciona a propriedade session ao objeto page
-		if (params.sessionManager) {
-			const sessionPage = SessionPageExtender.extendPageWithSession(page, '/tmp/puppeteer-sessions');
-			return sessionPage as ExtendedPage;
+		if (lease) {
+			const pageLease = lease;
+			page.once('close', () => {
+				pageLease.release();
+			});
 		}
 
-		return page;
+		const resultPage = plugins.attach(await plugins.pageCreated(page, browser, params));
+
+		// Popups get the same settings and plugins, cookies are already shared through the context
+		const tabs = new TabManager(resultPage, async (tab, opener) => {
+			await PageConfigurator.configurePage(tab, browser, { ...settings, cookies: undefined });
+			return plugins.attach(await plugins.pageCreated(tab, browser, params, opener));
+		}, logger);
+		resultPage.tabs = tabs;
+		resultPage.waitForPopup = (action, options) => tabs.waitForPopup(action, options);
+
+		if (params.initialUrl) {
+			phase = 'navigate';
+			await PageConfigurator.navigate(resultPage, params.initialUrl, params.navigationOptions, retryOptions);
+		}
+
+		if (proxyProvider && params.proxy) {
+			if (params.initialUrl) {
+				proxyProvider.reportSuccess(params.proxy);
+			}
+			trackProxyHealth(resultPage, proxyProvider, params.proxy, logger);
+		}
+
+		return resultPage;
 	} catch (error) {
+		if (error instanceof FelintoError && params.proxy && !error.context.proxy) {
+			error.context.proxy = params.proxy.server;
+		}
+
+		logger.error({ operation: 'newPage', url: params.initialUrl, err: error }, `Failed to create page: ${(error as Error).message}`);
+		await plugins.onError(error, phase, { url: params.initialUrl });
+
+		if (proxyProvider && params.proxy && (error instanceof NavigationError || error instanceof AuthenticationError || error instanceof ProxyError)) {
+			proxyProvider.reportFailure(params.proxy, error);
+		}
+
+		// An own context (isolation or proxy) would otherwise outlive the failed page
+		if (page && page.browserContext() !== browser.defaultBrowserContext()) {
+			await page.browserContext().close().catch(() => undefined);
+		}
+
+		if (lease) {
+			await lease.release();
+			throw error;
+		}
+
 		// Ensure browser is closed on page creation failure
 		const pages = await browser.pages();
 		if (pages.length <= 1) { // Only close if it's the last page or no other pages opened by this process
 			await browser.close();
+		} else {
+			// Other pages are still in use, only drop this process' connection
+			await browser.disconnect();
 		}
 		throw error;
 	}
 };
+
+/**
+ * Close a page opened by runWorkflow or crawl. Unless it was leased from a pool, its browser
+ * connection goes too: disconnected, or closed when this process launched the browser.
+ */
+const closeOwnPage = async (page: ExtendedPage, params: NewPageParams): Promise<void> => {
+	await page.close().catch(() => undefined);
+	if (params.pool) {
+		return;
+	}
+	const browser = page.browser();
+	await (browser.process() ? browser.close() : browser.disconnect()).catch(() => undefined);
+};
+
+/**
+ * Run a workflow on options.page, or on a page opened with definition.page and closed once
+ * done (which saves its session). Step failures are reported in the result, not thrown.
+ * @throws When the page cannot be opened
+ */
+export const runWorkflow = async (definition: WorkflowDefinition, options: RunWorkflowOptions = {}): Promise<WorkflowResult> => {
+	const runner = new WorkflowRunner(definition, options);
+	if (options.page) {
+		return runner.run(options.page);
+	}
+
+	const params = definition.page ?? {};
+	const page = await newPage(params);
+	try {
+		return await runner.run(page);
+	} finally {
+		await closeOwnPage(page, params);
+	}
+};
+
+/**
+ * Crawl from the start URLs with `concurrency` pages opened by newPage, following
+ * nextPage, until the queue is empty or maxPages is reached
+ * @throws When a crawling page cannot be opened, a checkpoint keeps the progress
+ */
+export const crawl = <T>(options: CrawlOptions<T>): Promise<CrawlResult<T>> =>
+	new Crawler(options, params => newPage(params), page => closeOwnPage(page, options.page ?? {})).run();
@@ -0,0 +1,88 @@
+import { Browser, GoToOptions, HTTPResponse } from 'puppeteer';
+import { ExtendedPage, NewPageParams } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Step of newPage, or of the page's life, where an error happened
+ */
+export type PluginPhase = 'connect' | 'page' | 'navigate' | 'close';
+
+export type PluginHook =
+	| 'beforeConnect'
+	| 'afterConnect'
+	| 'pageCreated'
+	| 'beforeNavigate'
+	| 'afterNavigate'
+	| 'beforeClose'
+	| 'onError';
+
+type HookResult<T = void> = T | Promise<T>;
+
+interface HookContext {
+	/** Page logger with a `plugin` field */
+	logger: Logger;
+}
+
+export interface BeforeConnectContext extends HookContext {
+	params: NewPageParams;
+}
+
+export interface AfterConnectContext extends HookContext {
+	params: NewPageParams;
+	browser: Browser;
+}
+
+export interface PageCreatedContext extends AfterConnectContext {
+	page: ExtendedPage;
+	/** Set when the page is a popup or tab opened by another page */
+	opener?: ExtendedPage;
+}
+
+export interface BeforeNavigateContext extends HookContext {
+	page: ExtendedPage;
+	/** May be changed, the navigation uses the final value */
+	url: string;
+	/** May be changed, the navigation uses the final value */
+	options: GoToOptions;
+}
+
+export interface AfterNavigateContext extends HookContext {
+	page: ExtendedPage;
+	url: string;
+	response: HTTPResponse | null;
+}
+
+export interface BeforeCloseContext extends HookContext {
+	page: ExtendedPage;
+}
+
+export interface PluginErrorContext extends HookContext {
+	error: Error;
+	phase: PluginPhase;
+	page?: ExtendedPage;
+	url?: string;
+}
+
+/**
+ * Extension receiving the lifecycle hooks of the pages created by newPage. Hooks run
+ * in registration order, built-in plugins (HAR, files, interception, captcha, session) first.
+ * A throwing hook aborts the step, except beforeClose and onError which are only logged.
+ */
+export interface FelintoPlugin {
+	readonly name: string;
+	/** Before the browser is connected. Returned params replace the current ones. */
+	beforeConnect?(context: BeforeConnectContext): HookResult<NewPageParams | void>;
+	afterConnect?(context: AfterConnectContext): HookResult;
+	/**
+	 * Once the page is configured, before the initial navigation, and for every tab it opens.
+	 * A returned page replaces it.
+	 */
+	pageCreated?(context: PageCreatedContext): HookResult<ExtendedPage | void>;
+	/** Before every page.goto, including each retry of the initial navigation */
+	beforeNavigate?(context: BeforeNavigateContext): HookResult;
+	afterNavigate?(context: AfterNavigateContext): HookResult;
+	/** Before page.close, the page is still usable */
+	beforeClose?(context: BeforeCloseContext): HookResult;
+	/** Failures of newPage, page.goto and page.close, each error reported once */
+	onError?(context: PluginErrorContext): HookResult;
+}
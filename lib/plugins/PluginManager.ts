@@ -0,0 +1,155 @@
+import { Browser, GoToOptions } from 'puppeteer';
+import { ExtendedPage, NewPageParams } from '../types';
+import { FelintoError, PluginError } from '../utils/custom-errors';
+import { Logger, childLogger, silentLogger } from '../utils/logger';
+import { FelintoPlugin, PluginHook, PluginPhase } from './FelintoPlugin';
+
+/**
+ * PluginManager - Runs the hooks of a plugin list in order and wires the navigation and
+ * close hooks into a page
+ */
+export class PluginManager {
+	private readonly plugins: FelintoPlugin[];
+	private readonly reported = new WeakSet<object>();
+
+	constructor(plugins: FelintoPlugin[] = [], private readonly logger: Logger = silentLogger) {
+		this.plugins = [...plugins];
+	}
+
+	/**
+	 * Register plugins ahead of the current ones
+	 */
+	prepend(...plugins: FelintoPlugin[]): void {
+		this.plugins.unshift(...plugins);
+	}
+
+	async beforeConnect(params: NewPageParams): Promise<NewPageParams> {
+		let current = params;
+		for (const plugin of this.plugins) {
+			if (!plugin.beforeConnect) continue;
+			const result = await this.call(plugin, 'beforeConnect', logger => plugin.beforeConnect!({ params: current, logger }));
+			if (result) {
+				current = result;
+			}
+		}
+		return current;
+	}
+
+	async afterConnect(browser: Browser, params: NewPageParams): Promise<void> {
+		for (const plugin of this.plugins) {
+			if (!plugin.afterConnect) continue;
+			await this.call(plugin, 'afterConnect', logger => plugin.afterConnect!({ params, browser, logger }));
+		}
+	}
+
+	async pageCreated(page: ExtendedPage, browser: Browser, params: NewPageParams, opener?: ExtendedPage): Promise<ExtendedPage> {
+		let current = page;
+		for (const plugin of this.plugins) {
+			if (!plugin.pageCreated) continue;
+			const result = await this.call(plugin, 'pageCreated', logger => plugin.pageCreated!({ params, browser, page: current, opener, logger }));
+			if (result) {
+				current = result;
+			}
+		}
+		return current;
+	}
+
+	/**
+	 * Wrap page.goto and page.close once so every navigation and the close run the hooks.
+	 * Nothing is wrapped when no plugin needs it.
+	 */
+	attach(page: ExtendedPage): ExtendedPage {
+		if (this.plugins.some(plugin => plugin.beforeNavigate || plugin.afterNavigate || plugin.onError)) {
+			const originalGoto = page.goto;
+			page.goto = async (url: string, options: GoToOptions = {}) => {
+				let target = url;
+				try {
+					for (const plugin of this.plugins) {
+						if (!plugin.beforeNavigate) continue;
+						const context = { page, url: target, options: { ...options }, logger: this.loggerFor(plugin) };
+						await this.call(plugin, 'beforeNavigate', () => plugin.beforeNavigate!(context));
+						target = context.url;
+						options = context.options;
+					}
+
+					const response = await originalGoto.call(page, target, options);
+
+					for (const plugin of this.plugins) {
+						if (!plugin.afterNavigate) continue;
+						await this.call(plugin, 'afterNavigate', logger => plugin.afterNavigate!({ page, url: target, response, logger }));
+					}
+					return response;
+				} catch (error) {
+					await this.onError(error, 'navigate', { page, url: target });
+					throw error;
+				}
+			};
+		}
+
+		if (this.plugins.some(plugin => plugin.beforeClose)) {
+			const originalClose = page.close;
+			page.close = async (options?: { runBeforeUnload?: boolean }) => {
+				for (const plugin of this.plugins) {
+					if (!plugin.beforeClose) continue;
+					// Closing goes on even when a hook fails
+					await this.call(plugin, 'beforeClose', logger => plugin.beforeClose!({ page, logger }))
+						.catch(error => this.onError(error, 'close', { page }));
+				}
+
+				try {
+					return await originalClose.call(page, options);
+				} catch (closeError) {
+					// Ignore close errors (common with remote browsers)
+					this.logger.warn({ operation: 'page.close', err: closeError }, 'Failed to close page');
+					await this.onError(closeError, 'close', { page });
+				}
+			};
+		}
+
+		return page;
+	}
+
+	/**
+	 * Report an error to every onError hook, once. Errors wrapping an already reported
+	 * one (e.g. the NavigationError of a failed goto) are skipped too.
+	 */
+	async onError(error: unknown, phase: PluginPhase, target: { page?: ExtendedPage; url?: string } = {}): Promise<void> {
+		const reportedError = error instanceof Error ? error : new Error(String(error));
+		if (this.reported.has(reportedError) || (reportedError instanceof FelintoError && reportedError.cause && this.reported.has(reportedError.cause))) {
+			return;
+		}
+		this.reported.add(reportedError);
+
+		for (const plugin of this.plugins) {
+			if (!plugin.onError) continue;
+			const logger = this.loggerFor(plugin);
+			try {
+				await plugin.onError({ error: reportedError, phase, ...target, logger });
+			} catch (hookError) {
+				logger.warn({ operation: 'plugin.onError', err: hookError }, `Plugin "${plugin.name}" failed in onError`);
+			}
+		}
+	}
+
+	private loggerFor(plugin: FelintoPlugin): Logger {
+		return childLogger(this.logger, { plugin: plugin.name });
+	}
+
+	/**
+	 * Run a hook, wrapping its failure in a PluginError unless it is already a FelintoError
+	 */
+	private async call<T>(plugin: FelintoPlugin, hook: PluginHook, run: (logger: Logger) => T | Promise<T>): Promise<T> {
+		const logger = this.loggerFor(plugin);
+		try {
+			return await run(logger);
+		} catch (error) {
+			logger.error({ operation: `plugin.${hook}`, err: error }, `Plugin "${plugin.name}" failed in ${hook}`);
+			if (error instanceof FelintoError) {
+				throw error;
+			}
+			throw new PluginError(`Plugin "${plugin.name}" failed in ${hook}: ${(error as Error).message}`, error as Error, {
+				context: { plugin: plugin.name, hook },
+			});
+		}
+	}
+}
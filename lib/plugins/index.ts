@@ -0,0 +1,2 @@
+export * from './FelintoPlugin';
+export * from './PluginManager';
@@ -0,0 +1,261 @@
+import { Browser } from 'puppeteer';
+import { BrowserFactory, BrowserFactoryOptions } from '../utils/browser-factory';
+import { BrowserConnectionError } from '../utils/custom-errors';
+
+/**
+ * Options for a pool of connected browsers
+ */
+export interface BrowserPoolOptions extends BrowserFactoryOptions {
+	size?: number;
+	maxPagesPerBrowser?: number;
+	maxUsesPerBrowser?: number;
+	acquireTimeout?: number;
+}
+
+/**
+ * A slot on a pooled browser, returned to the pool by calling release()
+ */
+export interface BrowserLease {
+	browser: Browser;
+	release(): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+	browsers: number;
+	activePages: number;
+	pending: number;
+	draining: boolean;
+}
+
+interface PooledBrowser {
+	browser: Browser;
+	activePages: number;
+	uses: number;
+	retired: boolean;
+}
+
+interface PendingLease {
+	resolve: (lease: BrowserLease) => void;
+	reject: (error: Error) => void;
+	timer?: NodeJS.Timeout;
+	/** Timed out while a browser was starting for it */
+	settled?: boolean;
+}
+
+/**
+ * BrowserPool - Keeps N connected browsers and leases pages on them
+ */
+export class BrowserPool {
+	private readonly entries: PooledBrowser[] = [];
+	private readonly pending: PendingLease[] = [];
+	private readonly idleWaiters: Array<() => void> = [];
+	private creating = 0;
+	private draining = false;
+
+	constructor(private readonly options: BrowserPoolOptions = {}) {}
+
+	private get size(): number {
+		return this.options.size ?? 2;
+	}
+
+	private get maxPagesPerBrowser(): number {
+		return this.options.maxPagesPerBrowser ?? 5;
+	}
+
+	private get maxUsesPerBrowser(): number {
+		return this.options.maxUsesPerBrowser ?? 100;
+	}
+
+	/**
+	 * Lease a page slot, waiting for one to free up when the pool is full
+	 */
+	async acquire(): Promise<BrowserLease> {
+		if (this.draining) {
+			throw new BrowserConnectionError('Browser pool is draining and no longer leases pages.', undefined, { retryable: false });
+		}
+
+		const available = this.findAvailable();
+		if (available) {
+			return this.lease(available);
+		}
+
+		if (this.entries.length + this.creating < this.size) {
+			const lease = this.lease(await this.spawn());
+			// Callers that queued while the browser was starting may fit on it too
+			this.dispatch();
+			return lease;
+		}
+
+		return new Promise<BrowserLease>((resolve, reject) => {
+			const waiter: PendingLease = { resolve, reject };
+			if (this.options.acquireTimeout) {
+				waiter.timer = setTimeout(() => {
+					waiter.settled = true;
+					this.removePending(waiter);
+					reject(new BrowserConnectionError(`Timed out after ${this.options.acquireTimeout}ms waiting for a browser from the pool.`));
+				}, this.options.acquireTimeout);
+			}
+			this.pending.push(waiter);
+		});
+	}
+
+	/**
+	 * Stop leasing, wait for leased pages to be released and browsers still starting, then
+	 * close every browser
+	 */
+	async drain(): Promise<void> {
+		this.draining = true;
+
+		for (const waiter of this.pending.splice(0)) {
+			if (waiter.timer) clearTimeout(waiter.timer);
+			waiter.reject(new BrowserConnectionError('Browser pool is draining and no longer leases pages.', undefined, { retryable: false }));
+		}
+
+		if (this.activePages() > 0 || this.creating > 0) {
+			await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+		}
+
+		await Promise.all(this.entries.splice(0).map(entry => this.closeBrowser(entry.browser)));
+	}
+
+	stats(): BrowserPoolStats {
+		return {
+			browsers: this.entries.length,
+			activePages: this.activePages(),
+			pending: this.pending.length,
+			draining: this.draining,
+		};
+	}
+
+	private activePages(): number {
+		return this.entries.reduce((total, entry) => total + entry.activePages, 0);
+	}
+
+	private findAvailable(): PooledBrowser | undefined {
+		// Prefer the least loaded browser to spread pages evenly
+		return this.entries
+			.filter(entry => !entry.retired && entry.activePages < this.maxPagesPerBrowser)
+			.sort((a, b) => a.activePages - b.activePages)[0];
+	}
+
+	private lease(entry: PooledBrowser): BrowserLease {
+		entry.activePages++;
+		entry.uses++;
+		if (entry.uses >= this.maxUsesPerBrowser) {
+			entry.retired = true;
+		}
+
+		let released = false;
+		return {
+			browser: entry.browser,
+			release: async () => {
+				if (released) return;
+				released = true;
+				await this.release(entry);
+			},
+		};
+	}
+
+	private async release(entry: PooledBrowser): Promise<void> {
+		entry.activePages--;
+
+		// Recycle browsers that reached their use limit once their last page is gone
+		if (entry.retired && entry.activePages === 0) {
+			this.remove(entry);
+			await this.closeBrowser(entry.browser);
+		}
+
+		this.notifyIdle();
+		this.dispatch();
+	}
+
+	private notifyIdle(): void {
+		if (this.draining && this.activePages() === 0 && this.creating === 0) {
+			for (const resolve of this.idleWaiters.splice(0)) resolve();
+		}
+	}
+
+	private dispatch(): void {
+		while (this.pending.length > 0) {
+			const available = this.findAvailable();
+			if (available) {
+				this.resolvePending(this.pending.shift()!, this.lease(available));
+				continue;
+			}
+
+			if (this.entries.length + this.creating < this.size) {
+				const waiter = this.pending.shift()!;
+				this.spawn()
+					.then(entry => {
+						// A waiter that timed out holds no lease, the browser is left to the next ones
+						if (!waiter.settled) {
+							this.resolvePending(waiter, this.lease(entry));
+						}
+						this.dispatch();
+					})
+					.catch(error => {
+						if (waiter.timer) clearTimeout(waiter.timer);
+						waiter.reject(error as Error);
+					});
+				continue;
+			}
+
+			break;
+		}
+	}
+
+	private resolvePending(waiter: PendingLease, lease: BrowserLease): void {
+		if (waiter.timer) clearTimeout(waiter.timer);
+		waiter.resolve(lease);
+	}
+
+	private removePending(waiter: PendingLease): void {
+		const index = this.pending.indexOf(waiter);
+		if (index >= 0) this.pending.splice(index, 1);
+	}
+
+	private async spawn(): Promise<PooledBrowser> {
+		this.creating++;
+		try {
+			const browser = await BrowserFactory.createBrowser({
+				...this.options,
+				browserWSEndpoint: this.options.browserWSEndpoint || process.env.CHROME_HEADLESS_WS_URL,
+			});
+			// The pool started draining while this browser was starting
+			if (this.draining) {
+				await this.closeBrowser(browser);
+				throw new BrowserConnectionError('Browser pool is draining and no longer leases pages.', undefined, { retryable: false });
+			}
+			const entry: PooledBrowser = { browser, activePages: 0, uses: 0, retired: false };
+
+			// A crashed or remotely closed browser is dropped and replaced on demand
+			browser.once('disconnected', () => {
+				if (this.remove(entry)) {
+					this.notifyIdle();
+					this.dispatch();
+				}
+			});
+
+			this.entries.push(entry);
+			return entry;
+		} finally {
+			this.creating--;
+			this.notifyIdle();
+		}
+	}
+
+	private remove(entry: PooledBrowser): boolean {
+		const index = this.entries.indexOf(entry);
+		if (index < 0) return false;
+		this.entries.splice(index, 1);
+		return true;
+	}
+
+	private async closeBrowser(browser: Browser): Promise<void> {
+		try {
+			await browser.close();
+		} catch {
+			// Browser may already be gone
+		}
+	}
+}
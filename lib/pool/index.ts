@@ -0,0 +1 @@
+export { BrowserPool, BrowserPoolOptions, BrowserLease, BrowserPoolStats } from './BrowserPool';
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { BrowserProfile, ProfileStore } from './ProfileStore';
+
+export interface FileSystemProfileStoreOptions {
+	rootDir?: string;
+}
+
+/**
+ * FileSystemProfileStore - Keeps one JSON file per profile under a root directory
+ */
+export class FileSystemProfileStore implements ProfileStore {
+	static readonly DEFAULT_ROOT_DIR = '/tmp/puppeteer-profiles';
+
+	private readonly rootDir: string;
+
+	constructor(options: FileSystemProfileStoreOptions = {}) {
+		this.rootDir = options.rootDir || FileSystemProfileStore.DEFAULT_ROOT_DIR;
+	}
+
+	private getProfileFile(name: string): string {
+		return join(this.rootDir, `${encodeURIComponent(name)}.json`);
+	}
+
+	async save(profile: BrowserProfile): Promise<void> {
+		// Profiles may hold proxy credentials, keep them readable by the owner only
+		await fs.mkdir(this.rootDir, { recursive: true, mode: 0o700 });
+		// mkdir leaves the mode of an existing directory alone
+		await fs.chmod(this.rootDir, 0o700);
+		const profileFile = this.getProfileFile(profile.name);
+
+		// Write to a temporary file and rename so readers never see a partial profile
+		const tempFile = `${profileFile}.${randomBytes(6).toString('hex')}.tmp`;
+		try {
+			await fs.writeFile(tempFile, JSON.stringify(profile, null, 2), { mode: 0o600 });
+			await fs.rename(tempFile, profileFile);
+		} catch (error) {
+			await fs.unlink(tempFile).catch(() => undefined);
+			throw error;
+		}
+	}
+
+	async load(name: string): Promise<BrowserProfile | null> {
+		try {
+			const data = await fs.readFile(this.getProfileFile(name), 'utf8');
+			return JSON.parse(data);
+		} catch {
+			return null;
+		}
+	}
+
+	async delete(name: string): Promise<boolean> {
+		try {
+			await fs.unlink(this.getProfileFile(name));
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	async list(): Promise<BrowserProfile[]> {
+		let files: string[];
+		try {
+			files = await fs.readdir(this.rootDir);
+		} catch {
+			return [];
+		}
+
+		const profiles: BrowserProfile[] = [];
+		for (const file of files.filter(name => name.endsWith('.json'))) {
+			try {
+				const data = await fs.readFile(join(this.rootDir, file), 'utf8');
+				profiles.push(JSON.parse(data));
+			} catch {
+				// Skip unreadable or corrupted files
+			}
+		}
+		return profiles;
+	}
+}
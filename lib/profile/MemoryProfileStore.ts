@@ -0,0 +1,26 @@
+import { BrowserProfile, ProfileStore } from './ProfileStore';
+
+/**
+ * MemoryProfileStore - Keeps profiles in process memory, useful for tests
+ */
+export class MemoryProfileStore implements ProfileStore {
+	// Serialized so callers can't mutate stored profiles by reference
+	private readonly profiles = new Map<string, string>();
+
+	async save(profile: BrowserProfile): Promise<void> {
+		this.profiles.set(profile.name, JSON.stringify(profile));
+	}
+
+	async load(name: string): Promise<BrowserProfile | null> {
+		const data = this.profiles.get(name);
+		return data ? JSON.parse(data) : null;
+	}
+
+	async delete(name: string): Promise<boolean> {
+		return this.profiles.delete(name);
+	}
+
+	async list(): Promise<BrowserProfile[]> {
+		return Array.from(this.profiles.values(), data => JSON.parse(data));
+	}
+}
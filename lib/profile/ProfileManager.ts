@@ -0,0 +1,133 @@
+import { SessionManager } from '../session';
+import { ProfileError } from '../utils/custom-errors';
+import { NewPageParams } from '../types';
+import { BrowserProfile, ProfileSettings, ProfileStore } from './ProfileStore';
+import { FileSystemProfileStore } from './FileSystemProfileStore';
+
+export interface ProfileManagerOptions {
+	store?: ProfileStore;
+	sessionManager?: SessionManager;
+}
+
+/**
+ * ProfileManager - Named identities bundling session data, user agent, fingerprint, proxy, viewport and locale
+ */
+export class ProfileManager {
+	private static defaultInstance?: ProfileManager;
+
+	private readonly store: ProfileStore;
+	readonly sessionManager: SessionManager;
+
+	constructor(options: ProfileManagerOptions = {}) {
+		this.store = options.store || new FileSystemProfileStore();
+		this.sessionManager = options.sessionManager || SessionManager.default;
+	}
+
+	/**
+	 * Shared manager backed by the filesystem store, used by newPage({ profile })
+	 */
+	static get default(): ProfileManager {
+		if (!this.defaultInstance) {
+			this.defaultInstance = new ProfileManager();
+		}
+		return this.defaultInstance;
+	}
+
+	/**
+	 * Session key under which the profile's session data is stored
+	 */
+	static getSessionKey(name: string): string {
+		return `profile:${name}`;
+	}
+
+	/**
+	 * Create a profile
+	 * @throws {ProfileError} When a profile with this name already exists
+	 */
+	async createProfile(name: string, settings: ProfileSettings = {}): Promise<BrowserProfile> {
+		if (!name) {
+			throw new ProfileError('Profile name is required.');
+		}
+		if (await this.store.load(name)) {
+			throw new ProfileError(`Profile "${name}" already exists.`);
+		}
+
+		const now = Date.now();
+		const profile: BrowserProfile = { ...settings, name, createdAt: now, updatedAt: now };
+		await this.store.save(profile);
+		return profile;
+	}
+
+	/**
+	 * Update the settings of an existing profile, keeping its session data
+	 * @throws {ProfileError} When the profile does not exist
+	 */
+	async updateProfile(name: string, settings: ProfileSettings): Promise<BrowserProfile> {
+		const existing = await this.requireProfile(name);
+		const profile: BrowserProfile = { ...existing, ...settings, name, updatedAt: Date.now() };
+		await this.store.save(profile);
+		return profile;
+	}
+
+	async getProfile(name: string): Promise<BrowserProfile | null> {
+		return this.store.load(name);
+	}
+
+	async listProfiles(): Promise<BrowserProfile[]> {
+		const profiles = await this.store.list();
+		return profiles.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	/**
+	 * Copy a profile and its session data under a new name
+	 * @throws {ProfileError} When the source is missing or the target already exists
+	 */
+	async cloneProfile(sourceName: string, targetName: string, overrides: ProfileSettings = {}): Promise<BrowserProfile> {
+		const { name, createdAt, updatedAt, ...settings } = await this.requireProfile(sourceName);
+		const profile = await this.createProfile(targetName, { ...settings, ...overrides });
+
+		const sessionData = await this.sessionManager.loadSession(ProfileManager.getSessionKey(sourceName));
+		if (sessionData) {
+			await this.sessionManager.saveSession(ProfileManager.getSessionKey(targetName), sessionData);
+		}
+		return profile;
+	}
+
+	/**
+	 * Delete a profile and its session data
+	 */
+	async deleteProfile(name: string): Promise<boolean> {
+		const deleted = await this.store.delete(name);
+		await this.sessionManager.clearSession(ProfileManager.getSessionKey(name));
+		return deleted;
+	}
+
+	/**
+	 * Fill newPage params from the profile. Values passed explicitly take precedence.
+	 * @throws {ProfileError} When the profile does not exist
+	 */
+	async resolvePageParams(name: string, params: NewPageParams): Promise<NewPageParams> {
+		const profile = await this.requireProfile(name);
+		return {
+			...params,
+			userAgent: params.userAgent ?? profile.userAgent,
+			stealth: params.stealth ?? profile.stealth,
+			proxy: params.proxy ?? profile.proxy,
+			device: params.device ?? profile.device,
+			viewport: params.viewport ?? profile.viewport,
+			locale: params.locale ?? profile.locale,
+			timezoneId: params.timezoneId ?? profile.timezoneId,
+			geolocation: params.geolocation ?? profile.geolocation,
+			userDataDir: params.userDataDir ?? ProfileManager.getSessionKey(name),
+			sessionManager: params.sessionManager ?? this.sessionManager,
+		};
+	}
+
+	private async requireProfile(name: string): Promise<BrowserProfile> {
+		const profile = await this.store.load(name);
+		if (!profile) {
+			throw new ProfileError(`Profile "${name}" not found.`);
+		}
+		return profile;
+	}
+}
@@ -0,0 +1,34 @@
+import { Viewport } from 'puppeteer';
+import { NewPageParams } from '../types';
+
+/**
+ * Browser identity bundled with a named profile. Session data is kept by the
+ * profile's SessionManager under ProfileManager.getSessionKey(name).
+ */
+export interface ProfileSettings {
+	userAgent?: string;
+	/** Keeps the same fingerprint across runs of the profile */
+	stealth?: NewPageParams['stealth'];
+	proxy?: NewPageParams['proxy'];
+	device?: NewPageParams['device'];
+	viewport?: Viewport;
+	locale?: string;
+	timezoneId?: string;
+	geolocation?: NewPageParams['geolocation'];
+}
+
+export interface BrowserProfile extends ProfileSettings {
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+}
+
+/**
+ * Storage backend used by ProfileManager to persist profile settings
+ */
+export interface ProfileStore {
+	save(profile: BrowserProfile): Promise<void>;
+	load(name: string): Promise<BrowserProfile | null>;
+	delete(name: string): Promise<boolean>;
+	list(): Promise<BrowserProfile[]>;
+}
@@ -0,0 +1,4 @@
+export { ProfileManager, ProfileManagerOptions } from './ProfileManager';
+export { ProfileStore, ProfileSettings, BrowserProfile } from './ProfileStore';
+export { FileSystemProfileStore, FileSystemProfileStoreOptions } from './FileSystemProfileStore';
+export { MemoryProfileStore } from './MemoryProfileStore';
@@ -0,0 +1,136 @@
+import { ProxyError } from '../utils/custom-errors';
+import { ProxyConfig, ProxyProvider, ProxySelectionContext } from './ProxyProvider';
+
+export type ProxySelectionStrategy = 'static' | 'round-robin' | 'sticky' | 'least-failures';
+
+export interface ProxyPoolOptions {
+	proxies: ProxyConfig[];
+	strategy?: ProxySelectionStrategy;
+	/** Consecutive failures before a proxy is quarantined */
+	maxFailures?: number;
+	/** How long a quarantined proxy is skipped, in milliseconds */
+	quarantineTime?: number;
+}
+
+export interface ProxyHealth {
+	server: string;
+	successes: number;
+	failures: number;
+	consecutiveFailures: number;
+	quarantinedUntil?: number;
+	lastError?: string;
+}
+
+interface ProxyEntry {
+	proxy: ProxyConfig;
+	health: ProxyHealth;
+}
+
+/**
+ * ProxyPool - Rotates pages over a list of proxies, quarantining the ones that keep failing
+ */
+export class ProxyPool implements ProxyProvider {
+	private readonly entries: ProxyEntry[];
+	private readonly strategy: ProxySelectionStrategy;
+	private readonly maxFailures: number;
+	private readonly quarantineTime: number;
+	private readonly sticky = new Map<string, ProxyEntry>();
+	private cursor = 0;
+
+	constructor(options: ProxyPoolOptions) {
+		if (options.proxies.length === 0) {
+			throw new ProxyError('ProxyPool requires at least one proxy.', undefined, { retryable: false });
+		}
+
+		this.entries = options.proxies.map(proxy => ({
+			proxy,
+			health: { server: proxy.server, successes: 0, failures: 0, consecutiveFailures: 0 },
+		}));
+		this.strategy = options.strategy ?? 'round-robin';
+		this.maxFailures = options.maxFailures ?? 3;
+		this.quarantineTime = options.quarantineTime ?? 5 * 60 * 1000;
+	}
+
+	acquire(context: ProxySelectionContext = {}): ProxyConfig {
+		const healthy = this.entries.filter(entry => this.isHealthy(entry));
+		if (healthy.length === 0) {
+			throw new ProxyError('No healthy proxy available, every proxy in the pool is quarantined.');
+		}
+
+		return this.select(healthy, context).proxy;
+	}
+
+	reportSuccess(proxy: ProxyConfig): void {
+		const entry = this.find(proxy);
+		if (!entry) return;
+
+		entry.health.successes++;
+		entry.health.consecutiveFailures = 0;
+		entry.health.quarantinedUntil = undefined;
+	}
+
+	reportFailure(proxy: ProxyConfig, error: Error): void {
+		const entry = this.find(proxy);
+		if (!entry) return;
+
+		entry.health.failures++;
+		entry.health.consecutiveFailures++;
+		entry.health.lastError = error.message;
+		if (entry.health.consecutiveFailures >= this.maxFailures) {
+			entry.health.quarantinedUntil = Date.now() + this.quarantineTime;
+		}
+	}
+
+	/**
+	 * Health of every proxy, in the order they were given
+	 */
+	stats(): ProxyHealth[] {
+		return this.entries.map(entry => ({ ...entry.health }));
+	}
+
+	private select(healthy: ProxyEntry[], context: ProxySelectionContext): ProxyEntry {
+		switch (this.strategy) {
+			case 'static':
+				return healthy[0]!;
+
+			case 'round-robin': {
+				const entry = healthy[this.cursor % healthy.length]!;
+				this.cursor++;
+				return entry;
+			}
+
+			case 'sticky': {
+				const key = context.stickyKey ?? 'default';
+				const current = this.sticky.get(key);
+				if (current && healthy.includes(current)) {
+					return current;
+				}
+				const entry = this.leastFailures(healthy);
+				this.sticky.set(key, entry);
+				return entry;
+			}
+
+			case 'least-failures':
+				return this.leastFailures(healthy);
+		}
+	}
+
+	private leastFailures(healthy: ProxyEntry[]): ProxyEntry {
+		const failureRate = (entry: ProxyEntry) =>
+			entry.health.failures / Math.max(entry.health.successes + entry.health.failures, 1);
+		// Start the stable sort at the cursor so ties, e.g. a fresh pool, are broken round-robin
+		const offset = this.cursor++ % healthy.length;
+		return [...healthy.slice(offset), ...healthy.slice(0, offset)].sort((a, b) =>
+			a.health.consecutiveFailures - b.health.consecutiveFailures || failureRate(a) - failureRate(b)
+		)[0]!;
+	}
+
+	private isHealthy(entry: ProxyEntry): boolean {
+		return !entry.health.quarantinedUntil || entry.health.quarantinedUntil <= Date.now();
+	}
+
+	private find(proxy: ProxyConfig): ProxyEntry | undefined {
+		return this.entries.find(entry => entry.proxy === proxy)
+			?? this.entries.find(entry => entry.proxy.server === proxy.server && entry.proxy.username === proxy.username);
+	}
+}
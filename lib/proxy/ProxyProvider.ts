@@ -0,0 +1,30 @@
+/**
+ * Proxy server used for a page, credentials fall back to PROXY_USERNAME / PROXY_PASSWORD
+ */
+export interface ProxyConfig {
+	server: string;
+	username?: string;
+	password?: string;
+	/**
+	 * Route the page through the proxy in its own browser context (default: true). false keeps the
+	 * page in the shared context and only authenticates, for browsers started with --proxy-server.
+	 */
+	context?: boolean;
+}
+
+export interface ProxySelectionContext {
+	/** Key used by sticky selection, newPage passes the profile name or userDataDir */
+	stickyKey?: string;
+}
+
+/**
+ * Chooses a proxy for each page and learns from the outcome
+ */
+export interface ProxyProvider {
+	/**
+	 * @throws {ProxyError} When no healthy proxy is available
+	 */
+	acquire(context?: ProxySelectionContext): ProxyConfig | Promise<ProxyConfig>;
+	reportSuccess(proxy: ProxyConfig): void;
+	reportFailure(proxy: ProxyConfig, error: Error): void;
+}
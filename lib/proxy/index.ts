@@ -0,0 +1,2 @@
+export { ProxyProvider, ProxyConfig, ProxySelectionContext } from './ProxyProvider';
+export { ProxyPool, ProxyPoolOptions, ProxySelectionStrategy, ProxyHealth } from './ProxyPool';
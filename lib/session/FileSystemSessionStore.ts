@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { SessionStore, StoredSession } from './SessionStore';
+
+export interface FileSystemSessionStoreOptions {
+	rootDir?: string;
+}
+
+/**
+ * FileSystemSessionStore - Keeps one JSON file per session under a root directory
+ */
+export class FileSystemSessionStore implements SessionStore {
+	static readonly DEFAULT_ROOT_DIR = '/tmp/puppeteer-sessions';
+
+	private readonly rootDir: string;
+
+	constructor(options: FileSystemSessionStoreOptions = {}) {
+		this.rootDir = options.rootDir || FileSystemSessionStore.DEFAULT_ROOT_DIR;
+	}
+
+	/**
+	 * Encode userDataDir into a reversible, collision-free filename
+	 */
+	private getSessionFile(userDataDir: string): string {
+		return join(this.rootDir, `${encodeURIComponent(userDataDir)}.json`);
+	}
+
+	/**
+	 * Filename used before the store was pluggable, kept so old sessions still load
+	 */
+	private getLegacySessionFile(userDataDir: string): string {
+		return join(this.rootDir, `${userDataDir.replace(/[^a-zA-Z0-9]/g, '_')}.json`);
+	}
+
+	async save(userDataDir: string, session: StoredSession): Promise<void> {
+		// Sessions hold auth cookies, keep them readable by the owner only
+		await fs.mkdir(this.rootDir, { recursive: true, mode: 0o700 });
+		// mkdir leaves the mode of an existing directory alone
+		await fs.chmod(this.rootDir, 0o700);
+		const sessionFile = this.getSessionFile(userDataDir);
+
+		// Write to a temporary file and rename so readers never see a partial session
+		const tempFile = `${sessionFile}.${randomBytes(6).toString('hex')}.tmp`;
+		try {
+			await fs.writeFile(tempFile, JSON.stringify(session, null, 2), { mode: 0o600 });
+			await fs.rename(tempFile, sessionFile);
+		} catch (error) {
+			await fs.unlink(tempFile).catch(() => undefined);
+			throw error;
+		}
+
+		// A legacy copy would bring the old session back once this one is deleted
+		for (const file of await this.findSessionFiles(userDataDir)) {
+			if (file !== sessionFile) {
+				await fs.unlink(file).catch(() => undefined);
+			}
+		}
+	}
+
+	async load(userDataDir: string): Promise<StoredSession | null> {
+		const [sessionFile] = await this.findSessionFiles(userDataDir);
+		if (!sessionFile) {
+			return null;
+		}
+		const data = await fs.readFile(sessionFile, 'utf8');
+		return JSON.parse(data);
+	}
+
+	async delete(userDataDir: string): Promise<boolean> {
+		const sessionFiles = await this.findSessionFiles(userDataDir);
+		for (const sessionFile of sessionFiles) {
+			await fs.unlink(sessionFile);
+		}
+		return sessionFiles.length > 0;
+	}
+
+	/**
+	 * Resolve the files holding this session, current name first, checking the stored
+	 * userDataDir because different names may share the same legacy filename
+	 */
+	private async findSessionFiles(userDataDir: string): Promise<string[]> {
+		const candidates = new Set([this.getSessionFile(userDataDir), this.getLegacySessionFile(userDataDir)]);
+		const found: string[] = [];
+		for (const sessionFile of candidates) {
+			try {
+				const data = await fs.readFile(sessionFile, 'utf8');
+				if (JSON.parse(data).userDataDir === userDataDir) {
+					found.push(sessionFile);
+				}
+			} catch {
+				// Try the next candidate
+			}
+		}
+		return found;
+	}
+
+	async list(): Promise<StoredSession[]> {
+		let files: string[];
+		try {
+			files = await fs.readdir(this.rootDir);
+		} catch {
+			return [];
+		}
+
+		// A session left in both a legacy and a current file is listed once, from the current one
+		const sessions = new Map<string, StoredSession>();
+		for (const file of files.filter(name => name.endsWith('.json'))) {
+			try {
+				const filePath = join(this.rootDir, file);
+				const session: StoredSession = JSON.parse(await fs.readFile(filePath, 'utf8'));
+				if (!sessions.has(session.userDataDir) || filePath === this.getSessionFile(session.userDataDir)) {
+					sessions.set(session.userDataDir, session);
+				}
+			} catch {
+				// Skip unreadable or corrupted files
+			}
+		}
+		return [...sessions.values()];
+	}
+}
@@ -0,0 +1,26 @@
+import { SessionStore, StoredSession } from './SessionStore';
+
+/**
+ * MemorySessionStore - Keeps sessions in process memory, useful for tests and short-lived workers
+ */
+export class MemorySessionStore implements SessionStore {
+	// Serialized so callers can't mutate stored sessions by reference
+	private readonly sessions = new Map<string, string>();
+
+	async save(userDataDir: string, session: StoredSession): Promise<void> {
+		this.sessions.set(userDataDir, JSON.stringify(session));
+	}
+
+	async load(userDataDir: string): Promise<StoredSession | null> {
+		const data = this.sessions.get(userDataDir);
+		return data ? JSON.parse(data) : null;
+	}
+
+	async delete(userDataDir: string): Promise<boolean> {
+		return this.sessions.delete(userDataDir);
+	}
+
+	async list(): Promise<StoredSession[]> {
+		return Array.from(this.sessions.values(), data => JSON.parse(data));
+	}
+}
@@ -0,0 +1,71 @@
+import { SessionStore, StoredSession } from './SessionStore';
+
+/**
+ * Minimal key/value client, satisfied by ioredis and other Redis-compatible clients
+ */
+export interface KeyValueClient {
+	get(key: string): Promise<string | null>;
+	/** Called as `set(key, value)` or `set(key, value, 'PX', milliseconds)` */
+	set(key: string, value: string, ...expiry: Array<string | number>): Promise<unknown>;
+	del(key: string): Promise<number>;
+	/** Called as `scan(cursor, 'MATCH', pattern, 'COUNT', count)`, resolving to the next cursor and a batch of keys */
+	scan(cursor: string, ...options: Array<string | number>): Promise<[string, string[]]>;
+}
+
+export interface RedisSessionStoreOptions {
+	client: KeyValueClient;
+	prefix?: string;
+}
+
+/**
+ * RedisSessionStore - Shares sessions between hosts through a Redis-compatible key/value store
+ */
+export class RedisSessionStore implements SessionStore {
+	private readonly client: KeyValueClient;
+	private readonly prefix: string;
+
+	constructor(options: RedisSessionStoreOptions) {
+		this.client = options.client;
+		this.prefix = options.prefix ?? 'felinto:session:';
+	}
+
+	private getKey(userDataDir: string): string {
+		return `${this.prefix}${userDataDir}`;
+	}
+
+	async save(userDataDir: string, session: StoredSession): Promise<void> {
+		const key = this.getKey(userDataDir);
+		// A single SET replaces the value and its expiry atomically
+		if (session.expiresAt) {
+			await this.client.set(key, JSON.stringify(session), 'PX', Math.max(session.expiresAt - Date.now(), 1));
+		} else {
+			await this.client.set(key, JSON.stringify(session));
+		}
+	}
+
+	async load(userDataDir: string): Promise<StoredSession | null> {
+		const data = await this.client.get(this.getKey(userDataDir));
+		return data ? JSON.parse(data) : null;
+	}
+
+	async delete(userDataDir: string): Promise<boolean> {
+		return (await this.client.del(this.getKey(userDataDir))) > 0;
+	}
+
+	async list(): Promise<StoredSession[]> {
+		const sessions: StoredSession[] = [];
+		// SCAN walks the keyspace in batches instead of blocking the server like KEYS
+		let cursor = '0';
+		do {
+			const [next, keys] = await this.client.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 100);
+			cursor = next;
+			for (const key of keys) {
+				const data = await this.client.get(key);
+				if (data) {
+					sessions.push(JSON.parse(data));
+				}
+			}
+		} while (cursor !== '0');
+		return sessions;
+	}
+}
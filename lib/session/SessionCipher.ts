@@ -0,0 +1,135 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import { SessionDecryptionError } from '../utils/custom-errors';
+
+/**
+ * A 32-byte Buffer used as the AES key, or a passphrase stretched with scrypt
+ */
+export type SessionEncryptionKey = string | Buffer;
+
+export interface SessionEncryptionOptions {
+	key: SessionEncryptionKey;
+	/** Keys used before a rotation, sessions encrypted with them are re-encrypted with the current key on load */
+	previousKeys?: SessionEncryptionKey[];
+}
+
+/**
+ * Encrypted session payload as stored in StoredSession.sessionData
+ */
+export interface EncryptedSessionPayload {
+	encrypted: 'aes-256-gcm';
+	keyId: string;
+	/** scrypt salt of a passphrase key, absent for Buffer keys */
+	salt?: string;
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * SessionCipher - AES-GCM encryption of session data with key rotation support
+ */
+export class SessionCipher {
+	private readonly keys: SessionEncryptionKey[];
+	/** Salt of the passphrase keys this cipher encrypts with */
+	private readonly salt = randomBytes(16);
+	private readonly derived = new Map<string, Buffer>();
+
+	constructor(options: SessionEncryptionOptions) {
+		this.keys = [options.key, ...(options.previousKeys || [])];
+		for (const key of this.keys) {
+			if (Buffer.isBuffer(key) && key.length !== 32) {
+				throw new RangeError(`Session encryption keys given as a Buffer must be 32 bytes, got ${key.length}.`);
+			}
+		}
+	}
+
+	/**
+	 * Build a cipher from SESSION_ENCRYPTION_KEY / SESSION_ENCRYPTION_PREVIOUS_KEYS, if set
+	 */
+	static fromEnvironment(): SessionCipher | undefined {
+		if (!process.env.SESSION_ENCRYPTION_KEY) {
+			return undefined;
+		}
+		return new SessionCipher({
+			key: process.env.SESSION_ENCRYPTION_KEY,
+			previousKeys: process.env.SESSION_ENCRYPTION_PREVIOUS_KEYS?.split(',').filter(Boolean),
+		});
+	}
+
+	/**
+	 * Buffers are the key itself, passphrases go through scrypt with the payload's salt.
+	 * Payloads without a salt were encrypted with a plain sha256 of the passphrase.
+	 */
+	private deriveKey(index: number, salt?: Buffer): Buffer {
+		const key = this.keys[index]!;
+		if (Buffer.isBuffer(key)) {
+			return key;
+		}
+
+		// scrypt is slow on purpose, derive each passphrase and salt once
+		const cacheKey = `${index}:${salt ? salt.toString('base64') : ''}`;
+		let derived = this.derived.get(cacheKey);
+		if (!derived) {
+			derived = salt ? scryptSync(key, salt, 32) : createHash('sha256').update(key).digest();
+			this.derived.set(cacheKey, derived);
+		}
+		return derived;
+	}
+
+	private static getKeyId(key: Buffer): string {
+		return createHash('sha256').update(key).digest('hex').slice(0, 8);
+	}
+
+	static isEncrypted(sessionData: any): sessionData is EncryptedSessionPayload {
+		return Boolean(sessionData) && sessionData.encrypted === ALGORITHM && typeof sessionData.data === 'string';
+	}
+
+	encrypt(sessionData: any): EncryptedSessionPayload {
+		const salt = typeof this.keys[0] === 'string' ? this.salt : undefined;
+		const key = this.deriveKey(0, salt);
+		const iv = randomBytes(12);
+		const cipher = createCipheriv(ALGORITHM, key, iv);
+		const data = Buffer.concat([cipher.update(JSON.stringify(sessionData), 'utf8'), cipher.final()]);
+
+		return {
+			encrypted: ALGORITHM,
+			keyId: SessionCipher.getKeyId(key),
+			salt: salt?.toString('base64'),
+			iv: iv.toString('base64'),
+			tag: cipher.getAuthTag().toString('base64'),
+			data: data.toString('base64'),
+		};
+	}
+
+	/**
+	 * Decrypt a payload, reporting whether it was encrypted with a previous key or the unsalted derivation
+	 * @throws {SessionDecryptionError} When no configured key can decrypt the payload
+	 */
+	decrypt(payload: EncryptedSessionPayload): { sessionData: any; rotated: boolean } {
+		const salt = payload.salt ? Buffer.from(payload.salt, 'base64') : undefined;
+		const candidates = this.keys.map((_, index) => ({ index, key: this.deriveKey(index, salt) }));
+		// Try the key that encrypted the payload first, then every other key
+		const ordered = candidates.sort((a, b) =>
+			Number(SessionCipher.getKeyId(b.key) === payload.keyId) - Number(SessionCipher.getKeyId(a.key) === payload.keyId)
+		);
+
+		let lastError: Error | undefined;
+		for (const { index, key } of ordered) {
+			try {
+				const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+				decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+				const data = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+				return {
+					sessionData: JSON.parse(data.toString('utf8')),
+					rotated: index !== 0 || (typeof this.keys[0] === 'string' && !salt),
+				};
+			} catch (error) {
+				lastError = error as Error;
+			}
+		}
+
+		throw new SessionDecryptionError('Failed to decrypt session: the encryption key is wrong or the session is corrupted.', lastError);
+	}
+}
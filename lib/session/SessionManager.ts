@@ -1,72 +1,147 @@
-import { promises as fs } from 'fs';
-import { join } from 'path';
+import { SessionStore, StoredSession } from './SessionStore';
+import { FileSystemSessionStore } from './FileSystemSessionStore';
+import { SessionCipher, SessionEncryptionOptions } from './SessionCipher';
+import { SessionDecryptionError } from '../utils/custom-errors';
+import { Logger, silentLogger } from '../utils/logger';
+
+export interface SessionManagerOptions {
+	store?: SessionStore;
+	/** Time to live in milliseconds, sessions older than this are discarded on load */
+	ttl?: number;
+	/** Encrypt sessions at rest, defaults to SESSION_ENCRYPTION_KEY when set */
+	encryption?: SessionEncryptionOptions;
+	/** Receives store failures, silent by default */
+	logger?: Logger;
+}
+
+/**
+ * Summary of a stored session returned by listSessions()
+ */
+export interface SessionInfo {
+	userDataDir: string;
+	timestamp: number;
+	expiresAt?: number;
+}
 
 /**
  * Session Manager for handling persistence of browser sessions
  */
 export class SessionManager {
-	private static readonly SESSIONS_DIR = '/tmp/puppeteer-sessions';
+	private static defaultInstance?: SessionManager;
+
+	private readonly store: SessionStore;
+	private readonly ttl?: number;
+	private readonly cipher?: SessionCipher;
+	private readonly logger: Logger;
+
+	constructor(options: SessionManagerOptions = {}) {
+		this.store = options.store || new FileSystemSessionStore();
+		this.ttl = options.ttl;
+		this.logger = options.logger ?? silentLogger;
+		this.cipher = options.encryption ? new SessionCipher(options.encryption) : SessionCipher.fromEnvironment();
+	}
 
 	/**
-	 * Generate safe filename from userDataDir
+	 * Shared manager backed by the filesystem store, used by the static helpers
 	 */
-	private static getSafeFileName(userDataDir: string): string {
-		return userDataDir.replace(/[^a-zA-Z0-9]/g, '_');
+	static get default(): SessionManager {
+		if (!this.defaultInstance) {
+			this.defaultInstance = new SessionManager();
+		}
+		return this.defaultInstance;
 	}
 
 	/**
-	 * Get session file path
+	 * Create a manager sharing this store and TTL but encrypting with the given keys
 	 */
-	private static getSessionFile(userDataDir: string): string {
-		const safeFileName = this.getSafeFileName(userDataDir);
-		return join(this.SESSIONS_DIR, `${safeFileName}.json`);
+	withEncryption(encryption: SessionEncryptionOptions): SessionManager {
+		return new SessionManager({ store: this.store, ttl: this.ttl, encryption, logger: this.logger });
+	}
+
+	private isExpired(session: StoredSession): boolean {
+		return session.expiresAt !== undefined && session.expiresAt <= Date.now();
 	}
 
 	/**
-	 * Save session data to disk
+	 * Save session data to the store
 	 */
-	static async saveSession(userDataDir: string, sessionData: any): Promise<boolean> {
+	async saveSession(userDataDir: string, sessionData: any): Promise<boolean> {
 		try {
-			await fs.mkdir(this.SESSIONS_DIR, { recursive: true });
-			const sessionFile = this.getSessionFile(userDataDir);
-			
-			const dataToSave = {
+			const timestamp = Date.now();
+			await this.store.save(userDataDir, {
 				userDataDir,
-				timestamp: Date.now(),
-				sessionData
-			};
-			
-			await fs.writeFile(sessionFile, JSON.stringify(dataToSave, null, 2));
+				timestamp,
+				expiresAt: this.ttl ? timestamp + this.ttl : undefined,
+				sessionData: this.cipher ? this.cipher.encrypt(sessionData) : sessionData
+			});
 			return true;
 		} catch (error) {
-			console.error('Failed to save session:', (error as Error).message);
+			this.logger.error({ operation: 'session.save', userDataDir, err: error }, 'Failed to save session');
 			return false;
 		}
 	}
 
 	/**
-	 * Load session data from disk
+	 * Load session data from the store
+	 * @throws {SessionDecryptionError} When the session is encrypted and no configured key decrypts it
 	 */
-	static async loadSession(userDataDir: string): Promise<any | null> {
+	async loadSession(userDataDir: string): Promise<any | null> {
+		let session: StoredSession | null;
 		try {
-			const sessionFile = this.getSessionFile(userDataDir);
-			const data = await fs.readFile(sessionFile, 'utf8');
-			const parsed = JSON.parse(data);
-			return parsed.sessionData;
+			session = await this.store.load(userDataDir);
 		} catch (error) {
 			// Session doesn't exist or is corrupted
 			return null;
 		}
+
+		if (!session) {
+			return null;
+		}
+		if (this.isExpired(session)) {
+			await this.clearSession(userDataDir);
+			return null;
+		}
+
+		if (!SessionCipher.isEncrypted(session.sessionData)) {
+			// Plain sessions saved before encryption was enabled are migrated on load
+			if (this.cipher) {
+				await this.resave(session, session.sessionData);
+			}
+			return session.sessionData;
+		}
+
+		if (!this.cipher) {
+			throw new SessionDecryptionError(`Session "${userDataDir}" is encrypted but no encryption key is configured.`);
+		}
+
+		const { sessionData, rotated } = this.cipher.decrypt(session.sessionData);
+		if (rotated) {
+			await this.resave(session, sessionData);
+		}
+		return sessionData;
+	}
+
+	/**
+	 * Re-encrypt a loaded session with the current key, keeping its metadata
+	 */
+	private async resave(session: StoredSession, sessionData: any): Promise<void> {
+		try {
+			await this.store.save(session.userDataDir, {
+				...session,
+				sessionData: this.cipher!.encrypt(sessionData)
+			});
+		} catch (error) {
+			// The session is still usable, it will be re-encrypted on the next save
+		}
 	}
 
 	/**
 	 * Check if session exists
 	 */
-	static async hasSession(userDataDir: string): Promise<boolean> {
+	async hasSession(userDataDir: string): Promise<boolean> {
 		try {
-			const sessionFile = this.getSessionFile(userDataDir);
-			await fs.access(sessionFile);
-			return true;
+			const session = await this.store.load(userDataDir);
+			return session !== null && !this.isExpired(session);
 		} catch {
 			return false;
 		}
@@ -75,13 +150,41 @@ export class SessionManager {
 	/**
 	 * Clear session
 	 */
-	static async clearSession(userDataDir: string): Promise<boolean> {
+	async clearSession(userDataDir: string): Promise<boolean> {
 		try {
-			const sessionFile = this.getSessionFile(userDataDir);
-			await fs.unlink(sessionFile);
-			return true;
+			return await this.store.delete(userDataDir);
 		} catch (error) {
 			return false;
 		}
 	}
+
+	/**
+	 * List stored sessions that have not expired
+	 */
+	async listSessions(): Promise<SessionInfo[]> {
+		const sessions = await this.store.list();
+		return sessions
+			.filter(session => !this.isExpired(session))
+			.map(({ userDataDir, timestamp, expiresAt }) => ({ userDataDir, timestamp, expiresAt }));
+	}
+
+	static saveSession(userDataDir: string, sessionData: any): Promise<boolean> {
+		return this.default.saveSession(userDataDir, sessionData);
+	}
+
+	static loadSession(userDataDir: string): Promise<any | null> {
+		return this.default.loadSession(userDataDir);
+	}
+
+	static hasSession(userDataDir: string): Promise<boolean> {
+		return this.default.hasSession(userDataDir);
+	}
+
+	static clearSession(userDataDir: string): Promise<boolean> {
+		return this.default.clearSession(userDataDir);
+	}
+
+	static listSessions(): Promise<SessionInfo[]> {
+		return this.default.listSessions();
+	}
 }
@@ -1,6 +1,39 @@
+import { Page } from 'puppeteer';
 import { SessionManager } from './SessionManager';
 import { ExtendedPage } from '../types';
-import { SessionDataApplier } from '../utils';
+import { FelintoPlugin, PluginManager } from '../plugins';
+import { FelintoError, Logger, SessionDataApplier, SessionRestoreError, captureSessionSnapshot, getUrlOrigin, migrateSessionData, silentLogger } from '../utils';
+
+export interface SessionRestoredEvent {
+	userDataDir: string;
+	/** Set when only this origin was restored after navigating to it */
+	origin?: string;
+}
+
+export interface SessionSavedEvent {
+	userDataDir: string;
+}
+
+export interface SessionErrorEvent {
+	userDataDir: string;
+	operation: 'save' | 'restore';
+	error: Error;
+}
+
+declare module 'puppeteer' {
+	interface PageEvents {
+		'session:restored': SessionRestoredEvent;
+		'session:saved': SessionSavedEvent;
+		'session:error': SessionErrorEvent;
+	}
+}
+
+export interface SessionLifecycleOptions {
+	/** Re-apply the stored storage of each origin the first time page.goto reaches it */
+	restoreOnNewOrigin?: boolean;
+	/** Defaults to page.logger */
+	logger?: Logger;
+}
 
 /**
  * Interface for session-enabled pages
@@ -9,129 +42,181 @@ export interface SessionEnabledPage extends ExtendedPage {
 	saveSession(): Promise<boolean>;
 	clearSession(): Promise<boolean>;
 	restoreSession(): Promise<boolean>;
+	/**
+	 * Resolves once the initial restore finished: true when a session was restored,
+	 * false when none was stored. Rejects with a SessionRestoreError (SessionDecryptionError
+	 * when the stored session cannot be decrypted).
+	 */
+	waitForSessionRestore(): Promise<boolean>;
 	getSessionData(userDataDir?: string): Promise<any | null>;
 }
 
+interface SessionState {
+	restore: (origin?: string) => Promise<boolean>;
+	save: () => Promise<boolean>;
+	restoredOrigins: Set<string>;
+}
+
+// Per-page session functions, used by the lifecycle hooks
+const sessionStates = new WeakMap<Page, SessionState>();
+
 /**
  * SessionPageExtender - Extends pages with session functionality
  */
 export class SessionPageExtender {
 	/**
-	 * Extends a page with session management capabilities
+	 * Extends a page with session management capabilities and starts restoring
+	 * the stored session right away, before the caller navigates. The session is
+	 * saved on page.close and, with restoreOnNewOrigin, restored per origin on page.goto.
 	 */
-	static extendPageWithSession(page: ExtendedPage, userDataDir: string): SessionEnabledPage {
+	static extendPageWithSession(
+		page: ExtendedPage,
+		userDataDir: string,
+		sessionManager: SessionManager = SessionManager.default,
+		options: SessionLifecycleOptions = {},
+	): SessionEnabledPage {
+		const sessionPage = this.attachSession(page, userDataDir, sessionManager, options);
+		new PluginManager(
+			[{ name: 'session', ...this.lifecycleHooks(options) }],
+			options.logger ?? page.logger,
+		).attach(page);
+		return sessionPage;
+	}
+
+	/**
+	 * Hooks saving the session before close and restoring new origins after navigation,
+	 * for pages passed through attachSession()
+	 */
+	static lifecycleHooks(options: Pick<SessionLifecycleOptions, 'restoreOnNewOrigin'> = {}): Pick<FelintoPlugin, 'afterNavigate' | 'beforeClose'> {
+		return {
+			...(options.restoreOnNewOrigin ? {
+				afterNavigate: async ({ page }) => {
+					const state = sessionStates.get(page);
+					const origin = getUrlOrigin(page.url());
+					if (state && origin && !state.restoredOrigins.has(origin)) {
+						state.restoredOrigins.add(origin);
+						// Failures are reported through the session:error event
+						await state.restore(origin).catch(() => false);
+					}
+				},
+			} : {}),
+			beforeClose: async ({ page }) => {
+				// Failures are reported through the session:error event
+				await sessionStates.get(page)?.save();
+			},
+		};
+	}
+
+	/**
+	 * Add the session methods to the page and start the initial restore, without
+	 * touching page.goto or page.close. Tabs sharing the context pass restore: false.
+	 */
+	static attachSession(
+		page: ExtendedPage,
+		userDataDir: string,
+		sessionManager: SessionManager = SessionManager.default,
+		options: Pick<SessionLifecycleOptions, 'logger'> & { restore?: boolean } = {},
+	): SessionEnabledPage {
 		// Cast page to access session methods
 		const sessionPage = page as any;
-		
+
+		const logger = options.logger ?? page.logger ?? silentLogger;
+
+		const emitError = (operation: SessionErrorEvent['operation'], error: unknown) => {
+			logger.error({ operation: `session.${operation}`, userDataDir, url: page.url(), err: error }, `Failed to ${operation} session "${userDataDir}"`);
+			page.emit('session:error', { userDataDir, operation, error: error as Error });
+		};
+
+		// Restore the whole session, or only the storage of one origin
+		const restore = async (origin?: string): Promise<boolean> => {
+			try {
+				const savedSession = await sessionManager.loadSession(userDataDir);
+				if (!savedSession) {
+					return false;
+				}
+
+				// Verifica se o plugin session está disponível
+				if (!origin && sessionPage.session && typeof sessionPage.session.restore === 'function') {
+					await sessionPage.session.restore(savedSession);
+				} else {
+					// Fallback: aplicar dados de sessão manualmente usando SessionDataApplier
+					const snapshot = migrateSessionData(savedSession);
+					await SessionDataApplier.applySessionSnapshot(sessionPage, origin
+						? { ...snapshot, cookies: [], origins: snapshot.origins.filter(entry => entry.origin === origin) }
+						: snapshot
+					);
+				}
+
+				logger.debug({ operation: 'session.restore', userDataDir, origin }, `Session "${userDataDir}" restored`);
+				page.emit('session:restored', { userDataDir, origin });
+				return true;
+			} catch (error) {
+				const restoreError = error instanceof FelintoError
+					? error
+					: new SessionRestoreError(`Failed to restore session "${userDataDir}": ${(error as Error).message}`, error as Error, {
+						context: { userDataDir, origin, url: page.url() },
+					});
+				emitError('restore', restoreError);
+				throw restoreError;
+			}
+		};
+
 		// Add session methods
 		sessionPage.saveSession = async (): Promise<boolean> => {
 			try {
 				// Verifica se o plugin session está disponível
-				if (sessionPage.session && typeof sessionPage.session.dump === 'function') {
-					const sessionData = await sessionPage.session.dump();
-					return await SessionManager.saveSession(userDataDir, sessionData);
+				const sessionData = sessionPage.session && typeof sessionPage.session.dump === 'function'
+					? await sessionPage.session.dump()
+					: await captureSessionSnapshot(sessionPage);
+
+				const saved = await sessionManager.saveSession(userDataDir, sessionData);
+				if (saved) {
+					logger.debug({ operation: 'session.save', userDataDir }, `Session "${userDataDir}" saved`);
+					page.emit('session:saved', { userDataDir });
 				} else {
-					// Fallback: usar coleta manual de dados de sessão
-					const sessionData = await sessionPage.getSessionData();
-					return await SessionManager.saveSession(userDataDir, sessionData);
+					emitError('save', new Error(`Failed to save session "${userDataDir}"`));
 				}
+				return saved;
 			} catch (error) {
-				console.error('Failed to save session:', (error as Error).message);
+				emitError('save', error);
 				return false;
 			}
 		};
 
 		sessionPage.clearSession = async (): Promise<boolean> => {
-			return await SessionManager.clearSession(userDataDir);
+			return await sessionManager.clearSession(userDataDir);
 		};
 
-		// Add method to restore session after navigation
-		sessionPage.restoreSession = async (): Promise<boolean> => {
-			const savedSession = await SessionManager.loadSession(userDataDir);
-			if (savedSession) {
-				try {
-					// Verifica se o plugin session está disponível
-					if (sessionPage.session && typeof sessionPage.session.restore === 'function') {
-						await sessionPage.session.restore(savedSession);
-						return true;
-					} else {
-						// Fallback: aplicar dados de sessão manualmente usando SessionDataApplier
-						await SessionDataApplier.applySessionData(sessionPage, savedSession);
-						return true;
-					}
-				} catch (error) {
-					console.warn('Failed to restore session:', (error as Error).message);
-					return false;
-				}
-			}
-			return false;
-		};
+		sessionPage.restoreSession = (): Promise<boolean> => restore().catch(() => false);
 
 		// Override getSessionData para usar session plugin quando disponível
-		const originalGetSessionData = sessionPage.getSessionData;
 		sessionPage.getSessionData = async (userDataDirParam?: string): Promise<any | null> => {
 			try {
 				// Se um userDataDir foi passado como parâmetro, lê do arquivo
 				if (userDataDirParam) {
-					return await SessionManager.loadSession(userDataDirParam);
+					const savedSession = await sessionManager.loadSession(userDataDirParam);
+					return savedSession ? migrateSessionData(savedSession) : null;
 				}
-				
+
 				// Sem parâmetro: usa session plugin se disponível, senão fallback
 				if (sessionPage.session && typeof sessionPage.session.dump === 'function') {
 					return await sessionPage.session.dump();
 				}
-				
-				// Fallback para implementação padrão se session plugin não estiver disponível
-				return await originalGetSessionData.call(sessionPage);
-			} catch (error) {
-				console.error('Failed to get session data:', (error as Error).message);
-				return null;
-			}
-		};
 
-		// Override goto to restore session after navigation
-		const originalGoto = page.goto;
-		page.goto = async (url: string, options?: any) => {
-			const result = await originalGoto.call(page, url, options);
-			
-			// Try to restore session after successful navigation
-			try {
-				await sessionPage.restoreSession();
+				// Fallback: captura snapshot versionado (cookies + storage por origem + IndexedDB)
+				return await captureSessionSnapshot(sessionPage);
 			} catch (error) {
-				// Ignore restore errors during navigation
+				logger.warn({ operation: 'session.getData', userDataDir: userDataDirParam ?? userDataDir, err: error }, 'Failed to get session data');
+				return null;
 			}
-			
-			return result;
 		};
 
-		// Override close method to auto-save session
-		const originalClose = page.close;
-		page.close = async () => {
-			try {
-				// Tentar salvar sessão antes de fechar
-				await sessionPage.saveSession();
-			} catch (error) {
-				// Ignore save errors during close
-				console.warn('Failed to save session during close:', (error as Error).message);
-			}
-			
-			try {
-				return await originalClose.call(page);
-			} catch (closeError) {
-				// Ignore close errors (common with remote browsers)
-				console.warn('Failed to close page:', (closeError as Error).message);
-			}
-		};
+		sessionStates.set(page, { restore, save: sessionPage.saveSession, restoredOrigins: new Set() });
 
-		// Restore session immediately after page extension (for initial navigation)
-		// This ensures session is restored even if the page was already navigated
-		setTimeout(async () => {
-			try {
-				await sessionPage.restoreSession();
-			} catch (error) {
-				// Ignore restore errors during initialization
-			}
-		}, 1000);
+		// Restore before the first navigation, callers await it through waitForSessionRestore()
+		const initialRestore = options.restore === false ? Promise.resolve(false) : restore();
+		initialRestore.catch(() => undefined);
+		sessionPage.waitForSessionRestore = (): Promise<boolean> => initialRestore;
 
 		return sessionPage as SessionEnabledPage;
 	}
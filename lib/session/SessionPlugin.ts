@@ -0,0 +1,29 @@
+import { FelintoPlugin } from '../plugins/FelintoPlugin';
+import { SessionManager } from './SessionManager';
+import { SessionLifecycleOptions, SessionPageExtender } from './SessionPageExtender';
+
+export interface SessionPluginOptions extends Pick<SessionLifecycleOptions, 'restoreOnNewOrigin'> {
+	userDataDir: string;
+	/** Defaults to SessionManager.default */
+	sessionManager?: SessionManager;
+}
+
+/**
+ * Built-in plugin restoring the stored session before the first navigation, saving it on
+ * close and, with restoreOnNewOrigin, restoring each origin the first time it is reached.
+ * Tabs already share the opener's cookies and storage, they only get the session methods.
+ */
+export const sessionPlugin = ({ userDataDir, sessionManager, ...options }: SessionPluginOptions): FelintoPlugin => ({
+	name: 'session',
+	pageCreated: async ({ page, opener, logger }) => {
+		const sessionPage = SessionPageExtender.attachSession(page, userDataDir, sessionManager, { logger, restore: !opener });
+		// The page stays usable without the session, the failure also reaches
+		// page.waitForSessionRestore() and the session:error event
+		await sessionPage.waitForSessionRestore().catch(error => {
+			logger.warn({ operation: 'session.restore', userDataDir, err: error }, `Continuing without the stored session "${userDataDir}"`);
+			return false;
+		});
+		return sessionPage;
+	},
+	...SessionPageExtender.lifecycleHooks(options),
+});
@@ -0,0 +1,19 @@
+/**
+ * Session record as persisted by a SessionStore
+ */
+export interface StoredSession {
+	userDataDir: string;
+	timestamp: number;
+	expiresAt?: number;
+	sessionData: any;
+}
+
+/**
+ * Storage backend used by SessionManager to persist sessions
+ */
+export interface SessionStore {
+	save(userDataDir: string, session: StoredSession): Promise<void>;
+	load(userDataDir: string): Promise<StoredSession | null>;
+	delete(userDataDir: string): Promise<boolean>;
+	list(): Promise<StoredSession[]>;
+}
@@ -1,2 +1,15 @@
-export { SessionManager } from './SessionManager';
-export { SessionPageExtender, SessionEnabledPage } from './SessionPageExtender';
+export { SessionManager, SessionManagerOptions, SessionInfo } from './SessionManager';
+export {
+	SessionPageExtender,
+	SessionEnabledPage,
+	SessionLifecycleOptions,
+	SessionRestoredEvent,
+	SessionSavedEvent,
+	SessionErrorEvent,
+} from './SessionPageExtender';
+export { sessionPlugin, SessionPluginOptions } from './SessionPlugin';
+export { SessionStore, StoredSession } from './SessionStore';
+export { FileSystemSessionStore, FileSystemSessionStoreOptions } from './FileSystemSessionStore';
+export { MemorySessionStore } from './MemorySessionStore';
+export { RedisSessionStore, RedisSessionStoreOptions, KeyValueClient } from './RedisSessionStore';
+export { SessionCipher, SessionEncryptionOptions, SessionEncryptionKey, EncryptedSessionPayload } from './SessionCipher';
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { Viewport } from 'puppeteer';
+
+export type StealthPresetName = 'windows-chrome' | 'macos-chrome' | 'linux-chrome' | 'android-chrome' | 'ios-safari';
+
+/**
+ * Everything a page exposes about the device. Values must describe the same machine,
+ * sites compare navigator, Client Hints, WebGL and screen against each other.
+ */
+export interface FingerprintProfile {
+	/** `{majorVersion}` is replaced with the browser's major version */
+	userAgent: string;
+	/** navigator.platform */
+	platform: string;
+	/** Client Hints platform (Sec-CH-UA-Platform) */
+	clientHintsPlatform: 'Windows' | 'macOS' | 'Android' | 'Linux' | 'iOS';
+	/** Whether Client Hints are sent, WebKit browsers send none (default: true) */
+	clientHints?: boolean;
+	platformVersion: string;
+	architecture: string;
+	bitness: string;
+	model: string;
+	mobile: boolean;
+	languages: string[];
+	timezone?: string;
+	webgl: {
+		vendor: string;
+		renderer: string;
+	};
+	screen: {
+		width: number;
+		height: number;
+		colorDepth: number;
+	};
+	viewport: Viewport;
+	hardwareConcurrency: number;
+	deviceMemory: number;
+	maxTouchPoints: number;
+}
+
+/**
+ * stealth option of newPage: a preset name, true to pick the preset matching userAgent,
+ * or a preset with overrides
+ */
+export type StealthOptions = boolean | StealthPresetName | (Partial<FingerprintProfile> & { preset?: StealthPresetName });
+
+const CHROME_DESKTOP_LANGUAGES = ['en-US', 'en'];
+
+export const FINGERPRINT_PRESETS: Record<StealthPresetName, FingerprintProfile> = {
+	'windows-chrome': {
+		userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/{majorVersion}.0.0.0 Safari/537.36',
+		platform: 'Win32',
+		clientHintsPlatform: 'Windows',
+		platformVersion: '15.0.0',
+		architecture: 'x86',
+		bitness: '64',
+		model: '',
+		mobile: false,
+		languages: CHROME_DESKTOP_LANGUAGES,
+		webgl: {
+			vendor: 'Google Inc. (NVIDIA)',
+			renderer: 'ANGLE (NVIDIA, NVIDIA GeForce GTX 1660 SUPER Direct3D11 vs_5_0 ps_5_0, D3D11)',
+		},
+		screen: { width: 1920, height: 1080, colorDepth: 24 },
+		viewport: { width: 1920, height: 955, deviceScaleFactor: 1 },
+		hardwareConcurrency: 8,
+		deviceMemory: 8,
+		maxTouchPoints: 0,
+	},
+	'macos-chrome': {
+		userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/{majorVersion}.0.0.0 Safari/537.36',
+		platform: 'MacIntel',
+		clientHintsPlatform: 'macOS',
+		platformVersion: '14.5.0',
+		architecture: 'arm',
+		bitness: '64',
+		model: '',
+		mobile: false,
+		languages: CHROME_DESKTOP_LANGUAGES,
+		webgl: {
+			vendor: 'Google Inc. (Apple)',
+			renderer: 'ANGLE (Apple, ANGLE Metal Renderer: Apple M1, Unspecified Version)',
+		},
+		screen: { width: 1440, height: 900, colorDepth: 30 },
+		viewport: { width: 1440, height: 789, deviceScaleFactor: 2 },
+		hardwareConcurrency: 8,
+		deviceMemory: 8,
+		maxTouchPoints: 0,
+	},
+	'linux-chrome': {
+		userAgent: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/{majorVersion}.0.0.0 Safari/537.36',
+		platform: 'Linux x86_64',
+		clientHintsPlatform: 'Linux',
+		platformVersion: '6.5.0',
+		architecture: 'x86',
+		bitness: '64',
+		model: '',
+		mobile: false,
+		languages: CHROME_DESKTOP_LANGUAGES,
+		webgl: {
+			vendor: 'Google Inc. (Intel)',
+			renderer: 'ANGLE (Intel, Mesa Intel(R) UHD Graphics 620 (KBL GT2), OpenGL 4.6)',
+		},
+		screen: { width: 1920, height: 1080, colorDepth: 24 },
+		viewport: { width: 1920, height: 975, deviceScaleFactor: 1 },
+		hardwareConcurrency: 8,
+		deviceMemory: 8,
+		maxTouchPoints: 0,
+	},
+	'android-chrome': {
+		userAgent: 'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/{majorVersion}.0.0.0 Mobile Safari/537.36',
+		platform: 'Linux armv81',
+		clientHintsPlatform: 'Android',
+		platformVersion: '14.0.0',
+		architecture: '',
+		bitness: '',
+		model: 'Pixel 7',
+		mobile: true,
+		languages: CHROME_DESKTOP_LANGUAGES,
+		webgl: {
+			vendor: 'ARM',
+			renderer: 'Mali-G710',
+		},
+		screen: { width: 412, height: 915, colorDepth: 24 },
+		viewport: { width: 412, height: 839, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true },
+		hardwareConcurrency: 8,
+		deviceMemory: 8,
+		maxTouchPoints: 5,
+	},
+	'ios-safari': {
+		userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+		platform: 'iPhone',
+		clientHintsPlatform: 'iOS',
+		clientHints: false,
+		platformVersion: '17.5.0',
+		architecture: '',
+		bitness: '',
+		model: '',
+		mobile: true,
+		languages: CHROME_DESKTOP_LANGUAGES,
+		webgl: {
+			vendor: 'Apple Inc.',
+			renderer: 'Apple GPU',
+		},
+		screen: { width: 390, height: 844, colorDepth: 24 },
+		viewport: { width: 390, height: 664, deviceScaleFactor: 3, isMobile: true, hasTouch: true },
+		hardwareConcurrency: 4,
+		deviceMemory: 4,
+		maxTouchPoints: 5,
+	},
+};
+
+/**
+ * Preset describing the same OS as the user agent. iOS user agents also say "Mac OS X"
+ * and Android ones "Linux", so both are matched first.
+ */
+export const detectStealthPreset = (userAgent: string): StealthPresetName => {
+	if (/Android/i.test(userAgent)) return 'android-chrome';
+	if (/iPhone|iPad|iPod/i.test(userAgent)) return 'ios-safari';
+	if (/Macintosh|Mac OS X/i.test(userAgent)) return 'macos-chrome';
+	if (/Linux|X11|CrOS/i.test(userAgent)) return 'linux-chrome';
+	return 'windows-chrome';
+};
+
+/**
+ * Build the final profile: preset, overrides, then the explicit userAgent, locale and timezone of newPage
+ * @param browserVersion Result of browser.version(), e.g. "HeadlessChrome/127.0.6533.88"
+ */
+export const resolveFingerprint = (
+	stealth: Exclude<StealthOptions, false>,
+	browserVersion: string,
+	explicit: { userAgent?: string; locale?: string; timezoneId?: string } = {},
+): FingerprintProfile => {
+	const overrides = typeof stealth === 'object' ? stealth : {};
+	const presetName = typeof stealth === 'string'
+		? stealth
+		: overrides.preset ?? detectStealthPreset(explicit.userAgent ?? overrides.userAgent ?? '');
+	const { preset, ...settings } = overrides as Partial<FingerprintProfile> & { preset?: StealthPresetName };
+
+	const profile: FingerprintProfile = { ...FINGERPRINT_PRESETS[presetName], ...settings };
+
+	const majorVersion = browserVersion.match(/\/(\d+)\./)?.[1] ?? '127';
+	profile.userAgent = (explicit.userAgent ?? profile.userAgent).replace('{majorVersion}', majorVersion);
+
+	if (explicit.timezoneId) {
+		profile.timezone = explicit.timezoneId;
+	}
+
+	if (explicit.locale && !settings.languages) {
+		const language = explicit.locale.split('-')[0]!;
+		profile.languages = language === explicit.locale ? [explicit.locale] : [explicit.locale, language];
+	}
+
+	return profile;
+};
@@ -0,0 +1,150 @@
+import { CDPSession, Page, Protocol } from 'puppeteer';
+import { FingerprintProfile } from './FingerprintProfile';
+
+// WEBGL_debug_renderer_info constants
+const UNMASKED_VENDOR_WEBGL = 0x9245;
+const UNMASKED_RENDERER_WEBGL = 0x9246;
+
+/**
+ * Client Hints matching the user agent, so Sec-CH-UA and navigator.userAgentData agree with it
+ */
+const buildUserAgentMetadata = (profile: FingerprintProfile, browserVersion: string): Protocol.Emulation.UserAgentMetadata => {
+	const majorVersion = profile.userAgent.match(/Chrome\/(\d+)/)?.[1] ?? '127';
+	const browserFullVersion = browserVersion.match(/\/(\d+\.\d+\.\d+\.\d+)/)?.[1];
+	const fullVersion = browserFullVersion?.startsWith(`${majorVersion}.`) ? browserFullVersion : `${majorVersion}.0.0.0`;
+
+	return {
+		brands: [
+			{ brand: 'Not)A;Brand', version: '99' },
+			{ brand: 'Google Chrome', version: majorVersion },
+			{ brand: 'Chromium', version: majorVersion },
+		],
+		fullVersionList: [
+			{ brand: 'Not)A;Brand', version: '99.0.0.0' },
+			{ brand: 'Google Chrome', version: fullVersion },
+			{ brand: 'Chromium', version: fullVersion },
+		],
+		fullVersion,
+		platform: profile.clientHintsPlatform,
+		platformVersion: profile.platformVersion,
+		architecture: profile.architecture,
+		bitness: profile.bitness,
+		model: profile.model,
+		mobile: profile.mobile,
+		wow64: false,
+	};
+};
+
+/**
+ * Runs in every document before the page scripts. Avoids async/await so it
+ * survives the TypeScript downlevel emit.
+ */
+const patchNavigator = (fingerprint: {
+	languages: string[];
+	hardwareConcurrency: number;
+	deviceMemory: number;
+	maxTouchPoints: number;
+	screen: FingerprintProfile['screen'];
+	webgl: FingerprintProfile['webgl'];
+	vendorParameter: number;
+	rendererParameter: number;
+}) => {
+	const defineGetter = (target: object, property: string, value: unknown) => {
+		try {
+			Object.defineProperty(target, property, { get: () => value, configurable: true, enumerable: true });
+		} catch (e) {
+			// Property is not configurable in this context
+		}
+	};
+
+	// Patched functions print as native code, through Function.prototype.toString itself so .call() agrees
+	const nativeSources = new WeakMap<Function, string>();
+	const toString = Function.prototype.toString;
+	const patchedToString = function (this: Function) {
+		return nativeSources.get(this) ?? toString.call(this);
+	};
+	nativeSources.set(patchedToString, 'function toString() { [native code] }');
+	Object.defineProperty(patchedToString, 'name', { value: 'toString' });
+	Function.prototype.toString = patchedToString;
+
+	const navigatorPrototype = Object.getPrototypeOf(navigator);
+	defineGetter(navigatorPrototype, 'webdriver', false);
+	defineGetter(navigatorPrototype, 'languages', Object.freeze(fingerprint.languages.slice()));
+	defineGetter(navigatorPrototype, 'language', fingerprint.languages[0]);
+	defineGetter(navigatorPrototype, 'hardwareConcurrency', fingerprint.hardwareConcurrency);
+	defineGetter(navigatorPrototype, 'deviceMemory', fingerprint.deviceMemory);
+	defineGetter(navigatorPrototype, 'maxTouchPoints', fingerprint.maxTouchPoints);
+
+	if (typeof screen !== 'undefined') {
+		const screenPrototype = Object.getPrototypeOf(screen);
+		defineGetter(screenPrototype, 'width', fingerprint.screen.width);
+		defineGetter(screenPrototype, 'height', fingerprint.screen.height);
+		defineGetter(screenPrototype, 'availWidth', fingerprint.screen.width);
+		defineGetter(screenPrototype, 'availHeight', fingerprint.screen.height);
+		defineGetter(screenPrototype, 'colorDepth', fingerprint.screen.colorDepth);
+		defineGetter(screenPrototype, 'pixelDepth', fingerprint.screen.colorDepth);
+	}
+
+	const contexts = [
+		typeof WebGLRenderingContext !== 'undefined' ? WebGLRenderingContext : undefined,
+		typeof WebGL2RenderingContext !== 'undefined' ? WebGL2RenderingContext : undefined,
+	];
+	for (const context of contexts) {
+		if (!context) continue;
+		const getParameter = context.prototype.getParameter;
+		const patched = function (this: WebGLRenderingContext, parameter: number) {
+			if (parameter === fingerprint.vendorParameter) return fingerprint.webgl.vendor;
+			if (parameter === fingerprint.rendererParameter) return fingerprint.webgl.renderer;
+			return getParameter.call(this, parameter);
+		};
+		// Keep the native name and source so the override is not obvious
+		Object.defineProperty(patched, 'name', { value: 'getParameter' });
+		nativeSources.set(patched, 'function getParameter() { [native code] }');
+		context.prototype.getParameter = patched as typeof getParameter;
+	}
+};
+
+/**
+ * StealthApplier - Applies a fingerprint profile to a page through CDP and init scripts
+ */
+export class StealthApplier {
+	/**
+	 * Apply the profile. The CDP session is returned and must stay attached,
+	 * overrides are dropped when it detaches.
+	 */
+	static async apply(page: Page, profile: FingerprintProfile): Promise<CDPSession> {
+		const browserVersion = await page.browser().version();
+		const client = await page.target().createCDPSession();
+
+		await client.send('Network.setUserAgentOverride', {
+			userAgent: profile.userAgent,
+			acceptLanguage: profile.languages.join(','),
+			platform: profile.platform,
+			userAgentMetadata: profile.clientHints === false ? undefined : buildUserAgentMetadata(profile, browserVersion),
+		});
+
+		if (profile.timezone) {
+			await client.send('Emulation.setTimezoneOverride', { timezoneId: profile.timezone });
+		}
+
+		if (profile.maxTouchPoints > 0) {
+			await client.send('Emulation.setTouchEmulationEnabled', {
+				enabled: true,
+				maxTouchPoints: profile.maxTouchPoints,
+			});
+		}
+
+		await page.evaluateOnNewDocument(patchNavigator, {
+			languages: profile.languages,
+			hardwareConcurrency: profile.hardwareConcurrency,
+			deviceMemory: profile.deviceMemory,
+			maxTouchPoints: profile.maxTouchPoints,
+			screen: profile.screen,
+			webgl: profile.webgl,
+			vendorParameter: UNMASKED_VENDOR_WEBGL,
+			rendererParameter: UNMASKED_RENDERER_WEBGL,
+		});
+
+		return client;
+	}
+}
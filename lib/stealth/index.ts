@@ -0,0 +1,9 @@
+export {
+	FingerprintProfile,
+	StealthOptions,
+	StealthPresetName,
+	FINGERPRINT_PRESETS,
+	detectStealthPreset,
+	resolveFingerprint,
+} from './FingerprintProfile';
+export { StealthApplier } from './StealthApplier';
@@ -0,0 +1,114 @@
+import { Page } from 'puppeteer';
+import { ExtendedPage } from '../types';
+import { FelintoError } from '../utils/custom-errors';
+import { Logger, silentLogger } from '../utils/logger';
+
+/**
+ * Prepares a tab before it is handed over, `opener` being the page that opened it
+ */
+export type TabConfigurator = (tab: ExtendedPage, opener: ExtendedPage) => Promise<ExtendedPage>;
+
+export interface WaitForPopupOptions {
+	/** Milliseconds to wait for the popup to open (default: 30000) */
+	timeout?: number;
+}
+
+/**
+ * TabManager - Registry of the popups and target=_blank tabs opened by a page, and by
+ * those tabs in turn, each configured like the page before use
+ */
+export class TabManager {
+	private readonly tabs: ExtendedPage[] = [];
+	/** Configuration in progress or done, by popup */
+	private readonly ready = new WeakMap<Page, Promise<ExtendedPage>>();
+
+	constructor(
+		private readonly page: ExtendedPage,
+		private readonly configure: TabConfigurator,
+		private readonly logger: Logger = silentLogger,
+	) {
+		this.watch(page);
+	}
+
+	/**
+	 * Open tabs, oldest first
+	 */
+	list(): ExtendedPage[] {
+		return [...this.tabs];
+	}
+
+	/**
+	 * Run the action and resolve with the popup it opens, once configured
+	 * @param opener Page expected to open the popup, defaults to the registry's page
+	 * @throws {FelintoError} When no popup opens within the timeout
+	 */
+	async waitForPopup(
+		action?: () => unknown | Promise<unknown>,
+		options: WaitForPopupOptions = {},
+		opener: ExtendedPage = this.page,
+	): Promise<ExtendedPage> {
+		const timeout = options.timeout ?? 30000;
+		let onPopup!: (popup: Page | null) => void;
+		let timer: NodeJS.Timeout | undefined;
+
+		const opened = new Promise<Page>((resolve, reject) => {
+			onPopup = popup => {
+				if (popup) resolve(popup);
+			};
+			timer = setTimeout(() => reject(new FelintoError(`No popup opened within ${timeout}ms.`, undefined, {
+				retryable: true,
+				context: { url: opener.url() },
+			})), timeout);
+		});
+		// The timeout may fire while the action still runs, before anything awaits the popup
+		opened.catch(() => undefined);
+		opener.on('popup', onPopup);
+
+		try {
+			await action?.();
+			const popup = await opened;
+			return await (this.ready.get(popup) ?? this.adopt(popup, opener));
+		} finally {
+			clearTimeout(timer);
+			opener.off('popup', onPopup);
+		}
+	}
+
+	/**
+	 * Close every open tab
+	 */
+	async closeAll(): Promise<void> {
+		await Promise.all(this.list().map(tab => tab.close().catch(() => undefined)));
+	}
+
+	private watch(opener: ExtendedPage): void {
+		opener.on('popup', popup => {
+			if (popup) this.adopt(popup, opener);
+		});
+	}
+
+	private adopt(popup: Page, opener: ExtendedPage): Promise<ExtendedPage> {
+		const existing = this.ready.get(popup);
+		if (existing) return existing;
+
+		const ready = this.configure(popup as ExtendedPage, opener).catch(error => {
+			// The tab stays usable, only without the page settings
+			this.logger.warn({ operation: 'tab.configure', url: popup.url(), err: error }, 'Failed to configure tab');
+			return popup as ExtendedPage;
+		});
+		this.ready.set(popup, ready);
+
+		ready.then(tab => {
+			if (tab.isClosed()) return;
+			this.tabs.push(tab);
+			tab.once('close', () => {
+				const index = this.tabs.indexOf(tab);
+				if (index >= 0) this.tabs.splice(index, 1);
+			});
+			tab.tabs = this;
+			tab.waitForPopup = (action, options) => this.waitForPopup(action, options, tab);
+			this.watch(tab);
+		});
+		return ready;
+	}
+}
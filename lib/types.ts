@@ -1,24 +1,92 @@
-import { Page, ConnectOptions, CookieParam, GoToOptions } from 'puppeteer';
-import { SessionManager, SessionPageExtender } from './session';
+import { Page, ConnectOptions, CookieParam, GoToOptions, Viewport, KnownDevices, GeolocationOptions, Permission } from 'puppeteer';
+import { SessionManager, SessionPageExtender, SessionEncryptionOptions } from './session';
+import { BrowserLaunchOptions } from './utils/browser-factory';
+import { RetryPolicy } from './utils/retry-mechanism';
+import { Logger } from './utils/logger';
+import { InterceptionRule } from './utils/request-interceptor';
+import { BrowserPool } from './pool';
+import { ProfileManager } from './profile';
+import { ProxyConfig, ProxyProvider } from './proxy';
+import { HttpClient } from './http';
+import { StealthOptions } from './stealth';
+import { CaptchaSolver, SolveCaptchasOptions, SolveCaptchasResult } from './captcha';
+import { FelintoPlugin } from './plugins';
+import { Har, HarOptions } from './har';
+import { DownloadManager, DownloadOptions, UploadFile } from './files';
+import { TabManager, WaitForPopupOptions } from './tabs';
+import { ExtractSchema, Extracted } from './extract';
 
 export interface ExtendedPage extends Page {
 	session?: SessionPageExtender;
+	/** HTTP client sharing the page's cookies, user agent, extra headers and proxy */
+	http?: HttpClient;
+	/** Detect, solve and fill every captcha of the page with the configured solvers */
+	solveCaptchas?: (options?: SolveCaptchasOptions) => Promise<SolveCaptchasResult>;
+	/** Logger bound to this page (pageId field) */
+	logger?: Logger;
+	/** Record the network traffic, options default to newPage's `har` */
+	startHar?: (options?: HarOptions) => Promise<void>;
+	/** Stop recording, write the HAR to its path (if any) and return it */
+	stopHar?: () => Promise<Har>;
+	/** Download directory and waitForDownload() */
+	downloads?: DownloadManager;
+	/** Select files (paths or Buffers) in a file input */
+	uploadFiles?: (selector: string, files: UploadFile[]) => Promise<void>;
+	/** Popups and tabs opened from this page, configured like it */
+	tabs?: TabManager;
+	/** Run the action and resolve with the popup it opens */
+	waitForPopup?: (action?: () => unknown | Promise<unknown>, options?: WaitForPopupOptions) => Promise<ExtendedPage>;
+	/** Read the fields of a schema, typed from it */
+	extract?: <const S extends ExtractSchema>(schema: S) => Promise<Extracted<S>>;
 }
 
 export interface NewPageParams {
 	browserWSEndpoint?: string;
+	launch?: BrowserLaunchOptions;
+	pool?: BrowserPool;
 	twoCaptchaKey?: string;
-	proxy?: {
-		server: string;
-		username?: string;
-		password?: string;
-	};
+	/** Solvers tried in order for each captcha, defaults to 2Captcha when twoCaptchaKey is set */
+	captchaSolver?: CaptchaSolver | CaptchaSolver[];
+	proxy?: ProxyConfig;
+	proxyProvider?: ProxyProvider;
 	cookies?: CookieParam[];
+	/**
+	 * 'context' opens the page in its own incognito browser context, disposed when the page
+	 * closes, so cookies, storage and cache are never shared. Proxied pages are too, unless proxy.context is false.
+	 * Default: 'none', the browser's default context.
+	 */
+	isolation?: 'none' | 'context';
 	userAgent?: string;
+	stealth?: StealthOptions;
+	/** Puppeteer KnownDevices name, sets user agent and viewport */
+	device?: keyof typeof KnownDevices;
+	viewport?: Viewport;
+	locale?: string;
+	timezoneId?: string;
+	/** Also grants the geolocation permission */
+	geolocation?: GeolocationOptions;
+	/** Granted to the whole context of a page that owns one, else to the origins the page navigates to */
+	permissions?: Permission[];
+	colorScheme?: 'light' | 'dark' | 'no-preference';
 	blockResources?: boolean;
+	interception?: InterceptionRule[];
+	profile?: string;
+	profileManager?: ProfileManager;
+	userDataDir?: string;
 	sessionManager?: SessionManager;
+	restoreSessionOnNewOrigin?: boolean;
+	sessionEncryption?: SessionEncryptionOptions;
 	extraHeaders?: Record<string, string>;
 	connectOptions?: ConnectOptions;
 	initialUrl?: string;
 	navigationOptions?: GoToOptions;
+	retryOptions?: RetryPolicy;
+	/** pino-compatible logger, silent by default (console JSON lines when NODE_ENV is development) */
+	logger?: Logger;
+	/** Record the network traffic from the start, written to har.path on close */
+	har?: HarOptions;
+	/** Configure the download directory from the start, page.downloads works without it too */
+	downloads?: DownloadOptions;
+	/** Lifecycle hooks run after the built-in HAR, files, interception, captcha and session plugins */
+	plugins?: FelintoPlugin[];
 }
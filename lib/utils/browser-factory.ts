@@ -4,15 +4,26 @@ import puppeteerCore from 'puppeteer-core';
 
 // Tell puppeteer-extra to use puppeteer-core instead of puppeteer (no bundled Chromium)
 (puppeteerExtra as any).puppeteer = puppeteerCore;
-import RecaptchaPlugin from 'puppeteer-extra-plugin-recaptcha';
-import { BrowserConnectionError } from './custom-errors';
+import { BrowserConnectionError, RetryExhaustedError } from './custom-errors';
 import { retryOperation, RetryOptions } from './retry-mechanism';
 
+/**
+ * Options for launching a local Chromium instead of connecting to a remote one
+ */
+export interface BrowserLaunchOptions {
+	executablePath?: string;
+	headless?: boolean | 'shell';
+	args?: string[];
+	userDataDir?: string;
+}
+
 export interface BrowserFactoryOptions {
 	browserWSEndpoint?: string;
 	slowMo?: number;
 	retryOptions?: RetryOptions;
+	/** @deprecated Ignored, newPage applies the 2Captcha key to each page through its captcha plugin */
 	twoCaptchaKey?: string;
+	launch?: BrowserLaunchOptions;
 }
 
 export class BrowserFactory {
@@ -33,18 +44,15 @@ export class BrowserFactory {
 	}
 
 	static async createBrowser(options: BrowserFactoryOptions): Promise<Browser> {
-		const { browserWSEndpoint, slowMo, retryOptions = { maxRetries: 3, baseDelay: 1000 }, twoCaptchaKey } = options;
+		const { browserWSEndpoint, slowMo, retryOptions = {}, launch } = options;
+		const commonArgs = this.getCommonPuppeteerArgs(slowMo);
 
-		const resolvedCaptchaKey = twoCaptchaKey || process.env.TWO_CAPTCHA_KEY;
-		if (resolvedCaptchaKey) {
-			puppeteerExtra.use(RecaptchaPlugin({
-				provider: { id: '2captcha', token: resolvedCaptchaKey },
-			}));
+		if (launch) {
+			return this.launchBrowser(launch, commonArgs, retryOptions);
 		}
-		const commonArgs = this.getCommonPuppeteerArgs(slowMo);
 
 		if (!browserWSEndpoint) {
-			throw new BrowserConnectionError('Browser WebSocket endpoint is required. Please provide browserWSEndpoint or set CHROME_HEADLESS_WS_URL environment variable.');
+			throw new BrowserConnectionError('Browser WebSocket endpoint is required. Please provide browserWSEndpoint or set CHROME_HEADLESS_WS_URL environment variable.', undefined, { retryable: false });
 		}
 
 		// Se o endpoint for apenas ws://host:port, tentar obter o endpoint específico do browser
@@ -82,32 +90,85 @@ export class BrowserFactory {
 					} catch (error) {
 						const err = error as Error;
 						if (err.message.includes('ECONNREFUSED') || err.message.includes('connection refused')) {
-							throw new BrowserConnectionError(`Failed to connect to browser at ${browserWSEndpoint}`, err);
+							throw new BrowserConnectionError(`Failed to connect to browser at ${browserWSEndpoint}`, err, { context: { endpoint: browserWSEndpoint } });
 						}
 						if (err.message.includes('timeout')) {
-							throw new BrowserConnectionError(`Connection timeout to browser at ${browserWSEndpoint}`, err);
+							throw new BrowserConnectionError(`Connection timeout to browser at ${browserWSEndpoint}`, err, { context: { endpoint: browserWSEndpoint } });
 						}
 						if (err.message.includes('WebSocket')) {
-							throw new BrowserConnectionError(`WebSocket connection failed to ${browserWSEndpoint}`, err);
+							throw new BrowserConnectionError(`WebSocket connection failed to ${browserWSEndpoint}`, err, { context: { endpoint: browserWSEndpoint } });
 						}
-						throw new BrowserConnectionError(`Unexpected browser connection error: ${err.message}`, err);
+						throw new BrowserConnectionError(`Unexpected browser connection error: ${err.message}`, err, { context: { endpoint: browserWSEndpoint } });
 					}
 				},
-				retryOptions.maxRetries,
-				retryOptions.baseDelay,
+				retryOptions,
 				'Browser connection'
 			);
 
-			if (!browser) {
-				throw new BrowserConnectionError('Failed to create browser instance, received null.');
-			}
 			return browser;
 			
 		} catch (error) {
 			if (error instanceof BrowserConnectionError) {
 				throw error;
 			}
-			throw new BrowserConnectionError(`Failed to create browser: ${(error as Error).message}`, error as Error);
+			if (error instanceof RetryExhaustedError) {
+				throw new BrowserConnectionError(error.message, error, { context: { endpoint: browserWSEndpoint } });
+			}
+			throw new BrowserConnectionError(`Failed to create browser: ${(error as Error).message}`, error as Error, { context: { endpoint: browserWSEndpoint } });
+		}
+	}
+
+	/**
+	 * Launch a local Chromium through puppeteer-extra
+	 */
+	private static async launchBrowser(
+		launch: BrowserLaunchOptions,
+		commonArgs: Partial<ConnectOptions>,
+		retryOptions: RetryOptions,
+	): Promise<Browser> {
+		const executablePath = launch.executablePath || process.env.CHROME_EXECUTABLE_PATH;
+		if (!executablePath) {
+			throw new BrowserConnectionError('Chrome executable path is required to launch a local browser. Please provide launch.executablePath or set CHROME_EXECUTABLE_PATH environment variable.', undefined, { retryable: false });
+		}
+
+		const args = launch.args ?? process.env.CHROME_HEADLESS_ARGS?.split(',').filter(Boolean);
+
+		try {
+			const browser = await retryOperation(
+				async () => {
+					try {
+						return await puppeteerExtra.launch({
+							executablePath,
+							headless: launch.headless ?? true,
+							args,
+							userDataDir: launch.userDataDir,
+							...commonArgs,
+						});
+					} catch (error) {
+						const err = error as Error;
+						if (err.message.includes('ENOENT')) {
+							throw new BrowserConnectionError(`Chrome executable not found at ${executablePath}`, err, { context: { endpoint: executablePath }, retryable: false });
+						}
+						if (err.message.includes('timeout') || err.message.includes('Timed out')) {
+							throw new BrowserConnectionError(`Timeout while launching browser at ${executablePath}`, err, { context: { endpoint: executablePath } });
+						}
+						throw new BrowserConnectionError(`Unexpected browser launch error: ${err.message}`, err, { context: { endpoint: executablePath } });
+					}
+				},
+				retryOptions,
+				'Browser launch'
+			);
+
+			return browser;
+
+		} catch (error) {
+			if (error instanceof BrowserConnectionError) {
+				throw error;
+			}
+			if (error instanceof RetryExhaustedError) {
+				throw new BrowserConnectionError(error.message, error, { context: { endpoint: executablePath } });
+			}
+			throw new BrowserConnectionError(`Failed to launch browser: ${(error as Error).message}`, error as Error, { context: { endpoint: executablePath } });
 		}
 	}
-} 
\ No newline at end of file
+}
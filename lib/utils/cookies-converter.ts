@@ -1,34 +1,450 @@
-import { Protocol, CookieParam } from 'puppeteer';
-import { Cookie } from 'tough-cookie';
+import { CookieParam, CookieSameSite } from 'puppeteer';
+import { Cookie, CookieJar, SerializedCookieJar } from 'tough-cookie';
 
-export const puppeteerToHeaderSetCookie = (
-	cookies: CookieParam[]
-) => {
-	return cookies.map(cookie => {
-		let cookieStr = `${cookie.name}=${cookie.value}`;
-		return cookieStr;
-	}).join('; ');
+/**
+ * Cookie as exported by HAR files (`log.entries[].request.cookies`)
+ */
+export interface HarCookie {
+	name: string;
+	value: string;
+	path?: string;
+	domain?: string;
+	/** ISO 8601 date */
+	expires?: string | null;
+	httpOnly?: boolean;
+	secure?: boolean;
+	sameSite?: string;
+	comment?: string;
+}
+
+/**
+ * Cookie as exported by the EditThisCookie and Cookie-Editor browser extensions
+ */
+export interface ExtensionCookie {
+	name: string;
+	value: string;
+	domain: string;
+	path: string;
+	/** Unix time in seconds, missing for session cookies */
+	expirationDate?: number;
+	hostOnly: boolean;
+	httpOnly: boolean;
+	secure: boolean;
+	session: boolean;
+	sameSite: 'no_restriction' | 'lax' | 'strict' | 'unspecified' | null;
+	storeId?: string | null;
+}
+
+/**
+ * HAR file, only the parts read for the cookies set by responses
+ */
+interface HarLog {
+	log: {
+		entries: Array<{
+			request?: { url?: string };
+			response?: { cookies?: HarCookie[] };
+		}>;
+	};
 }
 
-export const headerSetCookieToPuppeteer = (setCookieHeader: string) => {
-	const cookies: any[] = [];
-	const cookieStrings = setCookieHeader.split('; ');
-
-	cookieStrings.forEach(cookieString => {
-		const cookie = Cookie.parse(cookieString);
-		if (cookie) {
-			cookies.push({
-				name: cookie.key,
-				value: cookie.value,
-				domain: cookie.domain,
-				path: cookie.path,
-				expires: cookie.expires instanceof Date ? cookie.expires.getTime() / 1000 : -1,
-				httpOnly: cookie.httpOnly,
-				secure: cookie.secure,
-				sameSite: cookie.sameSite
-			});
+// Attributes that may follow the name=value pair of a Set-Cookie header, with the values they take
+// so that a Cookie header pair named like an attribute (path=abc) is still read as a cookie
+const SET_COOKIE_ATTRIBUTES: Record<string, (value: string | undefined) => boolean> = {
+	expires: value => value !== undefined && !Number.isNaN(Date.parse(value)),
+	'max-age': value => value !== undefined && /^-?\d+$/.test(value),
+	domain: value => value !== undefined && /^\.?[a-z0-9.-]+$/i.test(value),
+	path: value => value !== undefined && value.startsWith('/'),
+	secure: value => value === undefined,
+	httponly: value => value === undefined,
+	partitioned: value => value === undefined,
+	samesite: value => value !== undefined && /^(strict|lax|none)$/i.test(value),
+	priority: value => value !== undefined && /^(low|medium|high)$/i.test(value),
+};
+
+const NETSCAPE_HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+const normalizeSameSite = (sameSite: unknown): CookieSameSite | undefined => {
+	switch (typeof sameSite === 'string' ? sameSite.toLowerCase() : undefined) {
+		case 'strict':
+			return 'Strict';
+		case 'lax':
+			return 'Lax';
+		case 'none':
+		case 'no_restriction':
+			return 'None';
+		default:
+			return undefined;
+	}
+};
+
+const isSessionCookie = (cookie: CookieParam) =>
+	cookie.expires === undefined || cookie.expires < 0 || ('session' in cookie && cookie.session === true);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => Boolean(value) && typeof value === 'object';
+
+const hasCookieArray = (value: Record<string, unknown>): value is { cookies: unknown[] } => Array.isArray(value.cookies);
+
+const isSerializedCookieJar = (value: { cookies: unknown[] }): value is SerializedCookieJar => 'storeType' in value;
+
+const isHarLog = (value: Record<string, unknown>): value is Record<string, unknown> & HarLog =>
+	isRecord(value.log) && Array.isArray(value.log.entries);
+
+const isSetCookieAttribute = (segment: string): boolean => {
+	const separator = segment.indexOf('=');
+	const name = (separator < 0 ? segment : segment.slice(0, separator)).trim().toLowerCase();
+	const value = separator < 0 ? undefined : segment.slice(separator + 1).trim();
+	return SET_COOKIE_ATTRIBUTES[name]?.(value) ?? false;
+};
+
+const isHostOnly = (cookie: CookieParam) => !(cookie.domain || '').startsWith('.');
+
+// Unix time in seconds, -1 for session cookies (tough-cookie uses Infinity) and 0 for Max-Age <= 0
+const toughCookieExpires = (cookie: Cookie) => {
+	const time = cookie.expiryTime();
+	if (time === -Infinity) return 0;
+	return time !== undefined && Number.isFinite(time) ? time / 1000 : -1;
+};
+
+const stripLeadingDot = (domain: string) => domain.replace(/^\./, '');
+
+/**
+ * Convert a cookie in any supported JSON shape (Puppeteer, HAR, EditThisCookie/Cookie-Editor)
+ * to a Puppeteer CookieParam, dropping fields Chrome does not accept
+ */
+export const normalizeCookie = (cookie: any): CookieParam => {
+	const normalized: CookieParam = {
+		name: String(cookie.name),
+		value: String(cookie.value ?? ''),
+		path: cookie.path || '/',
+		secure: Boolean(cookie.secure),
+		httpOnly: Boolean(cookie.httpOnly),
+	};
+
+	if (cookie.url) {
+		normalized.url = cookie.url;
+	}
+	if (cookie.domain) {
+		// Extensions flag domain cookies with hostOnly instead of the leading dot
+		normalized.domain = cookie.hostOnly === false && !cookie.domain.startsWith('.')
+			? `.${cookie.domain}`
+			: cookie.domain;
+	}
+
+	const sameSite = normalizeSameSite(cookie.sameSite);
+	if (sameSite) {
+		normalized.sameSite = sameSite;
+	}
+
+	if (cookie.session !== true) {
+		if (typeof cookie.expirationDate === 'number') {
+			normalized.expires = cookie.expirationDate;
+		} else if (typeof cookie.expires === 'number' && cookie.expires > 0) {
+			normalized.expires = cookie.expires;
+		} else if (typeof cookie.expires === 'string' && cookie.expires) {
+			const time = Date.parse(cookie.expires);
+			if (!Number.isNaN(time)) normalized.expires = time / 1000;
 		}
+	}
+
+	return normalized;
+};
+
+/**
+ * Build one Set-Cookie header per cookie, keeping every attribute
+ */
+export const puppeteerToSetCookieHeaders = (cookies: CookieParam[]): string[] => {
+	return cookies.map(cookie => {
+		const parts = [`${cookie.name}=${cookie.value}`];
+		if (cookie.domain && !isHostOnly(cookie)) parts.push(`Domain=${stripLeadingDot(cookie.domain)}`);
+		parts.push(`Path=${cookie.path || '/'}`);
+		if (!isSessionCookie(cookie)) parts.push(`Expires=${new Date(cookie.expires! * 1000).toUTCString()}`);
+		if (cookie.secure) parts.push('Secure');
+		if (cookie.httpOnly) parts.push('HttpOnly');
+		if (cookie.sameSite) parts.push(`SameSite=${cookie.sameSite}`);
+		return parts.join('; ');
 	});
+};
+
+/**
+ * Build the value of a Cookie request header (name=value pairs only)
+ */
+export const puppeteerToCookieHeader = (cookies: CookieParam[]): string => {
+	return cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+};
+
+/**
+ * Name=value pairs joined by "; ", the same as puppeteerToCookieHeader
+ * @deprecated Use puppeteerToCookieHeader, or puppeteerToSetCookieHeaders to keep the attributes
+ */
+export const puppeteerToHeaderSetCookie = (cookies: CookieParam[]): string => {
+	return puppeteerToCookieHeader(cookies);
+};
+
+/**
+ * Whether a browser on `url` would store the cookie: its Domain must match the host
+ * and not be a public suffix, and a Secure cookie needs https
+ */
+const canSetCookie = (cookieString: string, cookie: Cookie, url: string): boolean => {
+	let protocol: string;
+	try {
+		protocol = new URL(url).protocol;
+	} catch {
+		return false;
+	}
+	if (cookie.secure && protocol !== 'https:') {
+		return false;
+	}
+	return new CookieJar().setCookieSync(cookieString, url, { loose: true, ignoreError: true }) !== undefined;
+};
+
+/**
+ * Parse Set-Cookie headers (an array, or one per line) or a Cookie request header.
+ * The first pair of a line is always a cookie, the segments after it are attributes
+ * (Path, Domain, Expires...) of the preceding cookie when they look like one.
+ * @param url Response URL: cookies without Domain are host-only for it, cookies it may not set are dropped
+ */
+export const headerSetCookieToPuppeteer = (setCookieHeader: string | string[], url?: string): CookieParam[] => {
+	const lines = (Array.isArray(setCookieHeader) ? setCookieHeader : setCookieHeader.split(/\r?\n/))
+		.filter(line => line.trim());
+
+	// Group name=value pairs with the attributes that follow them, attributes never span header lines
+	const cookieStrings: string[] = [];
+	for (const line of lines) {
+		let current: string | undefined;
+		for (const segment of line.split(';')) {
+			if (!segment.split('=')[0]!.trim()) continue;
+			if (current !== undefined && isSetCookieAttribute(segment)) {
+				current += `;${segment}`;
+			} else {
+				if (current !== undefined) cookieStrings.push(current);
+				current = segment.trim();
+			}
+		}
+		if (current !== undefined) cookieStrings.push(current);
+	}
+
+	const cookies: CookieParam[] = [];
+	for (const cookieString of cookieStrings) {
+		const cookie = Cookie.parse(cookieString, { loose: true });
+		if (!cookie || (url && !canSetCookie(cookieString, cookie, url))) continue;
+
+		const converted: CookieParam = {
+			name: cookie.key,
+			value: cookie.value,
+			path: cookie.path || '/',
+			expires: toughCookieExpires(cookie),
+			httpOnly: cookie.httpOnly,
+			secure: cookie.secure,
+		};
+		if (cookie.domain) {
+			converted.domain = `.${cookie.domain}`;
+		} else if (url) {
+			converted.url = url;
+		}
+		const sameSite = normalizeSameSite(cookie.sameSite);
+		if (sameSite) converted.sameSite = sameSite;
+		cookies.push(converted);
+	}
 
 	return cookies;
-}
+};
+
+/**
+ * Serialize cookies in the Netscape cookies.txt format used by curl and wget
+ */
+export const puppeteerToNetscape = (cookies: CookieParam[]): string => {
+	const lines = cookies.map(cookie => {
+		const domain = cookie.domain || (cookie.url ? new URL(cookie.url).hostname : '');
+		return [
+			(cookie.httpOnly ? NETSCAPE_HTTP_ONLY_PREFIX : '') + domain,
+			isHostOnly(cookie) ? 'FALSE' : 'TRUE',
+			cookie.path || '/',
+			cookie.secure ? 'TRUE' : 'FALSE',
+			isSessionCookie(cookie) ? '0' : String(Math.round(cookie.expires!)),
+			cookie.name,
+			cookie.value,
+		].join('\t');
+	});
+
+	return ['# Netscape HTTP Cookie File', '', ...lines, ''].join('\n');
+};
+
+/**
+ * Parse a Netscape cookies.txt file, including #HttpOnly_ entries
+ */
+export const netscapeToPuppeteer = (cookiesTxt: string): CookieParam[] => {
+	const cookies: CookieParam[] = [];
+
+	for (const rawLine of cookiesTxt.split(/\r?\n/)) {
+		// Only trim the start, an empty value leaves a trailing tab
+		let line = rawLine.trimStart();
+		const httpOnly = line.startsWith(NETSCAPE_HTTP_ONLY_PREFIX);
+		if (httpOnly) {
+			line = line.slice(NETSCAPE_HTTP_ONLY_PREFIX.length);
+		} else if (!line.trim() || line.startsWith('#')) {
+			continue;
+		}
+
+		const fields = line.split('\t');
+		if (fields.length < 7) continue;
+
+		const [domain, includeSubdomains, path, secure, expiry, name, ...value] = fields as [string, string, string, string, string, string, ...string[]];
+		const expires = Number(expiry);
+		cookies.push({
+			name,
+			value: value.join('\t'),
+			domain: includeSubdomains.toUpperCase() === 'TRUE' && !domain.startsWith('.') ? `.${domain}` : domain,
+			path: path || '/',
+			secure: secure.toUpperCase() === 'TRUE',
+			httpOnly,
+			expires: expires > 0 ? expires : -1,
+		});
+	}
+
+	return cookies;
+};
+
+/**
+ * Convert cookies to the HAR cookie format
+ */
+export const puppeteerToHarCookies = (cookies: CookieParam[]): HarCookie[] => {
+	return cookies.map(cookie => {
+		const harCookie: HarCookie = {
+			name: cookie.name,
+			value: cookie.value,
+			path: cookie.path || '/',
+			domain: cookie.domain,
+			expires: isSessionCookie(cookie) ? null : new Date(cookie.expires! * 1000).toISOString(),
+			httpOnly: Boolean(cookie.httpOnly),
+			secure: Boolean(cookie.secure),
+		};
+		if (cookie.sameSite) harCookie.sameSite = cookie.sameSite;
+		return harCookie;
+	});
+};
+
+export const harCookiesToPuppeteer = (cookies: HarCookie[]): CookieParam[] => {
+	return cookies.map(normalizeCookie);
+};
+
+/**
+ * Convert cookies to the EditThisCookie / Cookie-Editor export format
+ */
+export const puppeteerToExtensionCookies = (cookies: CookieParam[]): ExtensionCookie[] => {
+	const sameSiteMap = { Strict: 'strict', Lax: 'lax', None: 'no_restriction' } as const;
+
+	return cookies.map(cookie => {
+		const session = isSessionCookie(cookie);
+		const extensionCookie: ExtensionCookie = {
+			name: cookie.name,
+			value: cookie.value,
+			domain: cookie.domain || (cookie.url ? new URL(cookie.url).hostname : ''),
+			path: cookie.path || '/',
+			hostOnly: isHostOnly(cookie),
+			httpOnly: Boolean(cookie.httpOnly),
+			secure: Boolean(cookie.secure),
+			session,
+			sameSite: cookie.sameSite ? sameSiteMap[cookie.sameSite] : 'unspecified',
+			storeId: null,
+		};
+		if (!session) extensionCookie.expirationDate = cookie.expires;
+		return extensionCookie;
+	});
+};
+
+export const extensionCookiesToPuppeteer = (cookies: ExtensionCookie[]): CookieParam[] => {
+	return cookies.map(normalizeCookie);
+};
+
+/**
+ * Build a tough-cookie CookieJar, serialize it with jar.serializeSync() or jar.toJSON()
+ */
+export const puppeteerToCookieJar = (cookies: CookieParam[]): CookieJar => {
+	const jar = new CookieJar();
+	const serialized = jar.serializeSync()!;
+
+	serialized.cookies = cookies.map(cookie => new Cookie({
+		key: cookie.name,
+		value: cookie.value,
+		domain: stripLeadingDot(cookie.domain || (cookie.url ? new URL(cookie.url).hostname : '')) || null,
+		path: cookie.path || '/',
+		expires: isSessionCookie(cookie) ? 'Infinity' : new Date(cookie.expires! * 1000),
+		secure: Boolean(cookie.secure),
+		httpOnly: Boolean(cookie.httpOnly),
+		hostOnly: isHostOnly(cookie),
+		sameSite: cookie.sameSite?.toLowerCase(),
+	}).toJSON());
+
+	return CookieJar.deserializeSync(serialized);
+};
+
+/**
+ * Read the cookies of a tough-cookie CookieJar or of its serialized JSON
+ */
+export const cookieJarToPuppeteer = (jar: CookieJar | SerializedCookieJar | string): CookieParam[] => {
+	const serialized = jar instanceof CookieJar
+		? jar.serializeSync()
+		: typeof jar === 'string' ? JSON.parse(jar) as SerializedCookieJar : jar;
+
+	const cookies: CookieParam[] = [];
+	for (const serializedCookie of serialized?.cookies || []) {
+		const cookie = Cookie.fromJSON(serializedCookie);
+		if (!cookie || !cookie.domain) continue;
+
+		const converted: CookieParam = {
+			name: cookie.key,
+			value: cookie.value,
+			domain: cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+			path: cookie.path || '/',
+			expires: toughCookieExpires(cookie),
+			secure: cookie.secure,
+			httpOnly: cookie.httpOnly,
+		};
+		const sameSite = normalizeSameSite(cookie.sameSite);
+		if (sameSite) converted.sameSite = sameSite;
+		cookies.push(converted);
+	}
+	return cookies;
+};
+
+/**
+ * Detect the format of cookies handed over as text or JSON and convert them:
+ * Netscape cookies.txt, Set-Cookie headers, tough-cookie jars, HAR files or cookie arrays
+ * (Puppeteer, HAR, EditThisCookie/Cookie-Editor)
+ */
+export const importCookies = (input: unknown): CookieParam[] => {
+	if (typeof input === 'string') {
+		const text = input.trim();
+		if (text.startsWith('[') || text.startsWith('{')) {
+			return importCookies(JSON.parse(text));
+		}
+		if (text.startsWith('#') || text.split(/\r?\n/).some(line => line.split('\t').length >= 7)) {
+			return netscapeToPuppeteer(text);
+		}
+		return headerSetCookieToPuppeteer(text);
+	}
+
+	if (Array.isArray(input)) {
+		return input.map(normalizeCookie);
+	}
+
+	if (isRecord(input)) {
+		if (hasCookieArray(input)) {
+			return isSerializedCookieJar(input) ? cookieJarToPuppeteer(input) : input.cookies.map(normalizeCookie);
+		}
+		if (isHarLog(input)) {
+			// Cookies set by responses, later entries win
+			const cookies = new Map<string, CookieParam>();
+			for (const entry of input.log.entries) {
+				const host = entry.request?.url ? new URL(entry.request.url).hostname : undefined;
+				for (const cookie of entry.response?.cookies || []) {
+					const converted = normalizeCookie({ ...cookie, domain: cookie.domain || host });
+					cookies.set(`${converted.name};${converted.domain};${converted.path}`, converted);
+				}
+			}
+			return Array.from(cookies.values());
+		}
+	}
+
+	throw new TypeError('Unrecognized cookie format.');
+};
@@ -1,28 +1,294 @@
 // Custom Error Classes for Browser Operations
-export class BrowserConnectionError extends Error {
-	constructor(message: string, public readonly cause?: Error) {
+
+/**
+ * Where the failure happened. Only the fields known at the throw site are set.
+ */
+export interface FelintoErrorContext {
+	url?: string;
+	/** Browser WebSocket endpoint or executable path */
+	endpoint?: string;
+	attempt?: number;
+	/** Proxy server, never its credentials */
+	proxy?: string;
+	[key: string]: unknown;
+}
+
+export interface FelintoErrorOptions {
+	context?: FelintoErrorContext;
+	/** Overrides the class default */
+	retryable?: boolean;
+}
+
+export interface SerializedError {
+	name: string;
+	message: string;
+	code?: string;
+	retryable?: boolean;
+	context?: FelintoErrorContext;
+	cause?: SerializedError;
+}
+
+const serializeError = (error: Error): SerializedError => {
+	if (error instanceof FelintoError) {
+		return error.toJSON();
+	}
+	return { name: error.name, message: error.message };
+};
+
+/**
+ * Base of every error thrown by the library. `code` is stable across releases,
+ * match on it (or instanceof) instead of the message.
+ */
+export class FelintoError extends Error {
+	static readonly code: string = 'FELINTO_ERROR';
+	/** Whether repeating the same operation may succeed */
+	static readonly retryable: boolean = false;
+
+	readonly code: string;
+	readonly retryable: boolean;
+	readonly context: FelintoErrorContext;
+
+	constructor(message: string, public readonly cause?: Error, options: FelintoErrorOptions = {}) {
 		super(message);
+		const errorClass = new.target as typeof FelintoError;
+		this.code = errorClass.code;
+		this.retryable = options.retryable ?? errorClass.retryable;
+		this.context = options.context ?? {};
+		Object.defineProperty(this, 'name', { value: 'FelintoError', configurable: true });
+	}
+
+	toJSON(): SerializedError {
+		return {
+			name: this.name,
+			message: this.message,
+			code: this.code,
+			retryable: this.retryable,
+			context: this.context,
+			...(this.cause ? { cause: serializeError(this.cause) } : {}),
+		};
+	}
+}
+
+export class BrowserConnectionError extends FelintoError {
+	static readonly code = 'BROWSER_CONNECTION_FAILED';
+	static readonly retryable = true;
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
 		Object.defineProperty(this, 'name', { value: 'BrowserConnectionError', configurable: true });
 	}
 }
 
-export class PageCreationError extends Error {
-	constructor(message: string, public readonly cause?: Error) {
-		super(message);
+export class PageCreationError extends FelintoError {
+	static readonly code = 'PAGE_CREATION_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
 		Object.defineProperty(this, 'name', { value: 'PageCreationError', configurable: true });
 	}
 }
 
-export class NavigationError extends Error {
-	constructor(message: string, public readonly cause?: Error) {
-		super(message);
+export class NavigationError extends FelintoError {
+	static readonly code: string = 'NAVIGATION_FAILED';
+	static readonly retryable: boolean = true;
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
 		Object.defineProperty(this, 'name', { value: 'NavigationError', configurable: true });
 	}
 }
 
-export class AuthenticationError extends Error {
-	constructor(message: string, public readonly cause?: Error) {
-		super(message);
+export class NavigationTimeoutError extends NavigationError {
+	static readonly code = 'NAVIGATION_TIMEOUT';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'NavigationTimeoutError', configurable: true });
+	}
+}
+
+export class AuthenticationError extends FelintoError {
+	static readonly code = 'AUTHENTICATION_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
 		Object.defineProperty(this, 'name', { value: 'AuthenticationError', configurable: true });
 	}
-} 
\ No newline at end of file
+}
+
+/**
+ * The proxy is unreachable, refused the tunnel, or no healthy proxy is left
+ */
+export class ProxyError extends FelintoError {
+	static readonly code = 'PROXY_FAILED';
+	static readonly retryable = true;
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'ProxyError', configurable: true });
+	}
+}
+
+export class CaptchaError extends FelintoError {
+	static readonly code = 'CAPTCHA_FAILED';
+	static readonly retryable = true;
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'CaptchaError', configurable: true });
+	}
+}
+
+export class SessionRestoreError extends FelintoError {
+	static readonly code = 'SESSION_RESTORE_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'SessionRestoreError', configurable: true });
+	}
+}
+
+/**
+ * The page, or the browser behind it, was closed while an operation was running
+ */
+export class TargetClosedError extends FelintoError {
+	static readonly code = 'TARGET_CLOSED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'TargetClosedError', configurable: true });
+	}
+}
+
+export class RetryExhaustedError extends FelintoError {
+	static readonly code = 'RETRY_EXHAUSTED';
+
+	constructor(operationName: string, public readonly errors: Error[], options?: FelintoErrorOptions) {
+		const lastError = errors[errors.length - 1];
+		super(`${operationName} failed after ${errors.length} attempts${lastError ? `: ${lastError.message}` : ''}`, lastError, {
+			...options,
+			context: { attempt: errors.length, ...options?.context },
+		});
+		Object.defineProperty(this, 'name', { value: 'RetryExhaustedError', configurable: true });
+	}
+
+	toJSON(): SerializedError & { errors: SerializedError[] } {
+		return { ...super.toJSON(), errors: this.errors.map(serializeError) };
+	}
+}
+
+export class SessionDecryptionError extends FelintoError {
+	static readonly code = 'SESSION_DECRYPTION_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'SessionDecryptionError', configurable: true });
+	}
+}
+
+export class ProfileError extends FelintoError {
+	static readonly code = 'PROFILE_ERROR';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'ProfileError', configurable: true });
+	}
+}
+
+/**
+ * A download was canceled, did not start in time or its content could not be read
+ */
+export class DownloadError extends FelintoError {
+	static readonly code = 'DOWNLOAD_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'DownloadError', configurable: true });
+	}
+}
+
+/**
+ * A plugin hook threw, context.plugin and context.hook tell which one
+ */
+export class PluginError extends FelintoError {
+	static readonly code = 'PLUGIN_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'PluginError', configurable: true });
+	}
+}
+
+/**
+ * A workflow step failed, context.step and context.type tell which one
+ */
+export class WorkflowError extends FelintoError {
+	static readonly code = 'WORKFLOW_FAILED';
+
+	constructor(message: string, cause?: Error, options?: FelintoErrorOptions) {
+		super(message, cause, options);
+		Object.defineProperty(this, 'name', { value: 'WorkflowError', configurable: true });
+	}
+}
+
+/**
+ * A field of page.extract() that could not be filled
+ */
+export interface ExtractionIssue {
+	/** Field path, e.g. `products[2].price` */
+	path: string;
+	/** missing: required and not found (or empty), invalid: a transform rejected the value */
+	code: 'missing' | 'invalid';
+	message: string;
+	selector?: string;
+}
+
+/**
+ * page.extract() found missing required fields or values its transforms rejected, every one in `issues`
+ */
+export class ExtractionError extends FelintoError {
+	static readonly code = 'EXTRACTION_FAILED';
+
+	constructor(public readonly issues: ExtractionIssue[], options?: FelintoErrorOptions) {
+		const first = issues[0];
+		super(`Extraction failed with ${issues.length} issue${issues.length === 1 ? '' : 's'}${first ? `, first: ${first.path} ${first.message}` : ''}`, undefined, options);
+		Object.defineProperty(this, 'name', { value: 'ExtractionError', configurable: true });
+	}
+
+	toJSON(): SerializedError & { issues: ExtractionIssue[] } {
+		return { ...super.toJSON(), issues: this.issues };
+	}
+}
+
+// Chrome net errors raised when the proxy itself is unreachable or refuses the tunnel
+export const PROXY_NET_ERRORS = /net::ERR_(PROXY_|TUNNEL_CONNECTION_FAILED|SOCKS_)/;
+
+type FelintoErrorClass = new (message: string, cause?: Error, options?: FelintoErrorOptions) => FelintoError;
+
+/**
+ * Wrap a Puppeteer or Chrome failure in the matching FelintoError (timeout, closed target,
+ * proxy), or in `fallback` when it is not recognized. FelintoErrors are returned unchanged.
+ */
+export const classifyError = (
+	error: unknown,
+	message: string,
+	context?: FelintoErrorContext,
+	fallback: FelintoErrorClass = FelintoError,
+): FelintoError => {
+	if (error instanceof FelintoError) {
+		return error;
+	}
+
+	const cause = error instanceof Error ? error : new Error(String(error));
+	const options = { context };
+	if (cause.name === 'TimeoutError') {
+		return new NavigationTimeoutError(message, cause, options);
+	}
+	if (cause.name === 'TargetCloseError' || /Target closed|Session closed|detached Frame|frame was detached|Connection closed/i.test(cause.message)) {
+		return new TargetClosedError(message, cause, options);
+	}
+	if (PROXY_NET_ERRORS.test(cause.message)) {
+		return new ProxyError(message, cause, options);
+	}
+	return new fallback(message, cause, options);
+};
@@ -5,4 +5,7 @@ export * from './custom-errors';
 export * from './retry-mechanism';
 export * from './browser-factory';
 export * from './page-configurator';
-export * from './session-data-applier'; 
\ No newline at end of file
+export * from './request-interceptor';
+export * from './session-data-applier';
+export * from './session-snapshot';
+export * from './logger';
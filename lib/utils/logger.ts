@@ -0,0 +1,114 @@
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to every entry. Errors go in `err`, as pino expects.
+ */
+export interface LogFields {
+	pageId?: string;
+	url?: string;
+	operation?: string;
+	attempt?: number;
+	err?: unknown;
+	[key: string]: unknown;
+}
+
+type LogMethod = (fields: LogFields, message: string) => void;
+
+/**
+ * Logger receiving structured fields first, then the message. A pino logger fits as is;
+ * for winston wrap it with fromWinston().
+ */
+export interface Logger {
+	trace?: LogMethod;
+	debug: LogMethod;
+	info: LogMethod;
+	warn: LogMethod;
+	error: LogMethod;
+	child?: (bindings: LogFields) => Logger;
+}
+
+const LEVELS: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+const noop = () => undefined;
+
+/**
+ * Drops every entry, the default in production
+ */
+export const silentLogger: Logger = { trace: noop, debug: noop, info: noop, warn: noop, error: noop, child: () => silentLogger };
+
+/**
+ * Console logger printing one JSON line per entry from `level` up, the default in development
+ */
+export const createConsoleLogger = (level: LogLevel = 'debug', bindings: LogFields = {}): Logger => {
+	const write = (entryLevel: LogLevel): LogMethod => {
+		if (LEVELS.indexOf(entryLevel) < LEVELS.indexOf(level)) return noop;
+		const stream = entryLevel === 'warn' || entryLevel === 'error' ? process.stderr : process.stdout;
+		return (fields, message) => {
+			const { err, ...rest } = { ...bindings, ...fields };
+			stream.write(`${JSON.stringify({
+				level: entryLevel,
+				time: new Date().toISOString(),
+				msg: message,
+				...rest,
+				...(err instanceof Error ? { err: { name: err.name, message: err.message, code: (err as { code?: unknown }).code } } : err !== undefined ? { err } : {}),
+			})}\n`);
+		};
+	};
+
+	return {
+		trace: write('trace'),
+		debug: write('debug'),
+		info: write('info'),
+		warn: write('warn'),
+		error: write('error'),
+		child: childBindings => createConsoleLogger(level, { ...bindings, ...childBindings }),
+	};
+};
+
+interface WinstonLike {
+	log(level: string, message: string, meta?: object): unknown;
+	child?(meta: object): WinstonLike;
+}
+
+/**
+ * Adapt a winston logger, whose methods take the message first
+ */
+export const fromWinston = (winston: WinstonLike): Logger => {
+	const method = (level: LogLevel): LogMethod => (fields, message) => {
+		winston.log(level === 'trace' ? 'silly' : level, message, fields);
+	};
+	return {
+		trace: method('trace'),
+		debug: method('debug'),
+		info: method('info'),
+		warn: method('warn'),
+		error: method('error'),
+		child: winston.child ? bindings => fromWinston(winston.child!(bindings)) : undefined,
+	};
+};
+
+/**
+ * Logger with the bindings added to every entry, through logger.child when available
+ */
+export const childLogger = (logger: Logger, bindings: LogFields): Logger => {
+	if (logger.child) {
+		return logger.child(bindings);
+	}
+
+	const bind = (method?: LogMethod): LogMethod => (fields, message) => method?.call(logger, { ...bindings, ...fields }, message);
+	return {
+		trace: bind(logger.trace),
+		debug: bind(logger.debug),
+		info: bind(logger.info),
+		warn: bind(logger.warn),
+		error: bind(logger.error),
+		child: more => childLogger(logger, { ...bindings, ...more }),
+	};
+};
+
+/**
+ * Logger used when none is configured: silent unless NODE_ENV is development
+ */
+export const defaultLogger = (): Logger => {
+	return process.env.NODE_ENV === 'development' ? createConsoleLogger('debug') : silentLogger;
+};
@@ -1,77 +1,294 @@
-import { Browser } from 'puppeteer';
+import { Browser, BrowserContext, KnownDevices, Permission, Protocol } from 'puppeteer';
 import {
 	BrowserConnectionError,
 	PageCreationError,
+	NavigationError,
 	AuthenticationError,
+	FelintoError,
+	RetryExhaustedError,
+	classifyError,
 } from './custom-errors';
+import { retryOperation, RetryPolicy } from './retry-mechanism';
+import { Logger, childLogger } from './logger';
+import { getUrlOrigin } from './session-snapshot';
 import { ExtendedPage, NewPageParams } from '../types';
 import { SessionManager } from '../session';
+import { createHttpClient } from '../http';
+import { StealthApplier, StealthOptions, resolveFingerprint } from '../stealth';
+import { extract } from '../extract';
+
+// Web permission names to their CDP counterparts
+const PROTOCOL_PERMISSIONS: Record<Permission, Protocol.Browser.PermissionType> = {
+	'geolocation': 'geolocation',
+	'midi': 'midi',
+	'notifications': 'notifications',
+	'camera': 'videoCapture',
+	'microphone': 'audioCapture',
+	'background-sync': 'backgroundSync',
+	'ambient-light-sensor': 'sensors',
+	'accelerometer': 'sensors',
+	'gyroscope': 'sensors',
+	'magnetometer': 'sensors',
+	'accessibility-events': 'accessibilityEvents',
+	'clipboard-read': 'clipboardReadWrite',
+	'clipboard-write': 'clipboardReadWrite',
+	'clipboard-sanitized-write': 'clipboardSanitizedWrite',
+	'payment-handler': 'paymentHandler',
+	'persistent-storage': 'durableStorage',
+	'idle-detection': 'idleDetection',
+	'midi-sysex': 'midiSysex',
+};
+
+/**
+ * Per-page settings, applied to the pages of newPage and to the tabs they open
+ */
+export interface PageSettings {
+	proxy?: NewPageParams['proxy'];
+	cookies?: NewPageParams['cookies'];
+	userAgent?: string;
+	stealth?: StealthOptions;
+	device?: NewPageParams['device'];
+	viewport?: NewPageParams['viewport'];
+	locale?: string;
+	timezoneId?: string;
+	geolocation?: NewPageParams['geolocation'];
+	permissions?: Permission[];
+	colorScheme?: NewPageParams['colorScheme'];
+	extraHeaders?: Record<string, string>;
+	logger?: Logger;
+}
 
 export class PageConfigurator {
 	static async createAndConfigurePage(
 		browser: Browser,
-		params: {
-			proxy?: NewPageParams['proxy'];
-			cookies?: NewPageParams['cookies'];
-			userAgent?: string;
-			blockResources?: boolean;
-			extraHeaders?: Record<string, string>;
+		params: PageSettings & {
+			isolation?: NewPageParams['isolation'];
 			sessionManager?: SessionManager;
 			initialUrl?: string;
 			navigationOptions?: NewPageParams['navigationOptions'];
+			retryOptions?: RetryPolicy;
 		},
 	): Promise<ExtendedPage> {
+		// A proxied page gets its own browser context, the only way to route a connected browser through it.
+		// isolation: 'context' does the same for every page so cookies and storage never leak between them.
+		const proxyServer = params.proxy?.context !== false ? params.proxy?.server : undefined;
+		let context: BrowserContext | undefined;
 		try {
-			const page = (await browser.newPage()) as ExtendedPage;
+			if (proxyServer || params.isolation === 'context') {
+				context = await browser.createBrowserContext(proxyServer ? { proxyServer } : {});
+			}
 
-			if (params.proxy?.server) {
-				const username = params.proxy.username || process.env.PROXY_USERNAME;
-				const password = params.proxy.password || process.env.PROXY_PASSWORD;
-				if (username && password) {
-					await page.authenticate({ username, password });
-				}
+			const target = context || browser;
+			const page = (await retryOperation(
+				() => target.newPage(),
+				params.retryOptions,
+				'Page creation'
+			)) as ExtendedPage;
+
+			if (context) {
+				const pageContext = context;
+				page.once('close', () => {
+					pageContext.close().catch(() => undefined);
+				});
 			}
 
-			if (params.userAgent) {
-				await page.setUserAgent(params.userAgent);
+			await this.configurePage(page, browser, params);
+
+			if (params.initialUrl) {
+				await this.navigate(page, params.initialUrl, params.navigationOptions, params.retryOptions);
 			}
 
-			if (params.extraHeaders) {
-				await page.setExtraHTTPHeaders(params.extraHeaders);
+			return page;
+		} catch (error) {
+			await context?.close().catch(() => undefined);
+			// Navigation, proxy and validation errors keep their own class
+			if (error instanceof FelintoError && !(error instanceof RetryExhaustedError)) {
+				throw error;
 			}
+			throw new PageCreationError(
+				`Failed to create or configure page: ${(error as Error).message}`,
+				error as Error,
+				{ context: { proxy: params.proxy?.server, url: params.initialUrl } },
+			);
+		}
+	}
 
-			if (params.cookies) {
-				await page.setCookie(...params.cookies);
+	/**
+	 * Apply proxy credentials, identity, emulation, headers and cookies to an open page
+	 * and give it its HTTP client and extract()
+	 */
+	static async configurePage(page: ExtendedPage, browser: Browser, params: PageSettings): Promise<void> {
+		page.logger = params.logger;
+
+		if (params.proxy?.server) {
+			const username = params.proxy.username || process.env.PROXY_USERNAME;
+			const password = params.proxy.password || process.env.PROXY_PASSWORD;
+			if (username && password) {
+				await page.authenticate({ username, password });
 			}
+		}
 
-			if (params.blockResources) {
-				await page.setRequestInterception(true);
-				page.on('request', (request) => {
-					const resourceType = request.resourceType();
-					if (
-						resourceType === 'image' ||
-						resourceType === 'stylesheet' ||
-						resourceType === 'font'
-					) {
-						request.abort();
-					} else {
-						request.continue();
-					}
+		const device = params.device ? KnownDevices[params.device] : undefined;
+		if (params.device && !device) {
+			throw new PageCreationError(`Unknown device "${params.device}", use one of the puppeteer KnownDevices names.`);
+		}
+		const userAgent = params.userAgent ?? device?.userAgent;
+
+		// A stealth profile owns the user agent, languages and default viewport so they stay coherent
+		const fingerprint = params.stealth
+			? resolveFingerprint(params.stealth, await browser.version(), {
+				userAgent,
+				locale: params.locale,
+				timezoneId: params.timezoneId,
+			})
+			: undefined;
+
+		if (fingerprint) {
+			await StealthApplier.apply(page, fingerprint);
+		} else if (userAgent) {
+			await page.setUserAgent(userAgent);
+		}
+
+		// Explicit viewport wins over the device, which wins over the stealth preset
+		const viewport = params.viewport ?? device?.viewport ?? fingerprint?.viewport;
+		if (viewport) {
+			await page.setViewport(viewport);
+		}
+
+		if (params.locale) {
+			// Kept attached: overrides are dropped when the CDP session detaches
+			const client = await page.target().createCDPSession();
+			await client.send('Emulation.setLocaleOverride', { locale: params.locale });
+			if (!fingerprint) {
+				await client.send('Network.setUserAgentOverride', {
+					userAgent: userAgent || (await browser.userAgent()),
+					acceptLanguage: params.locale,
 				});
 			}
+		}
 
-			if (params.initialUrl) {
-				await page.goto(params.initialUrl, params.navigationOptions);
+		if (params.timezoneId && !fingerprint) {
+			await page.emulateTimezone(params.timezoneId);
+		}
+
+		if (params.geolocation || params.permissions?.length) {
+			const permissions = [...(params.permissions || []), ...(params.geolocation ? ['geolocation' as const] : [])];
+			await this.grantPermissions(page, browser, permissions);
+		}
+
+		if (params.geolocation) {
+			await page.setGeolocation(params.geolocation);
+		}
+
+		if (params.colorScheme) {
+			await page.emulateMediaFeatures([{ name: 'prefers-color-scheme', value: params.colorScheme }]);
+		}
+
+		if (params.extraHeaders) {
+			await page.setExtraHTTPHeaders(params.extraHeaders);
+		}
+
+		if (params.cookies) {
+			await page.setCookie(...params.cookies);
+		}
+
+		page.http = createHttpClient(page, {
+			userAgent: fingerprint?.userAgent ?? userAgent,
+			proxy: params.proxy,
+			extraHeaders: params.extraHeaders,
+			locale: fingerprint ? fingerprint.languages.join(',') : params.locale,
+		});
+		page.extract = schema => extract(page, schema);
+	}
+
+	/**
+	 * Grant permissions to every origin of a context the page owns (isolation or proxy). In the
+	 * shared default context only the origins the page navigates to are granted, so the grants
+	 * of other pages stay in place. Each main frame document request is held until its origin
+	 * is granted, so the document never runs without them.
+	 */
+	private static async grantPermissions(page: ExtendedPage, browser: Browser, permissions: Permission[]): Promise<void> {
+		const context = page.browserContext();
+		const grant = async (origin?: string) => {
+			const client = await page.browser().target().createCDPSession();
+			try {
+				await client.send('Browser.grantPermissions', {
+					permissions: Array.from(new Set(permissions.map(permission => PROTOCOL_PERMISSIONS[permission]))),
+					browserContextId: context.id,
+					origin,
+				});
+			} finally {
+				await client.detach().catch(() => undefined);
 			}
+		};
 
-			return page;
+		if (context !== browser.defaultBrowserContext()) {
+			await grant();
+			return;
+		}
+
+		const client = await page.target().createCDPSession();
+		const { frameTree } = await client.send('Page.getFrameTree');
+		const granted = new Set<string>();
+		client.on('Fetch.requestPaused', async ({ requestId, request, frameId }: Protocol.Fetch.RequestPausedEvent) => {
+			const origin = getUrlOrigin(request.url);
+			if (frameId === frameTree.frame.id && origin && !granted.has(origin)) {
+				try {
+					await grant(origin);
+					granted.add(origin);
+				} catch (error) {
+					page.logger?.warn({ operation: 'permissions', url: request.url, err: error }, `Failed to grant permissions to ${origin}`);
+				}
+			}
+			// The page may have closed meanwhile
+			await client.send('Fetch.continueRequest', { requestId }).catch(() => undefined);
+		});
+		await client.send('Fetch.enable', { patterns: [{ resourceType: 'Document', requestStage: 'Request' }] });
+	}
+
+	/**
+	 * Navigate to the initial URL, retrying according to the policy
+	 * @throws {AuthenticationError} When the proxy rejects the credentials (HTTP 407)
+	 * @throws {NavigationTimeoutError} When the last attempt timed out
+	 * @throws {ProxyError} When the proxy is unreachable or refuses the tunnel
+	 * @throws {TargetClosedError} When the page closes while navigating
+	 * @throws {NavigationError} When every navigation attempt fails for another reason
+	 */
+	static async navigate(
+		page: ExtendedPage,
+		url: string,
+		navigationOptions?: NewPageParams['navigationOptions'],
+		retryOptions?: RetryPolicy,
+	): Promise<void> {
+		let attempts = 0;
+		try {
+			await retryOperation(
+				async attempt => {
+					attempts = attempt;
+					retryOptions?.logger?.debug({ operation: 'navigate', url, attempt }, `Navigating to ${url}`);
+					const response = await page.goto(url, navigationOptions);
+					if (response?.status() === 407) {
+						throw new AuthenticationError(`Proxy authentication required while navigating to ${url}`, undefined, {
+							context: { url, attempt },
+						});
+					}
+					return response;
+				},
+				retryOptions?.logger ? { ...retryOptions, logger: childLogger(retryOptions.logger, { url }) } : retryOptions,
+				'Navigation'
+			);
 		} catch (error) {
 			if (error instanceof AuthenticationError) {
 				throw error;
 			}
-			throw new PageCreationError(
-				`Failed to create or configure page: ${(error as Error).message}`,
+			// Classify by the last attempt, the message keeps the retry summary
+			const lastError = error instanceof RetryExhaustedError ? error.cause : error;
+			throw classifyError(
+				lastError,
+				`Failed to navigate to ${url}: ${(error as Error).message}`,
+				{ url, attempt: attempts },
+				NavigationError,
 			);
 		}
 	}
-} 
\ No newline at end of file
+}
@@ -0,0 +1,202 @@
+import { promises as fs } from 'fs';
+import { ErrorCode, HTTPRequest, Page, ResourceType, ResponseForRequest } from 'puppeteer';
+import { FelintoPlugin } from '../plugins/FelintoPlugin';
+
+/**
+ * Conditions a request must meet for a rule to apply. All given conditions must match.
+ */
+export interface InterceptionMatcher {
+	resourceTypes?: ResourceType[];
+	/** Glob (`*` stops at `/`, `**` matches anything) or regular expression tested against the full URL */
+	url?: string | RegExp;
+	/** Hostnames, subdomains included */
+	domain?: string | string[];
+	method?: string;
+}
+
+export interface AbortRule extends InterceptionMatcher {
+	action: 'abort';
+	errorCode?: ErrorCode;
+}
+
+export interface ContinueRule extends InterceptionMatcher {
+	action: 'continue';
+	/** Headers merged into the request, null removes the header */
+	headers?: Record<string, string | null>;
+}
+
+export interface FulfillRule extends InterceptionMatcher {
+	action: 'fulfill';
+	status?: number;
+	headers?: Record<string, string>;
+	contentType?: string;
+	body?: string | Buffer;
+	/** File served as the response body */
+	path?: string;
+	/** Builds the response, takes precedence over body and path */
+	respond?: (request: HTTPRequest) => Partial<ResponseForRequest> | Promise<Partial<ResponseForRequest>>;
+}
+
+/**
+ * Answers the request with a redirect to `to`, so the page sees the new URL as the
+ * response URL. GET and HEAD get a 302, other methods a 307 that keeps the method and body.
+ */
+export interface RedirectRule extends InterceptionMatcher {
+	action: 'redirect';
+	url: string | RegExp;
+	to: string | ((requestUrl: string) => string);
+}
+
+export type InterceptionRule = AbortRule | ContinueRule | FulfillRule | RedirectRule;
+
+/**
+ * Rule used by the legacy blockResources flag
+ */
+export const BLOCK_RESOURCES_RULE: AbortRule = {
+	action: 'abort',
+	resourceTypes: ['image', 'stylesheet', 'font'],
+};
+
+// Cooperative interception priority, handlers of other plugins with a higher priority win
+const INTERCEPT_PRIORITY = 0;
+
+/**
+ * Glob where `*` stops at `/` and `**` matches anything, anchored to the whole string
+ */
+export const globToRegExp = (glob: string): RegExp => {
+	const pattern = glob
+		.split('**')
+		.map(part => part
+			.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+			.replace(/\*/g, '[^/]*'))
+		.join('.*');
+	return new RegExp(`^${pattern}$`);
+};
+
+/**
+ * RequestInterceptor - Aborts, rewrites, mocks or redirects page requests according to a rule list
+ */
+export class RequestInterceptor {
+	/**
+	 * Enable interception on the page and resolve each request with the first matching rule.
+	 * Uses cooperative interception so other request handlers on the page keep working.
+	 */
+	static async apply(page: Page, rules: InterceptionRule[]): Promise<void> {
+		if (rules.length === 0) {
+			return;
+		}
+
+		const compiled = rules.map(rule => ({ rule, test: this.compileMatcher(rule) }));
+
+		await page.setRequestInterception(true);
+		page.on('request', request => {
+			if (request.isInterceptResolutionHandled()) {
+				return;
+			}
+
+			const match = compiled.find(entry => entry.test(request));
+			if (!match) {
+				request.continue(request.continueRequestOverrides(), INTERCEPT_PRIORITY);
+				return;
+			}
+
+			request.enqueueInterceptAction(() => this.resolve(request, match.rule));
+		});
+	}
+
+	/**
+	 * Build the predicate for a rule's conditions
+	 */
+	static compileMatcher(matcher: InterceptionMatcher): (request: HTTPRequest) => boolean {
+		const urlPattern = typeof matcher.url === 'string' ? globToRegExp(matcher.url) : matcher.url;
+		const domains = typeof matcher.domain === 'string' ? [matcher.domain] : matcher.domain;
+		const method = matcher.method?.toUpperCase();
+
+		return (request: HTTPRequest) => {
+			if (matcher.resourceTypes && !matcher.resourceTypes.includes(request.resourceType())) {
+				return false;
+			}
+			if (method && request.method().toUpperCase() !== method) {
+				return false;
+			}
+			if (urlPattern && !urlPattern.test(request.url())) {
+				return false;
+			}
+			if (domains) {
+				let hostname: string;
+				try {
+					hostname = new URL(request.url()).hostname;
+				} catch {
+					return false;
+				}
+				if (!domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))) {
+					return false;
+				}
+			}
+			return true;
+		};
+	}
+
+	private static async resolve(request: HTTPRequest, rule: InterceptionRule): Promise<void> {
+		try {
+			switch (rule.action) {
+				case 'abort':
+					await request.abort(rule.errorCode || 'blockedbyclient', INTERCEPT_PRIORITY);
+					return;
+
+				case 'continue': {
+					const headers: Record<string, string> = { ...request.headers() };
+					for (const [name, value] of Object.entries(rule.headers || {})) {
+						delete headers[name.toLowerCase()];
+						if (value !== null) headers[name.toLowerCase()] = value;
+					}
+					await request.continue({ ...request.continueRequestOverrides(), headers }, INTERCEPT_PRIORITY);
+					return;
+				}
+
+				case 'fulfill':
+					await request.respond(await this.buildResponse(request, rule), INTERCEPT_PRIORITY);
+					return;
+
+				case 'redirect': {
+					const target = typeof rule.to === 'function'
+						? rule.to(request.url())
+						: request.url().replace(
+							typeof rule.url === 'string' ? globToRegExp(rule.url) : rule.url,
+							rule.to,
+						);
+					const status = ['GET', 'HEAD'].includes(request.method().toUpperCase()) ? 302 : 307;
+					await request.respond({ status, headers: { location: target } }, INTERCEPT_PRIORITY);
+					return;
+				}
+			}
+		} catch {
+			// A mock that cannot be built must not let the request reach the network
+			await request.abort('failed', INTERCEPT_PRIORITY).catch(() => undefined);
+		}
+	}
+
+	private static async buildResponse(request: HTTPRequest, rule: FulfillRule): Promise<Partial<ResponseForRequest>> {
+		const base: Partial<ResponseForRequest> = {
+			status: rule.status ?? 200,
+			headers: rule.headers,
+			contentType: rule.contentType,
+		};
+
+		if (rule.respond) {
+			return { ...base, ...(await rule.respond(request)) };
+		}
+		if (rule.path) {
+			return { ...base, body: await fs.readFile(rule.path) };
+		}
+		return { ...base, body: rule.body ?? '' };
+	}
+}
+
+/**
+ * Built-in plugin applying the interception rules to the page before its first navigation
+ */
+export const requestInterceptionPlugin = (rules: InterceptionRule[]): FelintoPlugin => ({
+	name: 'request-interception',
+	pageCreated: ({ page }) => RequestInterceptor.apply(page, rules),
+});
@@ -1,35 +1,130 @@
-// Retry mechanism with exponential backoff
-const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+import { FelintoError, RetryExhaustedError } from './custom-errors';
+import { Logger } from './logger';
 
+/**
+ * Retry policy with exponential backoff
+ */
+export interface RetryPolicy {
+	/** Total attempts, the operation always runs at least once (default: 3) */
+	maxRetries?: number;
+	baseDelay?: number;
+	maxDelay?: number;
+	/** Randomize each delay by up to this fraction (true = 0.5) to avoid retry bursts */
+	jitter?: boolean | number;
+	/** Return false to stop retrying and rethrow the error as-is */
+	shouldRetry?: (error: Error, attempt: number) => boolean;
+	signal?: AbortSignal;
+	onRetry?: (error: Error, attempt: number, delay: number) => void;
+	/** Receives every failed attempt and the final failure */
+	logger?: Logger;
+}
+
+export type RetryOptions = RetryPolicy;
+
+/**
+ * Default classification: library errors carry their own retryable flag (authentication
+ * failures never succeed on retry), any other error is retried
+ */
+export const defaultShouldRetry = (error: Error): boolean => !(error instanceof FelintoError) || error.retryable;
+
+const abortReason = (signal: AbortSignal): Error =>
+	signal.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+	if (signal?.aborted) {
+		reject(abortReason(signal));
+		return;
+	}
+
+	const onAbort = () => {
+		clearTimeout(timer);
+		reject(abortReason(signal!));
+	};
+	const timer = setTimeout(() => {
+		signal?.removeEventListener('abort', onAbort);
+		resolve();
+	}, ms);
+	signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Compute the delay before the next attempt
+ */
+export const computeRetryDelay = (attempt: number, policy: RetryPolicy = {}): number => {
+	const { baseDelay = 1000, maxDelay = 30000, jitter = false } = policy;
+	const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+
+	const jitterFactor = jitter === true ? 0.5 : jitter || 0;
+	if (jitterFactor <= 0) {
+		return delay;
+	}
+	return Math.round(delay * (1 - jitterFactor + Math.random() * jitterFactor));
+};
+
+/**
+ * Run an operation, retrying failures according to the policy
+ * @throws {RetryExhaustedError} When every attempt failed, carrying each attempt's error
+ * @throws The original error when shouldRetry rejects it, or the abort reason when the signal fires
+ */
 export async function retryOperation<T>(
-	operation: () => Promise<T>,
-	maxRetries: number = 3,
-	baseDelay: number = 1000,
-	operationName: string = 'operation'
-): Promise<T | null> {
-	let lastError: Error;
+	operation: (attempt: number) => Promise<T>,
+	policy?: RetryPolicy,
+	operationName?: string
+): Promise<T>;
+/**
+ * Positional form kept from earlier versions, it now throws instead of resolving to null
+ * @deprecated Pass a RetryPolicy instead
+ */
+export async function retryOperation<T>(
+	operation: (attempt: number) => Promise<T>,
+	maxRetries: number,
+	baseDelay?: number,
+	operationName?: string
+): Promise<T>;
+export async function retryOperation<T>(
+	operation: (attempt: number) => Promise<T>,
+	policyOrMaxRetries: RetryPolicy | number = {},
+	...rest: [string?] | [number?, string?]
+): Promise<T> {
+	if (typeof policyOrMaxRetries === 'number') {
+		const [baseDelay, name] = rest as [number?, string?];
+		return retryOperation(operation, { maxRetries: policyOrMaxRetries, baseDelay }, name);
+	}
+
+	const policy = policyOrMaxRetries;
+	const operationName = (rest as [string?])[0] ?? 'operation';
+	const { shouldRetry = defaultShouldRetry, signal, onRetry, logger } = policy;
+	const maxRetries = Math.max(1, policy.maxRetries ?? 3);
+	const errors: Error[] = [];
 
 	for (let attempt = 1; attempt <= maxRetries; attempt++) {
+		if (signal?.aborted) {
+			throw abortReason(signal);
+		}
+
 		try {
-			return await operation();
+			return await operation(attempt);
 		} catch (error) {
-			lastError = error as Error;
-			
+			const lastError = error as Error;
+			errors.push(lastError);
+
+			if (signal?.aborted || !shouldRetry(lastError, attempt)) {
+				logger?.error({ operation: operationName, attempt, err: lastError }, `${operationName} failed and will not be retried`);
+				throw lastError;
+			}
+
 			if (attempt === maxRetries) {
-				console.error(`${operationName} failed after ${maxRetries} attempts: ${lastError.message}`);
-				return null;
+				break;
 			}
 
-			const delay = baseDelay * Math.pow(2, attempt - 1); // Exponential backoff
-			console.warn(`${operationName} attempt ${attempt} failed: ${lastError.message}. Retrying in ${delay}ms...`);
-			await sleep(delay);
+			const delay = computeRetryDelay(attempt, policy);
+			logger?.warn({ operation: operationName, attempt, delay, err: lastError }, `${operationName} failed, retrying in ${delay}ms`);
+			onRetry?.(lastError, attempt, delay);
+			await sleep(delay, signal);
 		}
 	}
 
-	return null;
+	const exhausted = new RetryExhaustedError(operationName, errors);
+	logger?.error({ operation: operationName, attempt: errors.length, err: exhausted }, exhausted.message);
+	throw exhausted;
 }
-
-export interface RetryOptions {
-	maxRetries?: number;
-	baseDelay?: number;
-} 
\ No newline at end of file
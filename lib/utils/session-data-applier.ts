@@ -1,8 +1,19 @@
-import { CookieParam } from 'puppeteer';
+import { CookieParam, Frame } from 'puppeteer';
 import { ExtendedPage } from '../types';
+import {
+	IndexedDBDatabaseSnapshot,
+	OriginSnapshot,
+	SessionSnapshot,
+	getUrlOrigin,
+	isSessionSnapshot,
+	withOriginPage,
+} from './session-snapshot';
+import { normalizeCookie } from './cookies-converter';
+import { SessionRestoreError } from './custom-errors';
+import { Logger, silentLogger } from './logger';
 
 /**
- * Interface for session data that can be applied to a page
+ * Interface for session data that can be applied to a page (v0 format, see SessionSnapshot)
  */
 export interface SessionData {
 	cookies?: CookieParam[];
@@ -19,6 +30,8 @@ export class SessionDataApplier {
 	 * Apply cookies only using CDP for more reliable clearing
 	 */
 	static async applyCookies(page: ExtendedPage, sessionData: SessionData): Promise<void> {
+		const logger = page.logger ?? silentLogger;
+
 		// Apply cookies - ALWAYS process if cookies property is defined
 		if (sessionData.cookies !== undefined) {
 			if (sessionData.cookies.length === 0) {
@@ -49,6 +62,7 @@ export class SessionDataApplier {
 								});
 							} catch (error) {
 								// Ignore individual cookie deletion errors
+								logger.debug({ operation: 'session.apply', cookie: cookie.name, err: error }, 'Failed to delete cookie');
 							}
 						}
 						
@@ -56,6 +70,7 @@ export class SessionDataApplier {
 					
 				} catch (error) {
 					// Fallback to traditional method
+					logger.debug({ operation: 'session.apply', err: error }, 'Clearing cookies through CDP failed, deleting them one by one');
 					const existingCookies = await page.cookies();
 					for (const cookie of existingCookies) {
 						try {
@@ -66,48 +81,15 @@ export class SessionDataApplier {
 							});
 						} catch (error2) {
 							// Ignore fallback errors
+							logger.debug({ operation: 'session.apply', cookie: cookie.name, err: error2 }, 'Failed to delete cookie');
 						}
 					}
 				}
 				
 			} else {
-				// Apply provided cookies with proper field sanitization for Chrome compatibility
-				const validCookies = sessionData.cookies.map((cookie: any) => {
-					// Create a clean cookie object with only Chrome-compatible fields
-					const cleanCookie: {
-						name: string;
-						value: string;
-						domain: string;
-						path: string;
-						secure: boolean;
-						httpOnly: boolean;
-						sameSite?: 'Strict' | 'Lax' | 'None';
-						expires?: number;
-					} = {
-						name: cookie.name,
-						value: cookie.value,
-						domain: cookie.domain || '',
-						path: cookie.path || '/',
-						secure: cookie.secure || false,
-						httpOnly: cookie.httpOnly || false
-					};
-
-					// Handle sameSite - convert null to undefined (Chrome doesn't accept null)
-					if (cookie.sameSite && cookie.sameSite !== null) {
-						cleanCookie.sameSite = cookie.sameSite as 'Strict' | 'Lax' | 'None';
-					}
-
-					// Handle expiration - only add if it's not a session cookie
-					if (cookie.session === false && cookie.expirationDate) {
-						cleanCookie.expires = cookie.expirationDate;
-					}
-
-					// Remove Firefox-specific fields that Chrome doesn't understand:
-					// - hostOnly, firstPartyDomain, partitionKey, storeId, session
-					// These fields are automatically removed by only including the fields above
-
-					return cleanCookie;
-				});
+				// Sanitize for Chrome: accepts Puppeteer, HAR and EditThisCookie/Cookie-Editor shapes
+				// and drops fields Chrome doesn't understand (hostOnly, storeId, session...)
+				const validCookies = sessionData.cookies.map(normalizeCookie);
 
 				await page.setCookie(...validCookies);
 			}
@@ -118,6 +100,8 @@ export class SessionDataApplier {
 	 * Apply storage data with enhanced clearing using multiple methods
 	 */
 	static async applyStorage(page: ExtendedPage, sessionData: SessionData): Promise<void> {
+		const logger = page.logger ?? silentLogger;
+
 		// Wait for page to be in a proper state for storage access
 		await page.waitForFunction(() => document.readyState === 'complete' || document.readyState === 'interactive');
 
@@ -156,6 +140,7 @@ export class SessionDataApplier {
 					
 				} catch (error) {
 					// Ignore localStorage clearing errors
+					logger.warn({ operation: 'session.apply', url: page.url(), err: error }, 'Failed to clear localStorage');
 				}
 			} else {
 				// Apply provided localStorage data
@@ -171,6 +156,7 @@ export class SessionDataApplier {
 					}, sessionData.localStorage);
 				} catch (error) {
 					// Ignore localStorage application errors
+					logger.warn({ operation: 'session.apply', url: page.url(), err: error }, 'Failed to apply localStorage');
 				}
 			}
 		}
@@ -206,6 +192,7 @@ export class SessionDataApplier {
 					
 				} catch (error) {
 					// Ignore sessionStorage clearing errors
+					logger.warn({ operation: 'session.apply', url: page.url(), err: error }, 'Failed to clear sessionStorage');
 				}
 			} else {
 				// Apply provided sessionStorage data
@@ -221,6 +208,7 @@ export class SessionDataApplier {
 					}, sessionData.sessionStorage);
 				} catch (error) {
 					// Ignore sessionStorage application errors
+					logger.warn({ operation: 'session.apply', url: page.url(), err: error }, 'Failed to apply sessionStorage');
 				}
 			}
 		}
@@ -229,7 +217,11 @@ export class SessionDataApplier {
 	/**
 	 * Apply session data to a page (legacy method - now calls specific methods)
 	 */
-	static async applySessionData(page: ExtendedPage, sessionData: SessionData): Promise<void> {
+	static async applySessionData(page: ExtendedPage, sessionData: SessionData | SessionSnapshot): Promise<void> {
+		if (isSessionSnapshot(sessionData)) {
+			return this.applySessionSnapshot(page, sessionData);
+		}
+
 		try {
 			// Normalize empty sessionData {} to explicit clean state
 			const normalizedSessionData = this.normalizeSessionData(sessionData);
@@ -240,10 +232,196 @@ export class SessionDataApplier {
 			// Apply storage (requires valid domain context)
 			await this.applyStorage(page, normalizedSessionData);
 		} catch (error) {
-			throw new Error(`Failed to apply session data: ${(error as Error).message}`);
+			throw new SessionRestoreError(`Failed to apply session data: ${(error as Error).message}`, error as Error, { context: { url: page.url() } });
+		}
+	}
+
+	/**
+	 * Apply a versioned snapshot. Storage of the page's current origin is applied
+	 * in place, every other origin is restored through a blank page on that origin.
+	 */
+	static async applySessionSnapshot(page: ExtendedPage, snapshot: SessionSnapshot): Promise<void> {
+		const logger = page.logger ?? silentLogger;
+		try {
+			if (snapshot.cookies.length > 0) {
+				await this.applyCookies(page, { cookies: snapshot.cookies });
+			}
+
+			const pageOrigin = getUrlOrigin(page.url());
+			for (const originSnapshot of snapshot.origins) {
+				const origin = originSnapshot.origin || pageOrigin;
+				if (!origin) {
+					// v0 storage saved without a url, on a page that has not navigated yet
+					await this.applyOnFirstDocument(page, originSnapshot);
+					continue;
+				}
+
+				if (origin === pageOrigin) {
+					await this.applyOriginStorage(page.mainFrame(), originSnapshot, true, logger);
+				} else {
+					// sessionStorage is scoped to a tab, so it can't be carried over from a helper page
+					await withOriginPage(page, origin, originPage =>
+						this.applyOriginStorage(originPage.mainFrame(), originSnapshot, false, logger)
+					);
+				}
+			}
+		} catch (error) {
+			throw new SessionRestoreError(`Failed to apply session snapshot: ${(error as Error).message}`, error as Error, { context: { url: page.url() } });
 		}
 	}
 
+	/**
+	 * Fill the web storage of the first document the page opens on a real origin,
+	 * before its own scripts run
+	 */
+	private static async applyOnFirstDocument(page: ExtendedPage, snapshot: OriginSnapshot): Promise<void> {
+		const { identifier } = await page.evaluateOnNewDocument((localData, sessionData) => {
+			if (window !== window.top || location.origin === 'null') {
+				return;
+			}
+			try {
+				const replace = (storage: Storage, data: Record<string, string>) => {
+					storage.clear();
+					for (const [key, value] of Object.entries(data)) {
+						storage.setItem(key, value);
+					}
+				};
+				replace(localStorage, localData);
+				replace(sessionStorage, sessionData);
+			} catch {
+				// Storage is unavailable on this document
+			}
+		}, snapshot.localStorage, snapshot.sessionStorage);
+
+		const onNavigated = (frame: Frame) => {
+			if (frame !== page.mainFrame() || !getUrlOrigin(frame.url())) {
+				return;
+			}
+			page.off('framenavigated', onNavigated);
+			page.removeScriptToEvaluateOnNewDocument(identifier).catch(() => undefined);
+		};
+		page.on('framenavigated', onNavigated);
+	}
+
+	/**
+	 * Replace web storage and IndexedDB of the frame's origin with the snapshot contents
+	 */
+	private static async applyOriginStorage(frame: Frame, snapshot: OriginSnapshot, includeSessionStorage: boolean, logger: Logger): Promise<void> {
+		await frame.evaluate((localData, sessionData) => {
+			const replace = (storage: Storage, data: Record<string, string>) => {
+				storage.clear();
+				for (const [key, value] of Object.entries(data)) {
+					storage.setItem(key, value);
+				}
+			};
+			replace(localStorage, localData);
+			if (sessionData) {
+				replace(sessionStorage, sessionData);
+			}
+		}, snapshot.localStorage, includeSessionStorage ? snapshot.sessionStorage : null);
+
+		if (snapshot.indexedDB.length > 0) {
+			const blocked = await this.applyIndexedDB(frame, snapshot.indexedDB);
+			for (const name of blocked) {
+				logger.warn({ operation: 'session.apply', url: frame.url(), database: name }, `IndexedDB database "${name}" is open in another tab, it was not restored`);
+			}
+		}
+	}
+
+	/**
+	 * Recreate IndexedDB databases, stores and indexes, then write back their records
+	 * @returns Names of the databases skipped because another connection blocked their deletion
+	 */
+	private static async applyIndexedDB(frame: Frame, databases: IndexedDBDatabaseSnapshot[]): Promise<string[]> {
+		// Promise chains instead of async/await so the function survives the TypeScript downlevel emit
+		return frame.evaluate((snapshots: IndexedDBDatabaseSnapshot[]) => {
+			// Resolves false when an open connection elsewhere blocks the deletion, which would otherwise never settle
+			const deleteDatabase = (name: string) => new Promise<boolean>((resolve, reject) => {
+				const request = indexedDB.deleteDatabase(name);
+				request.onsuccess = () => resolve(true);
+				request.onerror = () => reject(request.error);
+				request.onblocked = () => resolve(false);
+			});
+
+			// Revive the values tagged on capture, see IndexedDBStoreSnapshot
+			const binaryTypes = globalThis as unknown as Record<string, new (buffer: ArrayBuffer) => ArrayBufferView>;
+			const decode = (value: any): any => {
+				if (Array.isArray(value)) return value.map(decode);
+				if (value === null || typeof value !== 'object') return value;
+				if (typeof value.$felinto === 'string' && typeof value.value === 'string') {
+					const bytes = () => Uint8Array.from(atob(value.value), char => char.charCodeAt(0)).buffer;
+					switch (value.$felinto) {
+						case 'undefined': return undefined;
+						case 'Number': return Number(value.value);
+						case 'Date': return new Date(value.value || NaN);
+						case 'ArrayBuffer': return bytes();
+						default: return new binaryTypes[value.$felinto]!(bytes());
+					}
+				}
+				const decoded: Record<string, any> = {};
+				for (const key of Object.keys(value)) decoded[key] = decode(value[key]);
+				return decoded;
+			};
+
+			const recreate = (snapshot: IndexedDBDatabaseSnapshot) => new Promise<IDBDatabase>((resolve, reject) => {
+				const request = indexedDB.open(snapshot.name, snapshot.version);
+				request.onupgradeneeded = () => {
+					const db = request.result;
+					for (const storeSnapshot of snapshot.stores) {
+						const store = db.createObjectStore(storeSnapshot.name, {
+							keyPath: storeSnapshot.keyPath === null ? undefined : storeSnapshot.keyPath,
+							autoIncrement: storeSnapshot.autoIncrement,
+						});
+						for (const index of storeSnapshot.indexes) {
+							store.createIndex(index.name, index.keyPath, { unique: index.unique, multiEntry: index.multiEntry });
+						}
+					}
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+
+			const fill = (db: IDBDatabase, snapshot: IndexedDBDatabaseSnapshot) => new Promise<void>((resolve, reject) => {
+				if (snapshot.stores.length === 0) {
+					db.close();
+					resolve();
+					return;
+				}
+				const transaction = db.transaction(snapshot.stores.map(store => store.name), 'readwrite');
+				for (const storeSnapshot of snapshot.stores) {
+					const store = transaction.objectStore(storeSnapshot.name);
+					for (const record of storeSnapshot.records) {
+						if (storeSnapshot.keyPath === null) {
+							store.put(decode(record.value), decode(record.key));
+						} else {
+							store.put(decode(record.value));
+						}
+					}
+				}
+				transaction.oncomplete = () => {
+					db.close();
+					resolve();
+				};
+				transaction.onerror = () => reject(transaction.error);
+				transaction.onabort = () => reject(transaction.error);
+			});
+
+			const blocked: string[] = [];
+			return snapshots.reduce(
+				(chain, snapshot) => chain
+					.then(() => deleteDatabase(snapshot.name))
+					.then(deleted => {
+						if (!deleted) {
+							blocked.push(snapshot.name);
+							return;
+						}
+						return recreate(snapshot).then(db => fill(db, snapshot));
+					}),
+				Promise.resolve()
+			).then(() => blocked);
+		}, databases);
+	}
+
 	/**
 	 * Normalize session data - treat {} as "clear everything"
 	 */
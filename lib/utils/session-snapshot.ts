@@ -0,0 +1,313 @@
+import { CookieParam, Frame, Page } from 'puppeteer';
+import { SessionData } from './session-data-applier';
+
+export const SESSION_SNAPSHOT_VERSION = 1;
+
+/**
+ * IndexedDB object store contents. Dates, binary data (ArrayBuffer, DataView, typed arrays),
+ * undefined and non-finite numbers are stored as `{ $felinto: type, value }` tags and revived
+ * on restore. Records holding anything else JSON can't carry (Blob, Map, class instances...)
+ * are left out and listed in `skipped`.
+ */
+export interface IndexedDBStoreSnapshot {
+	name: string;
+	keyPath: string | string[] | null;
+	autoIncrement: boolean;
+	indexes: Array<{
+		name: string;
+		keyPath: string | string[];
+		unique: boolean;
+		multiEntry: boolean;
+	}>;
+	records: Array<{ key: any; value: any }>;
+	/** Records left out of the snapshot, keyed by their key as text */
+	skipped?: Array<{ key: string; reason: string }>;
+}
+
+export interface IndexedDBDatabaseSnapshot {
+	name: string;
+	version: number;
+	stores: IndexedDBStoreSnapshot[];
+}
+
+/**
+ * Cache Storage metadata (cache names and request URLs, no bodies).
+ * Captured for inspection only, caches are not restored.
+ */
+export interface CacheStorageSnapshot {
+	name: string;
+	entries: Array<{ url: string; method: string }>;
+}
+
+/**
+ * Storage captured for a single origin. An empty origin means "the page's
+ * current origin" and only appears in snapshots migrated from v0 data without url.
+ */
+export interface OriginSnapshot {
+	origin: string;
+	localStorage: Record<string, string>;
+	sessionStorage: Record<string, string>;
+	indexedDB: IndexedDBDatabaseSnapshot[];
+	caches: CacheStorageSnapshot[];
+}
+
+/**
+ * Versioned session snapshot, replacing the v0 SessionData format
+ */
+export interface SessionSnapshot {
+	version: typeof SESSION_SNAPSHOT_VERSION;
+	timestamp: number;
+	url?: string;
+	cookies: CookieParam[];
+	origins: OriginSnapshot[];
+}
+
+export interface CaptureSnapshotOptions {
+	/** Extra origins to capture besides the ones loaded in the page frames */
+	origins?: string[];
+	/** Skip IndexedDB, which can be large */
+	indexedDB?: boolean;
+}
+
+export const isSessionSnapshot = (data: any): data is SessionSnapshot =>
+	Boolean(data) && data.version === SESSION_SNAPSHOT_VERSION && Array.isArray(data.origins);
+
+/**
+ * Upgrade v0 SessionData (cookies + current-origin storage) to the current snapshot format
+ */
+export const migrateSessionData = (data: SessionData | SessionSnapshot): SessionSnapshot => {
+	if (isSessionSnapshot(data)) {
+		return data;
+	}
+
+	let origin = '';
+	if (typeof data.url === 'string') {
+		try {
+			origin = new URL(data.url).origin;
+		} catch {
+			// Keep the empty origin, storage is applied to the current page
+		}
+	}
+
+	const hasStorage = data.localStorage !== undefined || data.sessionStorage !== undefined;
+
+	return {
+		version: SESSION_SNAPSHOT_VERSION,
+		timestamp: typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
+		url: typeof data.url === 'string' ? data.url : undefined,
+		cookies: data.cookies || [],
+		origins: hasStorage
+			? [{
+				origin,
+				localStorage: data.localStorage || {},
+				sessionStorage: data.sessionStorage || {},
+				indexedDB: [],
+				caches: [],
+			}]
+			: [],
+	};
+};
+
+/**
+ * Returns the origin of a URL, or null for opaque origins (about:blank, data:, ...)
+ */
+export const getUrlOrigin = (url: string): string | null => {
+	try {
+		const origin = new URL(url).origin;
+		return origin === 'null' ? null : origin;
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Open a helper page on the same browser context serving an empty document
+ * for the origin, so its storage can be read or written without loading the site
+ */
+export const withOriginPage = async <T>(
+	page: Page,
+	origin: string,
+	callback: (originPage: Page) => Promise<T>,
+): Promise<T> => {
+	const originPage = await page.browserContext().newPage();
+	try {
+		await originPage.setRequestInterception(true);
+		originPage.on('request', request => {
+			if (request.isNavigationRequest() && request.frame() === originPage.mainFrame()) {
+				request.respond({ status: 200, contentType: 'text/html', body: '<!DOCTYPE html><title></title>' });
+			} else {
+				request.abort();
+			}
+		});
+		await originPage.goto(`${origin}/`, { waitUntil: 'domcontentloaded' });
+		return await callback(originPage);
+	} finally {
+		await originPage.close().catch(() => undefined);
+	}
+};
+
+// In-page functions avoid async/await so they survive the TypeScript downlevel emit
+
+const captureWebStorage = (frame: Frame) => frame.evaluate(() => {
+	const read = (storage: Storage) => {
+		const items: Record<string, string> = {};
+		for (let i = 0; i < storage.length; i++) {
+			const key = storage.key(i);
+			if (key !== null) items[key] = storage.getItem(key) || '';
+		}
+		return items;
+	};
+	try {
+		return { localStorage: read(localStorage), sessionStorage: read(sessionStorage) };
+	} catch (e) {
+		return { localStorage: {}, sessionStorage: {} };
+	}
+});
+
+const captureCaches = (frame: Frame): Promise<CacheStorageSnapshot[]> => frame.evaluate(() => {
+	if (typeof caches === 'undefined') return Promise.resolve([]);
+	return caches.keys()
+		.then(names => Promise.all(names.map(name =>
+			caches.open(name)
+				.then(cache => cache.keys())
+				.then(requests => ({
+					name,
+					entries: requests.map(request => ({ url: request.url, method: request.method })),
+				}))
+		)))
+		.catch(() => []);
+});
+
+const captureIndexedDB = (frame: Frame): Promise<IndexedDBDatabaseSnapshot[]> => frame.evaluate(() => {
+	const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+	const toBase64 = (buffer: ArrayBuffer, offset = 0, length = buffer.byteLength) => {
+		const bytes = new Uint8Array(buffer, offset, length);
+		let binary = '';
+		for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]!);
+		return btoa(binary);
+	};
+
+	// Tag what JSON would corrupt, throw for what can't be tagged so the record is skipped
+	const encode = (value: any): any => {
+		if (value === undefined) return { $felinto: 'undefined', value: '' };
+		if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+		if (typeof value === 'number') return isFinite(value) ? value : { $felinto: 'Number', value: String(value) };
+		if (value instanceof Date) return { $felinto: 'Date', value: isNaN(value.getTime()) ? '' : value.toISOString() };
+		if (value instanceof ArrayBuffer) return { $felinto: 'ArrayBuffer', value: toBase64(value) };
+		if (ArrayBuffer.isView(value)) {
+			return { $felinto: value.constructor.name, value: toBase64(value.buffer as ArrayBuffer, value.byteOffset, value.byteLength) };
+		}
+		if (Array.isArray(value)) return value.map(encode);
+		const prototype = Object.getPrototypeOf(value);
+		if (typeof value === 'object' && (prototype === Object.prototype || prototype === null)) {
+			const encoded: Record<string, any> = {};
+			for (const key of Object.keys(value)) encoded[key] = encode(value[key]);
+			return encoded;
+		}
+		throw new Error(`${Object.prototype.toString.call(value).slice(8, -1)} values can't be saved`);
+	};
+
+	const dumpDatabase = (name: string) => promisify(indexedDB.open(name)).then(db => {
+		const storeNames = Array.from(db.objectStoreNames);
+		return Promise.all(storeNames.map(storeName => {
+			const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+			const indexes = Array.from(store.indexNames).map(indexName => {
+				const index = store.index(indexName);
+				return { name: indexName, keyPath: index.keyPath, unique: index.unique, multiEntry: index.multiEntry };
+			});
+			return Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())])
+				.then(([keys, values]) => {
+					const records: Array<{ key: any; value: any }> = [];
+					const skipped: Array<{ key: string; reason: string }> = [];
+					keys.forEach((key, i) => {
+						try {
+							records.push({ key: encode(key), value: encode(values[i]) });
+						} catch (error) {
+							skipped.push({ key: String(key), reason: (error as Error).message });
+						}
+					});
+					return {
+						name: storeName,
+						keyPath: store.keyPath,
+						autoIncrement: store.autoIncrement,
+						indexes,
+						records,
+						...(skipped.length ? { skipped } : {}),
+					};
+				});
+		})).then(stores => {
+			db.close();
+			return { name, version: db.version, stores };
+		});
+	});
+
+	if (typeof indexedDB === 'undefined' || typeof indexedDB.databases !== 'function') return Promise.resolve([]);
+	return indexedDB.databases()
+		.then(databases => Promise.all(
+			databases.filter(info => info.name).map(info => dumpDatabase(info.name as string))
+		))
+		.catch(() => []);
+});
+
+const captureOrigin = async (
+	frame: Frame,
+	origin: string,
+	options: CaptureSnapshotOptions,
+): Promise<OriginSnapshot> => {
+	const storage = await captureWebStorage(frame);
+	return {
+		origin,
+		...storage,
+		indexedDB: options.indexedDB === false ? [] : await captureIndexedDB(frame),
+		caches: await captureCaches(frame),
+	};
+};
+
+/**
+ * Capture cookies and per-origin storage of the page's frames plus any extra origins
+ */
+export const captureSessionSnapshot = async (
+	page: Page,
+	options: CaptureSnapshotOptions = {},
+): Promise<SessionSnapshot> => {
+	const client = await page.target().createCDPSession();
+	let cookies: CookieParam[];
+	try {
+		// All cookies of the browser context, not only the ones matching the current URL
+		const result = await client.send('Network.getAllCookies');
+		cookies = result.cookies as CookieParam[];
+	} finally {
+		await client.detach().catch(() => undefined);
+	}
+
+	const origins = new Map<string, OriginSnapshot>();
+	for (const frame of page.frames()) {
+		const origin = getUrlOrigin(frame.url());
+		if (!origin || origins.has(origin)) continue;
+		try {
+			origins.set(origin, await captureOrigin(frame, origin, options));
+		} catch {
+			// Frame detached or navigated while capturing
+		}
+	}
+
+	for (const requested of options.origins || []) {
+		const origin = getUrlOrigin(requested);
+		if (!origin || origins.has(origin)) continue;
+		origins.set(origin, await withOriginPage(page, origin, originPage =>
+			captureOrigin(originPage.mainFrame(), origin, options)
+		));
+	}
+
+	return {
+		version: SESSION_SNAPSHOT_VERSION,
+		timestamp: Date.now(),
+		url: page.url(),
+		cookies,
+		origins: Array.from(origins.values()),
+	};
+};
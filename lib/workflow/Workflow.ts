@@ -0,0 +1,206 @@
+import { GoToOptions, KeyInput } from 'puppeteer';
+import { ExtendedPage, NewPageParams } from '../types';
+import { ExtractSchema } from '../extract';
+import { SerializedError } from '../utils/custom-errors';
+import { Logger } from '../utils/logger';
+import { RetryPolicy } from '../utils/retry-mechanism';
+
+/**
+ * State shared by the steps of a run
+ */
+export interface WorkflowContext {
+	page: ExtendedPage;
+	/** Initial variables, extract outputs and loop items, by name */
+	variables: Record<string, unknown>;
+	logger: Logger;
+	signal?: AbortSignal;
+}
+
+export type WorkflowFunction = (context: WorkflowContext, ...args: unknown[]) => unknown | Promise<unknown>;
+
+/**
+ * Page or variable check used by assert, branch and loop. Every object form is plain JSON.
+ */
+export type WorkflowCondition =
+	| { exists: string }
+	| { visible: string }
+	| { urlIncludes: string }
+	/** Text of the selector's element, or of the body */
+	| { textIncludes: string; selector?: string }
+	/** Truthy when `equals` is omitted */
+	| { variable: string; equals?: unknown }
+	| { not: WorkflowCondition }
+	| { all: WorkflowCondition[] }
+	| { any: WorkflowCondition[] }
+	| ((context: WorkflowContext) => boolean | Promise<boolean>);
+
+interface StepOptions {
+	/** Name in the result, defaults to the step's position (e.g. "2.0") */
+	id?: string;
+	/** Milliseconds per attempt, overrides the workflow timeout. Ignored by loop and branch. */
+	timeout?: number;
+	/** Overrides the workflow retry policy. Ignored by loop and branch. */
+	retry?: RetryPolicy;
+	/** Record the failure and go on with the next step */
+	continueOnError?: boolean;
+}
+
+export interface GotoStep extends StepOptions {
+	type: 'goto';
+	url: string;
+	options?: GoToOptions;
+}
+
+export interface ClickStep extends StepOptions {
+	type: 'click';
+	selector: string;
+	/** Wait for the navigation the click triggers */
+	waitForNavigation?: boolean;
+}
+
+export interface FillStep extends StepOptions {
+	type: 'fill';
+	selector: string;
+	value: string;
+	/** Empty the field first (default: true) */
+	clear?: boolean;
+}
+
+export interface PressStep extends StepOptions {
+	type: 'press';
+	key: KeyInput;
+	/** Focus this element first */
+	selector?: string;
+}
+
+/**
+ * Waits for one of selector, navigation or delay
+ */
+export interface WaitForStep extends StepOptions {
+	type: 'waitFor';
+	selector?: string;
+	/** With selector: wait until it is hidden or removed */
+	hidden?: boolean;
+	navigation?: boolean;
+	/** Milliseconds */
+	delay?: number;
+}
+
+/**
+ * Reads the selector's text or attribute, or every field of a page.extract() schema
+ */
+export interface ExtractStep extends StepOptions {
+	type: 'extract';
+	selector?: string;
+	schema?: ExtractSchema;
+	/** Variable receiving the value */
+	as: string;
+	/** Read this attribute instead of the trimmed text */
+	attribute?: string;
+	/** Every match as an array instead of the first one */
+	multiple?: boolean;
+}
+
+export interface AssertStep extends StepOptions {
+	type: 'assert';
+	condition: WorkflowCondition;
+	message?: string;
+}
+
+/**
+ * Repeats its steps `times` times, for each item of the `over` array variable, or while
+ * the condition holds. The item is exposed as `as` (default "item") and its index as `<as>Index`.
+ */
+export interface LoopStep extends StepOptions {
+	type: 'loop';
+	steps: WorkflowStep[];
+	times?: number;
+	over?: string;
+	as?: string;
+	while?: WorkflowCondition;
+	/** Guard for `while` loops (default: 1000) */
+	maxIterations?: number;
+}
+
+export interface BranchStep extends StepOptions {
+	type: 'branch';
+	if: WorkflowCondition;
+	then: WorkflowStep[];
+	else?: WorkflowStep[];
+}
+
+export interface CallFunctionStep extends StepOptions {
+	type: 'callFunction';
+	/** A function, or the name of one passed in the run options */
+	fn: string | WorkflowFunction;
+	args?: unknown[];
+	/** Variable receiving the returned value */
+	as?: string;
+}
+
+/**
+ * A step as a plain object. Its url, selector, value and args strings accept
+ * `{{variable.path}}` placeholders.
+ */
+export type WorkflowStep =
+	| GotoStep
+	| ClickStep
+	| FillStep
+	| PressStep
+	| WaitForStep
+	| ExtractStep
+	| AssertStep
+	| LoopStep
+	| BranchStep
+	| CallFunctionStep;
+
+export interface WorkflowDefinition {
+	name?: string;
+	steps: WorkflowStep[];
+	variables?: Record<string, unknown>;
+	/** Default retry policy of every step (default: a single attempt) */
+	retry?: RetryPolicy;
+	/** Default milliseconds per step attempt (default: 30000) */
+	timeout?: number;
+	/** newPage params used by runWorkflow when no page is given */
+	page?: NewPageParams;
+}
+
+export interface RunWorkflowOptions {
+	/** Run on this page instead of opening one from definition.page */
+	page?: ExtendedPage;
+	/** Functions callable by name from callFunction steps */
+	functions?: Record<string, WorkflowFunction>;
+	signal?: AbortSignal;
+	logger?: Logger;
+}
+
+export type WorkflowStatus = 'passed' | 'failed';
+
+export interface WorkflowStepResult {
+	/** step.id, or the step's position */
+	id: string;
+	type: WorkflowStep['type'];
+	status: WorkflowStatus;
+	attempts: number;
+	/** Epoch milliseconds */
+	startedAt: number;
+	duration: number;
+	output?: unknown;
+	error?: SerializedError;
+	/** Loop iteration of the step, counted from 0 */
+	iteration?: number;
+	/** Steps run by a loop or branch, in order */
+	steps?: WorkflowStepResult[];
+}
+
+export interface WorkflowResult {
+	name?: string;
+	/** Failed when a step without continueOnError failed, or the run was aborted */
+	status: WorkflowStatus;
+	startedAt: number;
+	duration: number;
+	steps: WorkflowStepResult[];
+	variables: Record<string, unknown>;
+	error?: SerializedError;
+}
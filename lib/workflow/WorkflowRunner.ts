@@ -0,0 +1,394 @@
+import { ExtendedPage } from '../types';
+import { extract } from '../extract';
+import { FelintoError, WorkflowError } from '../utils/custom-errors';
+import { childLogger, silentLogger } from '../utils/logger';
+import { retryOperation } from '../utils/retry-mechanism';
+import {
+	BranchStep,
+	LoopStep,
+	RunWorkflowOptions,
+	WorkflowCondition,
+	WorkflowContext,
+	WorkflowDefinition,
+	WorkflowResult,
+	WorkflowStep,
+	WorkflowStepResult,
+} from './Workflow';
+
+const PLACEHOLDER = /\{\{\s*([\w$.-]+)\s*\}\}/g;
+
+const readPath = (variables: Record<string, unknown>, path: string): unknown => {
+	let value: unknown = variables;
+	for (const key of path.split('.')) {
+		if (value === null || value === undefined) return undefined;
+		value = (value as Record<string, unknown>)[key];
+	}
+	return value;
+};
+
+/**
+ * Replace `{{path}}` placeholders with the variables, as text
+ */
+const interpolate = (template: string, variables: Record<string, unknown>): string =>
+	template.replace(PLACEHOLDER, (_, path: string) => {
+		const value = readPath(variables, path);
+		if (value === undefined || value === null) return '';
+		return typeof value === 'object' ? JSON.stringify(value) : String(value);
+	});
+
+/**
+ * A lone placeholder keeps the variable's own type, so args can receive objects
+ */
+const resolveArg = (arg: unknown, variables: Record<string, unknown>): unknown => {
+	if (typeof arg !== 'string') return arg;
+	const lone = /^\{\{\s*([\w$.-]+)\s*\}\}$/.exec(arg);
+	return lone ? readPath(variables, lone[1]!) : interpolate(arg, variables);
+};
+
+const describeCondition = (condition: WorkflowCondition): string =>
+	typeof condition === 'function' ? condition.name || 'function' : JSON.stringify(condition);
+
+const abortReason = (signal: AbortSignal): Error =>
+	signal.reason instanceof Error ? signal.reason : new Error('Workflow aborted');
+
+const timeoutError = (timeout: number) => new WorkflowError(`Timed out after ${timeout}ms`, undefined, { retryable: true });
+
+/**
+ * Milliseconds left of a step attempt, throwing once none are. Every page call of the step
+ * is bounded by it, so a timed out attempt stops instead of running next to its retry.
+ */
+const createDeadline = (timeout: number) => {
+	const end = Date.now() + timeout;
+	return (): number => {
+		const left = end - Date.now();
+		if (left <= 0) throw timeoutError(timeout);
+		return left;
+	};
+};
+
+const withTimeout = async <T>(run: () => Promise<T>, timeout: number): Promise<T> => {
+	let timer: NodeJS.Timeout | undefined;
+	try {
+		return await Promise.race([
+			run(),
+			new Promise<never>((_, reject) => {
+				timer = setTimeout(() => reject(timeoutError(timeout)), timeout);
+			}),
+		]);
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+/**
+ * WorkflowRunner - Executes a workflow definition step by step on a page, recording the
+ * timing, attempts and error of every step
+ */
+export class WorkflowRunner {
+	constructor(private readonly definition: WorkflowDefinition, private readonly options: RunWorkflowOptions = {}) {}
+
+	/**
+	 * Run every step on the page. Failures end up in the result, this never throws.
+	 */
+	async run(page: ExtendedPage): Promise<WorkflowResult> {
+		const startedAt = Date.now();
+		const logger = childLogger(this.options.logger ?? page.logger ?? silentLogger, { workflow: this.definition.name });
+		const context: WorkflowContext = {
+			page,
+			variables: { ...this.definition.variables },
+			logger,
+			signal: this.options.signal,
+		};
+
+		const steps: WorkflowStepResult[] = [];
+		let error: FelintoError | undefined;
+		try {
+			await this.runSteps(this.definition.steps, '', context, steps);
+		} catch (failure) {
+			error = failure instanceof FelintoError
+				? failure
+				: new WorkflowError(`Workflow aborted: ${(failure as Error).message}`, failure as Error);
+			logger.error({ operation: 'workflow', err: error }, `Workflow failed: ${error.message}`);
+		}
+
+		return {
+			name: this.definition.name,
+			status: error ? 'failed' : 'passed',
+			startedAt,
+			duration: Date.now() - startedAt,
+			steps,
+			variables: context.variables,
+			...(error ? { error: error.toJSON() } : {}),
+		};
+	}
+
+	/**
+	 * Run steps in order, rethrowing the first failure not marked continueOnError
+	 */
+	private async runSteps(steps: WorkflowStep[], prefix: string, context: WorkflowContext, results: WorkflowStepResult[], iteration?: number): Promise<void> {
+		for (let index = 0; index < steps.length; index++) {
+			if (context.signal?.aborted) {
+				throw abortReason(context.signal);
+			}
+
+			const step = steps[index]!;
+			const { result, error } = await this.runStep(step, step.id ?? (prefix ? `${prefix}.${index}` : `${index}`), context, iteration);
+			results.push(result);
+			if (error && !step.continueOnError) {
+				throw error;
+			}
+		}
+	}
+
+	private async runStep(
+		step: WorkflowStep,
+		id: string,
+		context: WorkflowContext,
+		iteration?: number,
+	): Promise<{ result: WorkflowStepResult; error?: FelintoError }> {
+		const result: WorkflowStepResult = { id, type: step.type, status: 'passed', attempts: 0, startedAt: Date.now(), duration: 0 };
+		if (iteration !== undefined) {
+			result.iteration = iteration;
+		}
+
+		let error: FelintoError | undefined;
+		try {
+			if (step.type === 'loop' || step.type === 'branch') {
+				// Containers run once, their steps carry their own retry and timeout
+				result.attempts = 1;
+				result.steps = [];
+				result.output = step.type === 'loop'
+					? await this.runLoop(step, id, context, result.steps)
+					: await this.runBranch(step, id, context, result.steps);
+			} else {
+				const timeout = step.timeout ?? this.definition.timeout ?? 30000;
+				const attempt = (attempt: number) => {
+					result.attempts = attempt;
+					return withTimeout(() => this.execute(step, context, timeout), timeout);
+				};
+				const policy = step.retry ?? this.definition.retry;
+				result.output = policy
+					? await retryOperation(attempt, { logger: context.logger, signal: context.signal, ...policy }, `Workflow step "${id}"`)
+					: await attempt(1);
+			}
+		} catch (failure) {
+			// Failures of nested steps are already wrapped, they bubble up unchanged
+			error = step.type === 'loop' || step.type === 'branch'
+				? failure instanceof FelintoError ? failure : new WorkflowError((failure as Error).message, failure as Error)
+				: new WorkflowError(`Step "${id}" (${step.type}) failed: ${(failure as Error).message}`, failure as Error, {
+					context: { step: id, type: step.type, url: context.page.url() },
+					retryable: failure instanceof FelintoError ? failure.retryable : true,
+				});
+			result.status = 'failed';
+			result.error = error.toJSON();
+		}
+
+		result.duration = Date.now() - result.startedAt;
+		if (error) {
+			context.logger.warn({ operation: 'workflow.step', step: id, type: step.type, duration: result.duration, err: error }, error.message);
+		} else {
+			context.logger.debug({ operation: 'workflow.step', step: id, type: step.type, duration: result.duration }, `Step "${id}" passed`);
+		}
+		return { result, error };
+	}
+
+	private async execute(step: Exclude<WorkflowStep, LoopStep | BranchStep>, context: WorkflowContext, timeout: number): Promise<unknown> {
+		const { page, variables } = context;
+		const left = createDeadline(timeout);
+		const text = (template: string) => interpolate(template, variables);
+
+		switch (step.type) {
+			case 'goto': {
+				const response = await page.goto(text(step.url), { timeout: left(), ...step.options });
+				return response ? response.status() : undefined;
+			}
+
+			case 'click': {
+				const selector = text(step.selector);
+				await page.waitForSelector(selector, { visible: true, timeout: left() });
+				if (step.waitForNavigation) {
+					await Promise.all([page.waitForNavigation({ timeout: left() }), page.click(selector)]);
+				} else {
+					left();
+					await page.click(selector);
+				}
+				return undefined;
+			}
+
+			case 'fill': {
+				const selector = text(step.selector);
+				await page.waitForSelector(selector, { visible: true, timeout: left() });
+				await page.focus(selector);
+				if (step.clear !== false) {
+					// Select and delete so the page's input listeners see the change
+					await page.$eval(selector, element => {
+						if ('select' in element && typeof element.select === 'function') element.select();
+					});
+					left();
+					await page.keyboard.press('Backspace');
+				}
+				// One character at a time, so a long value stops typing at the timeout
+				for (const character of text(step.value)) {
+					left();
+					await page.keyboard.type(character);
+				}
+				return undefined;
+			}
+
+			case 'press': {
+				if (step.selector) {
+					left();
+					await page.focus(text(step.selector));
+				}
+				left();
+				await page.keyboard.press(step.key);
+				return undefined;
+			}
+
+			case 'waitFor': {
+				if (step.selector) {
+					await page.waitForSelector(text(step.selector), step.hidden ? { hidden: true, timeout: left() } : { visible: true, timeout: left() });
+				} else if (step.navigation) {
+					await page.waitForNavigation({ timeout: left() });
+				} else if (step.delay !== undefined) {
+					const wait = Math.min(step.delay, left());
+					await new Promise(resolve => setTimeout(resolve, wait));
+					if (wait < step.delay) throw timeoutError(timeout);
+				} else {
+					throw new WorkflowError('waitFor needs a selector, navigation or delay.');
+				}
+				return undefined;
+			}
+
+			case 'extract': {
+				if (step.schema) {
+					left();
+					variables[step.as] = await extract(page, step.schema);
+					return variables[step.as];
+				}
+				if (!step.selector) {
+					throw new WorkflowError('extract needs a selector or a schema.');
+				}
+				const selector = text(step.selector);
+				const attribute = step.attribute;
+				let value: unknown;
+				if (step.multiple) {
+					left();
+					value = await page.$$eval(selector, (elements, name) =>
+						elements.map(element => (name ? element.getAttribute(name) : (element.textContent || '').trim())), attribute);
+				} else {
+					await page.waitForSelector(selector, { timeout: left() });
+					value = await page.$eval(selector, (element, name) =>
+						(name ? element.getAttribute(name) : (element.textContent || '').trim()), attribute);
+				}
+				variables[step.as] = value;
+				return value;
+			}
+
+			case 'assert': {
+				if (!(await this.check(step.condition, context))) {
+					throw new WorkflowError(step.message ?? `Assertion failed: ${describeCondition(step.condition)}`, undefined, { retryable: true });
+				}
+				return undefined;
+			}
+
+			case 'callFunction': {
+				const fn = typeof step.fn === 'string' ? this.options.functions?.[step.fn] : step.fn;
+				if (!fn) {
+					throw new WorkflowError(`Unknown workflow function "${step.fn}", pass it in the functions option.`);
+				}
+				const value = await fn(context, ...(step.args || []).map(arg => resolveArg(arg, variables)));
+				if (step.as) {
+					variables[step.as] = value;
+				}
+				return value;
+			}
+		}
+	}
+
+	private async runLoop(step: LoopStep, id: string, context: WorkflowContext, results: WorkflowStepResult[]): Promise<number> {
+		const name = step.as ?? 'item';
+		const items = step.over !== undefined ? readPath(context.variables, step.over) : undefined;
+		if (step.over !== undefined && !Array.isArray(items)) {
+			throw new WorkflowError(`Loop ${id}: variable "${step.over}" is not an array.`, undefined, { context: { step: id, type: 'loop' } });
+		}
+		if (items === undefined && step.times === undefined && !step.while) {
+			throw new WorkflowError(`Loop ${id} needs times, over or while.`, undefined, { context: { step: id, type: 'loop' } });
+		}
+
+		// Only while loops are bounded by the guard, which is an error when reached
+		const guarded = items === undefined && step.times === undefined;
+		const limit = Array.isArray(items) ? items.length : step.times ?? step.maxIterations ?? 1000;
+		let iteration = 0;
+		for (; iteration < limit; iteration++) {
+			if (step.while && !(await this.check(step.while, context))) {
+				return iteration;
+			}
+			if (Array.isArray(items)) {
+				context.variables[name] = items[iteration];
+			}
+			context.variables[`${name}Index`] = iteration;
+			await this.runSteps(step.steps, id, context, results, iteration);
+		}
+
+		if (guarded && step.while && (await this.check(step.while, context))) {
+			throw new WorkflowError(`Loop ${id} still running after ${limit} iterations.`, undefined, {
+				context: { step: id, type: 'loop' },
+			});
+		}
+		return iteration;
+	}
+
+	private async runBranch(step: BranchStep, id: string, context: WorkflowContext, results: WorkflowStepResult[]): Promise<'then' | 'else'> {
+		const taken = (await this.check(step.if, context)) ? 'then' : 'else';
+		await this.runSteps((taken === 'then' ? step.then : step.else) || [], `${id}.${taken}`, context, results);
+		return taken;
+	}
+
+	private async check(condition: WorkflowCondition, context: WorkflowContext): Promise<boolean> {
+		const { page, variables } = context;
+
+		if (typeof condition === 'function') {
+			return Boolean(await condition(context));
+		}
+		if ('not' in condition) {
+			return !(await this.check(condition.not, context));
+		}
+		if ('all' in condition) {
+			for (const part of condition.all) {
+				if (!(await this.check(part, context))) return false;
+			}
+			return true;
+		}
+		if ('any' in condition) {
+			for (const part of condition.any) {
+				if (await this.check(part, context)) return true;
+			}
+			return false;
+		}
+		if ('exists' in condition) {
+			return (await page.$(interpolate(condition.exists, variables))) !== null;
+		}
+		if ('visible' in condition) {
+			const element = await page.$(interpolate(condition.visible, variables));
+			if (!element) return false;
+			try {
+				return await element.isVisible();
+			} finally {
+				await element.dispose();
+			}
+		}
+		if ('urlIncludes' in condition) {
+			return page.url().includes(interpolate(condition.urlIncludes, variables));
+		}
+		if ('textIncludes' in condition) {
+			const content = await page
+				.$eval(condition.selector ? interpolate(condition.selector, variables) : 'body', element => element.textContent || '')
+				.catch(() => '');
+			return content.includes(interpolate(condition.textIncludes, variables));
+		}
+
+		const value = readPath(variables, condition.variable);
+		return 'equals' in condition ? JSON.stringify(value) === JSON.stringify(condition.equals) : Boolean(value);
+	}
+}
@@ -0,0 +1,2 @@
+export * from './Workflow';
+export * from './WorkflowRunner';
@@ -31,6 +31,15 @@ export class CreateSessionDto {
   @IsBoolean()
   $debug?: boolean;
 
+  @ApiPropertyOptional({
+    description: 'Nome do perfil salvo (sessão, user agent, proxy, viewport e locale)',
+    example: 'acme-prod'
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  profile?: string;
+
   /**
    * Converte o DTO para SessionConfig
    */
@@ -43,6 +52,10 @@ export class CreateSessionDto {
       config.$debug = this.$debug;
     }
 
+    if (this.profile) {
+      config.profile = this.profile;
+    }
+
     return config;
   }
 }
@@ -1,5 +1,16 @@
 import { ExceptionFilter, Catch, ArgumentsHost, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { Request, Response } from 'express';
+import { FelintoError } from '@felinto-dev/felinto-connect-bot';
+
+// Falhas do browser, proxy e navegação são de dependências externas
+const FELINTO_ERROR_STATUS: Record<string, HttpStatus> = {
+  BROWSER_CONNECTION_FAILED: HttpStatus.SERVICE_UNAVAILABLE,
+  NAVIGATION_TIMEOUT: HttpStatus.GATEWAY_TIMEOUT,
+  NAVIGATION_FAILED: HttpStatus.BAD_GATEWAY,
+  PROXY_FAILED: HttpStatus.BAD_GATEWAY,
+  AUTHENTICATION_FAILED: HttpStatus.BAD_GATEWAY,
+  PROFILE_ERROR: HttpStatus.BAD_REQUEST,
+};
 
 @Catch()
 export class HttpExceptionFilter implements ExceptionFilter {
@@ -12,11 +23,15 @@ export class HttpExceptionFilter implements ExceptionFilter {
 
     const status = exception instanceof HttpException
       ? exception.getStatus()
-      : HttpStatus.INTERNAL_SERVER_ERROR;
+      : exception instanceof FelintoError
+        ? FELINTO_ERROR_STATUS[exception.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+        : HttpStatus.INTERNAL_SERVER_ERROR;
 
     const message = exception instanceof HttpException
       ? exception.getResponse()
-      : 'Internal server error';
+      : exception instanceof FelintoError
+        ? exception.message
+        : 'Internal server error';
 
     const errorResponse = {
       statusCode: status,
@@ -24,6 +39,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
       path: request.url,
       method: request.method,
       message: typeof message === 'string' ? message : (message as any).message,
+      // code, retryable e context para quem consome a API classificar a falha
+      ...(exception instanceof FelintoError ? { error: exception.toJSON() } : {}),
     };
 
     this.logger.error(
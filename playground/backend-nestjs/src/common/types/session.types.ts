@@ -3,6 +3,7 @@ import type { Page } from 'puppeteer';
 export interface SessionConfig {
   browserWSEndpoint: string;
   $debug?: boolean;
+  profile?: string;
   [key: string]: unknown;
 }
 
@@ -13,6 +13,7 @@ import {
   InternalServerErrorException,
   UseFilters,
 } from '@nestjs/common';
+import { FelintoError } from '@felinto-dev/felinto-connect-bot';
 import { SessionService, SessionNotFoundError } from './session.service';
 import { CreateSessionDto, ExecuteCodeDto, SessionIdDto, ScreenshotOptionsDto, TakeScreenshotDto } from '../common/dto/session.dto';
 import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam } from '@nestjs/swagger';
@@ -67,6 +68,10 @@ export class SessionController {
         pageInfo: sessionData.pageInfo,
       };
     } catch (error) {
+      if (error instanceof FelintoError) {
+        throw error;
+      }
+
       throw new InternalServerErrorException({
         error: error instanceof Error ? error.message : String(error),
         stack: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.stack : undefined) : undefined,
@@ -130,6 +135,10 @@ export class SessionController {
         });
       }
 
+      if (error instanceof FelintoError) {
+        throw error;
+      }
+
       throw new InternalServerErrorException({
         error: error instanceof Error ? error.message : String(error),
         stack: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.stack : undefined) : undefined,
@@ -195,6 +204,10 @@ export class SessionController {
         });
       }
 
+      if (error instanceof FelintoError) {
+        throw error;
+      }
+
       throw new InternalServerErrorException({
         error: error instanceof Error ? error.message : String(error),
         stack: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.stack : undefined) : undefined,
@@ -255,6 +268,10 @@ export class SessionController {
         throw error;
       }
 
+      if (error instanceof FelintoError) {
+        throw error;
+      }
+
       throw new InternalServerErrorException({
         error: error instanceof Error ? error.message : String(error),
         stack: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.stack : undefined) : undefined,
@@ -296,6 +313,10 @@ export class SessionController {
         stats,
       };
     } catch (error) {
+      if (error instanceof FelintoError) {
+        throw error;
+      }
+
       throw new InternalServerErrorException({
         error: error instanceof Error ? error.message : String(error),
         stack: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.stack : undefined) : undefined,
@@ -399,6 +420,10 @@ export class SessionController {
         throw error;
       }
 
+      if (error instanceof FelintoError) {
+        throw error;
+      }
+
       throw new InternalServerErrorException({
         success: false,
         valid: false,
@@ -1,3 +1,4 @@
+import type { PressStep, WorkflowDefinition, WorkflowStep } from '@felinto-dev/felinto-connect-bot';
 import type { 
   RecordingData, 
   RecordingEvent, 
@@ -26,6 +27,11 @@ export class ExportService {
         content = this.exportAsPuppeteer(recording, options);
         filename = `recording_${recording.id}_puppeteer.js`;
         break;
+
+      case 'workflow':
+        content = this.exportAsWorkflow(recording, options);
+        filename = `recording_${recording.id}_workflow.json`;
+        break;
       
       default:
         throw new Error(`Formato de exportação não suportado: ${options.format}`);
@@ -152,6 +158,68 @@ export class ExportService {
     return script;
   }
 
+  /**
+   * Exportar como workflow do runWorkflow()
+   */
+  private static exportAsWorkflow(recording: RecordingData, options: ExportOptions): string {
+    const workflow = this.toWorkflow(recording);
+    return options.minifyOutput ?
+      JSON.stringify(workflow) :
+      JSON.stringify(workflow, null, 2);
+  }
+
+  /**
+   * Converter a gravação em um workflow, o mesmo modelo de execução dos bots escritos à mão
+   */
+  static toWorkflow(recording: RecordingData): WorkflowDefinition {
+    const steps: WorkflowStep[] = [];
+
+    if (recording.metadata.initialUrl) {
+      steps.push({ type: 'goto', url: recording.metadata.initialUrl });
+    }
+
+    recording.events.forEach(event => {
+      const step = this.toWorkflowStep(event);
+      if (step) {
+        steps.push(step);
+      }
+    });
+
+    return {
+      name: `recording_${recording.id}`,
+      steps,
+      page: recording.metadata.viewport ? { viewport: recording.metadata.viewport } : undefined
+    };
+  }
+
+  /**
+   * Converter um evento em passo de workflow (screenshots e submits não têm equivalente)
+   */
+  private static toWorkflowStep(event: RecordingEvent): WorkflowStep | undefined {
+    switch (event.type) {
+      case 'click':
+        return event.selector ? { type: 'click', selector: event.selector } : undefined;
+
+      case 'type':
+      case 'form_input_change':
+        return event.selector && event.value !== undefined ?
+          { type: 'fill', selector: event.selector, value: event.value } :
+          undefined;
+
+      case 'navigation':
+        return event.url ? { type: 'goto', url: event.url } : undefined;
+
+      case 'key_press':
+        return event.value ? { type: 'press', key: event.value as PressStep['key'] } : undefined;
+
+      case 'page_load':
+        return { type: 'waitFor', selector: 'body' };
+
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Gerar código Puppeteer para um evento específico
    */
@@ -266,7 +334,7 @@ export class ExportService {
    * Validar opções de exportação
    */
   static validateExportOptions(options: ExportOptions): void {
-    const validFormats = ['json', 'puppeteer'];
+    const validFormats = ['json', 'puppeteer', 'workflow'];
     
     if (!validFormats.includes(options.format)) {
       throw new Error(`Formato inválido: ${options.format}. Formatos suportados: ${validFormats.join(', ')}`);
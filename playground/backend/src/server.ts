@@ -7,7 +7,7 @@ import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { marked } from 'marked';
-import { newPage } from '@felinto-dev/felinto-connect-bot';
+import { newPage, ManualCaptchaSolver, FelintoError } from '@felinto-dev/felinto-connect-bot';
 import SessionManager from './session-manager.js';
 import { RecordingService } from './recording/RecordingService.js';
 import { ExportService } from './recording/ExportService.js';
@@ -136,9 +136,29 @@ function broadcast(message: BroadcastMessage) {
   }
 }
 
+// Corpo de erro das rotas: erros da biblioteca incluem code, retryable e context em details
+function errorResponse(error: any) {
+  return {
+    error: error.message,
+    ...(error instanceof FelintoError ? { details: error.toJSON() } : {}),
+    stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+  };
+}
+
 // Initialize SessionManager with broadcast function
 sessionManager = new SessionManager(broadcast);
 
+// Captchas das sessões criadas com manualCaptcha aguardam resolução pela interface
+const manualCaptchaSolver = new ManualCaptchaSolver({
+  onChallenge: challenge => {
+    broadcast({
+      type: 'captcha_challenge',
+      message: `🧩 Captcha ${challenge.type} aguardando resolução em ${challenge.url}`,
+      data: challenge
+    });
+  }
+});
+
 // Health check endpoint
 app.get('/api/health', (req: Request, res: Response) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
@@ -347,8 +367,7 @@ app.post('/api/execute', async (req: Request, res: Response) => {
     });
     
     res.status(500).json({ 
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -357,6 +376,10 @@ app.post('/api/execute', async (req: Request, res: Response) => {
 app.post('/api/session/create', async (req: Request, res: Response) => {
   try {
     const config = req.body;
+
+    if (config.profile !== undefined && (typeof config.profile !== 'string' || !config.profile)) {
+      return res.status(400).json({ error: 'profile deve ser o nome de um perfil' });
+    }
     
     // Get the latest Chrome endpoint
     let chromeEndpoint = detectedChromeEndpoint;
@@ -390,11 +413,10 @@ app.post('/api/session/create', async (req: Request, res: Response) => {
     const sessionConfig: SessionConfig = {
       ...config,
       browserWSEndpoint: chromeEndpoint,
-      $debug: true
+      $debug: true,
+      ...(config.manualCaptcha ? { captchaSolver: manualCaptchaSolver } : {})
     };
 
-
-
     const session = await sessionManager.createSession(sessionConfig, broadcast);
     
     // Get initial page info
@@ -416,8 +438,7 @@ app.post('/api/session/create', async (req: Request, res: Response) => {
     });
     
     res.status(500).json({ 
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -467,8 +488,7 @@ app.post('/api/session/execute', async (req: Request, res: Response) => {
       });
       
       res.status(500).json({ 
-        error: error.message,
-        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        ...errorResponse(error)
       });
     }
   }
@@ -522,8 +542,7 @@ app.post('/api/session/screenshot', async (req: Request, res: Response) => {
       });
       
       res.status(500).json({ 
-        error: error.message,
-        stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        ...errorResponse(error)
       });
     }
   }
@@ -551,12 +570,36 @@ app.delete('/api/session/:sessionId', async (req: Request, res: Response) => {
     console.error('Erro ao remover sessão:', error);
     
     res.status(500).json({ 
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
 
+// List captchas waiting for a human answer
+app.get('/api/captcha/pending', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    challenges: manualCaptchaSolver.pending()
+  });
+});
+
+// Answer a pending captcha with a token (or the text of image captchas)
+app.post('/api/captcha/:challengeId/solve', (req: Request, res: Response) => {
+  const { challengeId } = req.params;
+  const { token, text } = req.body || {};
+
+  if (typeof token !== 'string' && typeof text !== 'string') {
+    return res.status(400).json({ success: false, error: 'token ou text é obrigatório' });
+  }
+
+  if (!manualCaptchaSolver.resolve(challengeId!, { token, text })) {
+    return res.status(404).json({ success: false, error: 'Captcha não encontrado ou já resolvido' });
+  }
+
+  broadcast({ type: 'success', message: `✅ Captcha ${challengeId} resolvido manualmente` });
+  res.json({ success: true });
+});
+
 // Get session stats
 app.get('/api/sessions/stats', (req: Request, res: Response) => {
   try {
@@ -571,8 +614,7 @@ app.get('/api/sessions/stats', (req: Request, res: Response) => {
     console.error('Erro ao obter estatísticas:', error);
     
     res.status(500).json({ 
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -621,8 +663,7 @@ app.get('/api/session/:sessionId/validate', async (req: Request, res: Response)
     res.status(500).json({
       success: false,
       valid: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -735,8 +776,7 @@ app.post('/api/recording/start', async (req: Request, res: Response) => {
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -822,8 +862,7 @@ app.post('/api/recording/stop', async (req: Request, res: Response) => {
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -913,8 +952,7 @@ app.post('/api/recording/pause', async (req: Request, res: Response) => {
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -992,8 +1030,7 @@ app.get('/api/recording/status/:sessionId', async (req: Request, res: Response)
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1073,8 +1110,7 @@ app.post('/api/recording/screenshot/:sessionId', async (req: Request, res: Respo
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1141,8 +1177,7 @@ app.get('/api/recording/preview/:sessionId', async (req: Request, res: Response)
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1201,8 +1236,7 @@ app.get('/api/recording/page-info/:sessionId', async (req: Request, res: Respons
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1283,8 +1317,7 @@ app.post('/api/recording/export', async (req: Request, res: Response) => {
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1316,8 +1349,7 @@ app.get('/api/recordings', async (req: Request, res: Response) => {
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1346,8 +1378,7 @@ app.get('/api/recording/:recordingId', async (req: Request, res: Response) => {
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1432,8 +1463,7 @@ app.post('/api/recording/playback/start', async (req: Request, res: Response) =>
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1497,8 +1527,7 @@ app.post('/api/recording/playback/control', async (req: Request, res: Response)
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1538,8 +1567,7 @@ app.post('/api/recording/playback/seek', async (req: Request, res: Response) =>
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -1570,8 +1598,7 @@ app.get('/api/recording/playback/status/:recordingId', async (req: Request, res:
     
     res.status(500).json({
       success: false,
-      error: error.message,
-      stack: process.env.NODE_ENV === 'development' ? error.stack : undefined
+      ...errorResponse(error)
     });
   }
 });
@@ -5,7 +5,7 @@ export type BroadcastFn = (message: BroadcastMessage) => void;
 
 // Interface para as mensagens enviadas via WebSocket
 export interface BroadcastMessage {
-  type: 'info' | 'success' | 'warning' | 'error' | 'log' | 'session_expired' | 'recording_event' | 'recording_status';
+  type: 'info' | 'success' | 'warning' | 'error' | 'log' | 'session_expired' | 'recording_event' | 'recording_status' | 'captcha_challenge';
   message: string;
   data?: unknown;
   sessionId?: string;
@@ -16,6 +16,8 @@ export interface BroadcastMessage {
 export interface SessionConfig {
   browserWSEndpoint: string;
   $debug?: boolean;
+  profile?: string; // Nome do perfil salvo no ProfileManager
+  manualCaptcha?: boolean; // Captchas são resolvidos pela interface (/api/captcha/*)
   [key: string]: unknown; // Permite outras propriedades
 }
 
@@ -184,7 +186,7 @@ export interface RecordingStatusResponse {
 
 // Opções para exportação
 export interface ExportOptions {
-  format: 'json' | 'puppeteer' | 'playwright' | 'selenium';
+  format: 'json' | 'puppeteer' | 'workflow' | 'playwright' | 'selenium';
   includeScreenshots: boolean;
   minifyOutput: boolean;
   addComments: boolean;
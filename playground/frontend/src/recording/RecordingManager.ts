@@ -1423,6 +1423,7 @@ export class RecordingManager {
   private getMimeType(format: string): string {
     switch (format) {
       case 'json':
+      case 'workflow':
         return 'application/json';
       case 'puppeteer':
         return 'application/javascript';
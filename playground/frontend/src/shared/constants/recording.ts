@@ -103,6 +103,7 @@ export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
 export const EXPORT_FORMATS = [
   { value: 'json', label: 'JSON', description: 'Formato nativo do sistema' },
   { value: 'puppeteer', label: 'Puppeteer Script', description: 'Script JavaScript para Puppeteer' },
+  { value: 'workflow', label: 'Workflow', description: 'Definição JSON para runWorkflow()' },
   { value: 'playwright', label: 'Playwright Script', description: 'Script JavaScript para Playwright' },
   { value: 'selenium', label: 'Selenium Script', description: 'Script para Selenium WebDriver' }
 ];
@@ -135,7 +135,7 @@ export interface PlaybackState {
 
 // Opções de exportação (frontend)
 export interface ExportOptions {
-  format: 'json' | 'puppeteer' | 'playwright' | 'selenium';
+  format: 'json' | 'puppeteer' | 'workflow' | 'playwright' | 'selenium';
   includeScreenshots: boolean;
   minifyOutput: boolean;
   addComments: boolean;
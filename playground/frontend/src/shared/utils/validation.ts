@@ -156,7 +156,7 @@ export class ValidationService {
 
     if (!options.format) {
       errors.push('Formato de exportação é obrigatório');
-    } else if (!['json', 'puppeteer'].includes(options.format)) {
+    } else if (!['json', 'puppeteer', 'workflow'].includes(options.format)) {
       errors.push(`Formato não suportado: ${options.format}`);
     }
 